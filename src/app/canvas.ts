@@ -0,0 +1,133 @@
+// src/app/canvas.ts
+import { forEachGraphWall, isDataURL, portalMark, type MazeResult } from "./maze";
+import { deckLines, isPackable, packMaze, wallRuns } from "./packed";
+import { PORTAL_UP, floorOf, gridOf, type Wall } from "./topology";
+import { openNeighbors, type Pt } from "./solver";
+import { THEMES, type MazeTheme } from "./theme";
+
+/**
+ * Raster drawing for grids too big for an inline SVG: past a few thousand
+ * nodes the DOM, not the maze, is what makes the page crawl. Same picture as
+ * toSVG (walls, decks, floors, markers) in the same coordinates, so the
+ * overlays on top still line up. Downloads and print keep using toSVG.
+ * Themes apply in full, except that sketchy walls are drawn straight here.
+ */
+export const CANVAS_CELLS = 10_000;
+
+export type CanvasOpts = {
+  cell: number; margin: number; stroke: number;
+  startIcon?: string; goalIcon?: string; waypointIcon?: string; iconScale?: number;
+  // decoded data-URL icons, keyed by URL (until one loads it draws as a dot)
+  images?: Map<string, CanvasImageSource>;
+  theme?: MazeTheme;
+};
+
+// the calls we make, so tests can record them
+export type Pen = Pick<CanvasRenderingContext2D,
+  "beginPath" | "moveTo" | "lineTo" | "arc" | "stroke" | "fill" | "fillText" | "drawImage" | "clearRect" | "fillRect"
+  | "strokeStyle" | "fillStyle" | "lineWidth" | "lineCap" | "lineJoin" | "font" | "textAlign" | "textBaseline" | "globalAlpha">;
+
+/** Does this maze go to the canvas on screen? */
+export const wantsCanvas = (r: MazeResult) => r.maze.reduce((n, row) => n + row.length, 0) > CANVAS_CELLS;
+
+export function drawMaze(ctx: Pen, r: MazeResult, opts: CanvasOpts) {
+  const { cell, margin, stroke } = opts;
+  const grid = isPackable(r) ? null : gridOf(r.maze, r.topology, r.floors);
+  const W = r.maze[0]?.length ?? 0, H = r.maze.length;
+  const P = (u: number) => margin + u*cell;
+  const cx = (p: Pt) => grid ? P(grid.center(p.x, p.y)[0]) : P(p.x + 0.5);
+  const cy = (p: Pt) => grid ? P(grid.center(p.x, p.y)[1]) : P(p.y + 0.5);
+
+  const T = opts.theme ?? THEMES.classic;
+  const viewW = (grid ? grid.size.w : W) * cell + margin*2, viewH = (grid ? grid.size.h : H) * cell + margin*2;
+  ctx.clearRect(0, 0, viewW, viewH);
+  const backdrop = T.floor ?? (T.style === "corridor" ? T.wall : null);
+  if (backdrop) { ctx.fillStyle = backdrop; ctx.fillRect(0, 0, viewW, viewH); }
+  ctx.globalAlpha = 1;
+
+  // walls: one path for the lot
+  ctx.beginPath();
+  const seg = (x1: number, y1: number, x2: number, y2: number) => { ctx.moveTo(P(x1), P(y1)); ctx.lineTo(P(x2), P(y2)); };
+  if (T.style === "corridor") {
+    // passages as broad bands between cell centres
+    ctx.strokeStyle = T.corridor; ctx.lineWidth = cell * 0.6; ctx.lineCap = "round"; ctx.lineJoin = "round";
+    const stride = grid ? grid.width : W;
+    r.maze.forEach((row, y) => row.forEach((c, x) => {
+      if (c.off) return;
+      for (const n of openNeighbors(r.maze, x, y)) {
+        if (n.y*stride + n.x < y*stride + x || (grid && floorOf(grid, n.y) !== floorOf(grid, y))) continue;
+        ctx.moveTo(cx({ x, y }), cy({ x, y })); ctx.lineTo(cx(n), cy(n));
+      }
+    }));
+  } else {
+    ctx.strokeStyle = T.wall; ctx.lineWidth = stroke * T.wallWidth;
+    if (!grid) {
+      ctx.lineCap = T.style === "square" ? "square" : "round"; ctx.lineJoin = T.style === "square" ? "miter" : "round";
+      wallRuns(packMaze(r.maze), seg);
+      for (const row of r.maze) for (const c of row) if (c.bridge && !c.off) deckLines(c.x, c.y, c.bridge).forEach(l => seg(...l));
+    } else {
+      ctx.lineCap = "round"; ctx.lineJoin = "round";
+      forEachGraphWall(r.maze, grid, w => w.r ? arc(ctx, w, P, cell) : seg(w.x1, w.y1, w.x2, w.y2));
+    }
+  }
+  ctx.stroke();
+
+  // floors: panel labels and the stairs
+  if (grid?.floors) {
+    ctx.fillStyle = T.text; ctx.font = `600 ${Math.max(8, Math.round(cell * 0.6))}px sans-serif`;
+    ctx.textAlign = "left"; ctx.textBaseline = "alphabetic";
+    for (let f=0;f<grid.floors.count;f++) {
+      const [ox, oy] = grid.floors.origin(f);
+      ctx.fillText(`Floor ${f + 1}`, P(ox), P(oy - 0.3));
+    }
+    let n = 0;
+    for (const row of r.maze) for (const c of row) for (const l of c.links ?? []) {
+      if (l.dir !== PORTAL_UP) continue;
+      const { fill, name } = portalMark(n);
+      disc(ctx, cx(c), cy(c), cell * 0.34, fill, 0.85, `${name}↑`, cell);
+      disc(ctx, cx(l), cy(l), cell * 0.34, fill, 0.85, `${name}↓`, cell);
+      n++;
+    }
+  }
+
+  // start / goal / waypoints: image, emoji, or a plain dot (as in toSVG)
+  const fs = cell * (opts.iconScale ?? 0.8), rad = Math.max(3, Math.round(cell * 0.25));
+  const marker = (p: Pt, icon: string | undefined, fill: string) => {
+    const X = cx(p), Y = cy(p), img = icon && isDataURL(icon) ? opts.images?.get(icon) : undefined;
+    if (img) ctx.drawImage(img, X - fs/2, Y - fs/2, fs, fs);
+    else if (icon && !isDataURL(icon)) {
+      ctx.globalAlpha = 1; ctx.font = `${fs}px sans-serif`; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+      ctx.fillText(icon, X, Y);
+    } else disc(ctx, X, Y, rad, fill, 1);
+  };
+  marker(r.start, opts.startIcon, T.start);
+  marker(r.goal, opts.goalIcon, T.goal);
+  const wp = r.waypoints;
+  wp?.cells.forEach((p, i) => {
+    marker(p, opts.waypointIcon, wp.kind === "checkpoints" ? T.checkpoint : T.treasure);
+    if (wp.kind !== "checkpoints") return;
+    const corner = !!opts.waypointIcon, nfs = Math.max(6, Math.round(cell * (corner ? 0.35 : 0.3)));
+    ctx.fillStyle = corner ? "#1e3a8a" : "#fff"; ctx.font = `700 ${nfs}px sans-serif`;
+    ctx.textAlign = "center"; ctx.textBaseline = "middle";
+    ctx.fillText(String(i + 1), cx(p) + (corner ? cell*0.3 : 0), cy(p) + (corner ? cell*0.3 : 0));
+  });
+}
+
+// a clockwise arc wall: its centre sits right of the chord, r away from both ends
+function arc(ctx: Pen, w: Wall, P: (u: number) => number, cell: number) {
+  const dx = w.x2 - w.x1, dy = w.y2 - w.y1, chord = Math.hypot(dx, dy), r = w.r!;
+  const d = Math.sqrt(Math.max(0, r*r - chord*chord/4));
+  const ox = (w.x1 + w.x2) / 2 - dy / chord * d, oy = (w.y1 + w.y2) / 2 + dx / chord * d;
+  ctx.moveTo(P(w.x1), P(w.y1));
+  ctx.arc(P(ox), P(oy), r * cell, Math.atan2(w.y1 - oy, w.x1 - ox), Math.atan2(w.y2 - oy, w.x2 - ox));
+}
+
+function disc(ctx: Pen, x: number, y: number, r: number, fill: string, alpha: number, label?: string, cell = 0) {
+  ctx.globalAlpha = alpha; ctx.fillStyle = fill;
+  ctx.beginPath(); ctx.arc(x, y, r, 0, 2 * Math.PI); ctx.fill();
+  ctx.globalAlpha = 1;
+  if (!label) return;
+  ctx.fillStyle = "#fff"; ctx.font = `700 ${Math.max(6, Math.round(cell * 0.38))}px sans-serif`;
+  ctx.textAlign = "center"; ctx.textBaseline = "middle";
+  ctx.fillText(label, x, y);
+}
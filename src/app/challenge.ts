@@ -0,0 +1,117 @@
+// src/app/challenge.ts
+
+/**
+ * Race mode for play: a stopwatch or a countdown, a time penalty per wall
+ * bump, one to three stars for how close the moves came to the shortest
+ * route, and a leaderboard per maze (keyed by paramsKey, the identity saved
+ * mazes use) for a handful of local player profiles. Everything is stored on
+ * the device; nothing goes over the network.
+ */
+export type ClockMode = "stopwatch" | "countdown";
+
+export type ChallengeSpec = {
+  clock: ClockMode;
+  limitSec: number;      // countdown length
+  penaltySec: number;    // added per wall bump
+};
+
+export type Player = { id: string; name: string; avatar: string };
+
+// what a finished (or timed-out) run reports
+export type RunResult = { moves: number; ms: number; bumps: number; timedOut: boolean; shortest: number };
+
+export type Score = {
+  id: string;
+  playerId: string; name: string; avatar: string;   // name and avatar as they were when played
+  moves: number; shortest: number; bumps: number;
+  ms: number;          // clock time
+  totalMs: number;     // with bump penalties; what the board ranks by
+  stars: Stars;
+  clock: ClockMode;
+  at: number;
+};
+
+export type Stars = 1 | 2 | 3;
+
+export const DEFAULT_CHALLENGE: ChallengeSpec = { clock: "stopwatch", limitSec: 60, penaltySec: 2 };
+export const LIMIT_SEC = { min: 10, max: 600 };
+export const PENALTY_SEC = { min: 0, max: 10 };
+export const MAX_SCORES = 10;       // kept per maze
+export const MAX_NAME = 16;
+
+// stars: moves within these multiples of the shortest route
+export const STAR_RATIOS = { three: 1.1, two: 1.5 };
+
+// scores from before anyone made a profile
+export const GUEST: Player = { id: "guest", name: "Guest", avatar: "🏃" };
+
+const clamp = (n:number, lo:number, hi:number) => Math.max(lo, Math.min(hi, n));
+
+export function starsFor(moves: number, shortest: number): Stars {
+  if (moves <= Math.ceil(shortest * STAR_RATIOS.three)) return 3;
+  if (moves <= Math.ceil(shortest * STAR_RATIOS.two)) return 2;
+  return 1;
+}
+
+export const penaltyMs = (bumps: number, spec: ChallengeSpec) => bumps * spec.penaltySec * 1000;
+
+/** The clock as shown: time used so far (stopwatch) or time left (countdown), penalties included */
+export function clockMs(spec: ChallengeSpec, elapsedMs: number, bumps: number): number {
+  const used = elapsedMs + penaltyMs(bumps, spec);
+  return spec.clock === "countdown" ? Math.max(0, spec.limitSec * 1000 - used) : used;
+}
+
+/** Countdown ran out (penalties eat into it too) */
+export const outOfTime = (spec: ChallengeSpec, elapsedMs: number, bumps: number) =>
+  spec.clock === "countdown" && clockMs(spec, elapsedMs, bumps) <= 0;
+
+export function makeScore(run: RunResult, player: Player, spec: ChallengeSpec, id: string, at = Date.now()): Score {
+  return {
+    id, playerId: player.id, name: player.name, avatar: player.avatar,
+    moves: run.moves, shortest: run.shortest, bumps: run.bumps,
+    ms: run.ms, totalMs: run.ms + penaltyMs(run.bumps, spec),
+    stars: starsFor(run.moves, run.shortest), clock: spec.clock, at,
+  };
+}
+
+/** Fastest first; ties go to more stars, then whoever got there first */
+export function rankScores(list: Score[]): Score[] {
+  return [...list].sort((a, b) => a.totalMs - b.totalMs || b.stars - a.stars || a.at - b.at);
+}
+
+/** The board with `s` added; `rank` is its 1-based place, or null if it didn't make the cut */
+export function addScore(list: Score[], s: Score, max = MAX_SCORES): { list: Score[]; rank: number | null } {
+  const next = rankScores([...list, s]).slice(0, max);
+  const i = next.findIndex(x => x.id === s.id);
+  return { list: next, rank: i < 0 ? null : i + 1 };
+}
+
+/** 0:42.3 — tenths matter in a race */
+export function formatRaceTime(ms: number): string {
+  const t = Math.max(0, Math.floor(ms / 100));
+  const s = Math.floor(t / 10);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}.${t % 10}`;
+}
+
+export const starsText = (n: Stars) => "★".repeat(n) + "☆".repeat(3 - n);
+
+/** Stored or hand-edited values back into range */
+export function normalizeChallenge(x: Partial<ChallengeSpec> | null | undefined): ChallengeSpec {
+  const num = (v: unknown, d: number, r: { min:number; max:number }) => typeof v === "number" && isFinite(v) ? clamp(Math.round(v), r.min, r.max) : d;
+  return {
+    clock: x?.clock === "countdown" ? "countdown" : "stopwatch",
+    limitSec: num(x?.limitSec, DEFAULT_CHALLENGE.limitSec, LIMIT_SEC),
+    penaltySec: num(x?.penaltySec, DEFAULT_CHALLENGE.penaltySec, PENALTY_SEC),
+  };
+}
+
+export function isPlayer(x: unknown): x is Player {
+  if (typeof x !== "object" || x === null) return false;
+  const p = x as Record<string, unknown>;
+  return typeof p.id === "string" && typeof p.name === "string" && typeof p.avatar === "string";
+}
+
+/** A new profile; blank names fall back to "Player N" */
+export function newPlayer(name: string, avatar: string, id: string, taken: number): Player {
+  return { id, name: name.trim().slice(0, MAX_NAME) || `Player ${taken + 1}`, avatar: avatar || GUEST.avatar };
+}
@@ -1,136 +1,58 @@
 // src/app/components/AnimatedOverlay.tsx
-import React, { useEffect, useMemo, useRef } from "react";
+import React, { useMemo } from "react";
 import type { CarveStep } from "../maze";
-
-type Mode = "segments" | "polyline";
+import type { ReplayFrame } from "../replay";
+import type { Pt } from "../solver";
+import { floorOf, type Grid } from "../topology";
+import { THEMES, type MazeTheme } from "../theme";
 
 type Props = {
-  steps: CarveStep[];
+  frame: ReplayFrame;     // what to show (see replay.ts)
   cell: number;
   margin: number;
   stroke: number;         // black wall thickness; we derive passage width from cell & stroke
-  segMs: number;          // ms per segment
-  widthCells: number;     // grid W
-  heightCells: number;    // grid H
+  grid: Grid;             // cell centres + viewBox size for any topology
   visible: boolean;
-  mode?: Mode;            // "segments" (classic) | "polyline"
-  autoHide?: boolean;
-  onDone?: () => void;
+  colors?: MazeTheme["replay"];
 };
 
-export default function AnimatedOverlay({
-  steps, cell, margin, stroke, segMs,
-  widthCells, heightCells,
-  visible,
-  mode = "segments",
-  autoHide = false,
-  onDone,
-}: Props) {
-  // shared geometry
-  const viewW = widthCells * cell + margin * 2;
-  const viewH = heightCells * cell + margin * 2;
-  const cx = (x:number) => margin + x*cell + cell/2;
-  const cy = (y:number) => margin + y*cell + cell/2;
-  const durSec = Math.max(0.2, (steps.length * Math.max(10, segMs)) / 1000);
+/** One frame of the visualizer: a handful of paths, however long the timeline */
+export default function AnimatedOverlay({ frame, cell, margin, stroke, grid, visible, colors = THEMES.classic.replay }: Props) {
+  const viewW = grid.size.w * cell + margin * 2;
+  const viewH = grid.size.h * cell + margin * 2;
   const passageWidth = Math.max(1, cell - stroke - 1); // fills the channel nicely
 
-  // // BEFORE:
-  // const segDurSec = Math.max(0.03, Math.max(10, segMs) / 1000);
-
-  // AFTER:
-  const effSegMs  = Math.max(10, segMs);       // clamp very small values for stability
-  const segDurSec = effSegMs / 1000;           // <-- NO extra 0.03s floor here
-
-  // Notify completion on a timer tied to step count (matches classic behavior)
-  const doneRef = useRef(false);
-  useEffect(() => {
-    if (!visible) { doneRef.current = false; return; }
-    doneRef.current = false;
-    const totalMs = steps.length * effSegMs + 120;  // <-- use effSegMs
-    const t = setTimeout(() => {
-      if (!doneRef.current) { doneRef.current = true; onDone?.(); }
-    }, totalMs);
-    return () => clearTimeout(t);
-  }, [visible, steps.length, effSegMs, onDone]);
-
-
-  if (!visible || steps.length === 0) return null;
-
-  if (mode === "polyline") {
-    // === new single-path approach ===
-    const d = useMemo(() => {
-      if (!steps.length) return "";
-      let P = `M ${cx(steps[0].x)} ${cy(steps[0].y)}`;
-      for (const s of steps) P += ` L ${cx(s.nx)} ${cy(s.ny)}`;
-      return P;
-    }, [steps, cell, margin]);
-
-    return (
-      <svg className="dfs-overlay-svg" viewBox={`0 0 ${viewW} ${viewH}`} aria-hidden="true">
-        <defs>
-          <style>{`@keyframes dfs-grow { to { stroke-dashoffset: 0; } }`}</style>
-        </defs>
-        <path
-          d={d}
-          fill="none"
-          stroke="#3b82f6"
-          strokeWidth={passageWidth}
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          vectorEffect="non-scaling-stroke"
-          pathLength={1}
-          style={{ strokeDasharray: 1, strokeDashoffset: 1, animation: `dfs-grow ${durSec}s linear forwards` }}
-          onAnimationEnd={() => { if (autoHide) onDone?.(); }}
-        />
-      </svg>
-    );
-  }
-
-  // === classic "one tiny path per segment" with staggered delay ===
-  // const segDurSec = Math.max(0.03, Math.max(10, segMs) / 1000);
+  const d = useMemo(() => {
+    const cx = (p:Pt) => +(margin + grid.center(p.x, p.y)[0]*cell).toFixed(2);
+    const cy = (p:Pt) => +(margin + grid.center(p.x, p.y)[1]*cell).toFixed(2);
+    // stairs jump between floor panels: nothing to draw across the gap
+    const edges = (steps: CarveStep[]) => steps.map(s => floorOf(grid, s.y) !== floorOf(grid, s.ny) ? ""
+      : `M${cx(s)} ${cy(s)}L${cx({ x: s.nx, y: s.ny })} ${cy({ x: s.nx, y: s.ny })}`).join("");
+    const dots = (ps: Pt[], r: number) => ps.map(p => `M${cx(p) - r} ${cy(p)}a${r} ${r} 0 1 0 ${2*r} 0a${r} ${r} 0 1 0 ${-2*r} 0`).join("");
+    const line = (ps: Pt[]) => ps.map((p, i) => `${i && floorOf(grid, ps[i-1].y) === floorOf(grid, p.y) ? "L" : "M"}${cx(p)} ${cy(p)}`).join("");
+    // where the carve is: top of the stack, or the cell just reached
+    const last = frame.last;
+    const head = frame.stack[frame.stack.length - 1] ?? (last?.kind === "carve" ? { x: last.step.nx, y: last.step.ny } : undefined);
+    return {
+      popped: edges(frame.popped), live: edges(frame.live), braids: edges(frame.braids),
+      visited: dots(frame.visited, cell * 0.28), frontier: dots(frame.frontier, cell * 0.2),
+      route: line(frame.route), head: head ? dots([head], cell * 0.22) : "",
+    };
+  }, [frame, cell, margin, grid]);
+
+  if (!visible) return null;
+  const C = colors;
+  const wide = { fill: "none", strokeWidth: passageWidth, strokeLinecap: "round" as const, strokeLinejoin: "round" as const };
 
   return (
-    <svg
-      className="dfs-overlay-svg"
-      viewBox={`0 0 ${viewW} ${viewH}`}
-      aria-hidden="true"
-    >
-      {/* Keep the keyframes local so we don't rely on global CSS */}
-      <defs>
-        <style>{`
-          @keyframes dfs-draw { to { stroke-dashoffset: 0; } }
-        `}</style>
-      </defs>
-
-      <g>
-        {steps.map((s, i) => {
-          const d = `M ${cx(s.x)} ${cy(s.y)} L ${cx(s.nx)} ${cy(s.ny)}`;
-          const delay = i * segDurSec;
-          return (
-            <path
-              key={i}
-              d={d}
-              fill="none"
-              stroke="#3b82f6"
-              strokeWidth={passageWidth}
-              strokeLinecap="round"      // <<— prevents the "blue squares"
-              strokeLinejoin="round"
-
-              pathLength={1}
-              style={{
-                // animate each tiny segment from length 0 → 1
-                strokeDasharray: 1,
-                strokeDashoffset: 1,
-                animation: `dfs-draw ${segDurSec}s linear forwards`,
-                animationDelay: `${delay}s`,
-                willChange: "stroke-dashoffset",
-              }}
-            />
-          );
-        })}
-      </g>
+    <svg className="dfs-overlay-svg" viewBox={`0 0 ${viewW} ${viewH}`} aria-hidden="true">
+      <path d={d.popped} stroke={C.popped} {...wide} />
+      <path d={d.live} stroke={C.live} {...wide} />
+      <path d={d.braids} stroke={C.braid} {...wide} />
+      <path d={d.visited} fill={C.visited} opacity={0.9} />
+      <path d={d.frontier} fill={C.frontier} />
+      <path d={d.route} stroke={C.route} fill="none" strokeWidth={Math.max(2, Math.round(cell * 0.3))} strokeLinecap="round" strokeLinejoin="round" />
+      <path d={d.head} fill={C.head} />
     </svg>
   );
-
-
 }
@@ -0,0 +1,116 @@
+// src/app/components/ChallengePanel.tsx
+import React, { useRef, useState } from "react";
+import EmojiPicker from "./EmojiPicker";
+import {
+  GUEST, LIMIT_SEC, MAX_NAME, PENALTY_SEC, STAR_RATIOS, formatRaceTime, starsText,
+  type ChallengeSpec, type ClockMode, type Player, type Score,
+} from "../challenge";
+
+const pct = (ratio: number) => Math.round((ratio - 1) * 100);
+
+type Props = {
+  on: boolean; setOn: (v: boolean) => void;
+  spec: ChallengeSpec; setSpec: (s: ChallengeSpec) => void;
+  players: Player[]; playerId: string | null; setPlayerId: (id: string | null) => void;
+  onAddPlayer: (name: string, avatar: string) => void;
+  onRemovePlayer: (id: string) => void;
+  scores: Score[];                // this maze's board, best first
+  lastScoreId: string | null;     // highlighted after a finish
+  onClearScores: () => void;
+  square: boolean;                // play needs a flat square grid
+};
+
+export default function ChallengePanel(props: Props) {
+  const { on, spec, players, playerId, scores } = props;
+  const set = (patch: Partial<ChallengeSpec>) => props.setSpec({ ...spec, ...patch });
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState("🦄");
+  const [picker, setPicker] = useState(false);
+  const avatarBtnRef = useRef<HTMLButtonElement | null>(null);
+  const current = players.find(p => p.id === playerId) ?? GUEST;
+
+  const add = () => { props.onAddPlayer(name, avatar); setName(""); };
+  // the picker listens for Escape itself; keep it from minimizing the panel too
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" && picker) { e.stopPropagation(); setPicker(false); }
+  };
+
+  return (
+    <fieldset onKeyDown={onKeyDown}>
+      <legend>Challenge</legend>
+      <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+        <input type="checkbox" checked={on && props.square} disabled={!props.square} onChange={e=>props.setOn(e.target.checked)} />
+        <span>Race mode (turns on play){!props.square && " — square mazes only"}</span>
+      </label>
+      {on && props.square && (
+        <div style={{ display:"grid", gap:10, marginTop:8 }}>
+          <div className="grid-2">
+            <label>Clock
+              <select className="input" value={spec.clock} onChange={e=>set({ clock: e.target.value as ClockMode })}>
+                <option value="stopwatch">Stopwatch</option>
+                <option value="countdown">Countdown</option>
+              </select>
+            </label>
+            {spec.clock === "countdown" && (
+              <label>Seconds
+                <input className="input" type="number" min={LIMIT_SEC.min} max={LIMIT_SEC.max} value={spec.limitSec}
+                       onChange={e=>set({ limitSec: Math.max(LIMIT_SEC.min, Math.min(LIMIT_SEC.max, parseInt(e.target.value) || LIMIT_SEC.min)) })} />
+              </label>
+            )}
+          </div>
+          <label>Wall bump penalty: {spec.penaltySec} s
+            <input type="range" min={PENALTY_SEC.min} max={PENALTY_SEC.max} step={1} value={spec.penaltySec}
+                   aria-valuetext={`${spec.penaltySec} seconds`} onChange={e=>set({ penaltySec: parseInt(e.target.value) })} />
+          </label>
+
+          <label>Player
+            <div className="hstack" style={{ gap:8 }}>
+              <select className="input" value={current.id} onChange={e=>props.setPlayerId(e.target.value === GUEST.id ? null : e.target.value)}>
+                <option value={GUEST.id}>{GUEST.avatar} {GUEST.name}</option>
+                {players.map(p => <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>)}
+              </select>
+              {current.id !== GUEST.id && (
+                <button type="button" className="btn btn-sm" onClick={()=>props.onRemovePlayer(current.id)}
+                        aria-label={`Remove ${current.name}`} title="Remove this player">✕</button>
+              )}
+            </div>
+          </label>
+          <div className="hstack" style={{ gap:8 }}>
+            <button ref={avatarBtnRef} type="button" className="btn btn-sm" onClick={()=>setPicker(v=>!v)}
+                    aria-label="Choose avatar" aria-expanded={picker} title="Choose avatar" style={{ fontSize:18 }}>{avatar}</button>
+            <input className="input" placeholder="New player's name" maxLength={MAX_NAME} value={name}
+                   onChange={e=>setName(e.target.value)} onKeyDown={e=>{ if (e.key === "Enter") add(); }} />
+            <button type="button" className="btn btn-sm" onClick={add}>Add</button>
+          </div>
+          {picker && <EmojiPicker onSelect={setAvatar} onClose={()=>setPicker(false)} anchorRef={avatarBtnRef} />}
+
+          <div>
+            <div className="hstack" style={{ justifyContent:"space-between", alignItems:"center" }}>
+              <b>Leaderboard (this maze)</b>
+              <button type="button" className="btn btn-sm" onClick={props.onClearScores} disabled={!scores.length}>Clear</button>
+            </div>
+            {scores.length
+              ? <table className="leaderboard">
+                  <thead><tr><th>#</th><th>Player</th><th>Time</th><th>Stars</th><th>Moves</th></tr></thead>
+                  <tbody>
+                    {scores.map((s, i) => (
+                      <tr key={s.id} style={s.id === props.lastScoreId ? { background:"#fef3c7" } : undefined}>
+                        <td>{i + 1}</td>
+                        <td>{s.avatar} {s.name}</td>
+                        <td className="num" title={s.bumps ? `${formatRaceTime(s.ms)} + ${s.bumps} bump${s.bumps > 1 ? "s" : ""}` : undefined}>{formatRaceTime(s.totalMs)}</td>
+                        <td className="stars" aria-label={`${s.stars} of 3 stars`}>{starsText(s.stars)}</td>
+                        <td className="num">{s.moves}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              : <div style={{ fontSize:12, color:"#586174" }}>No finishes yet. Reach the goal to get on the board.</div>}
+          </div>
+          <div style={{ fontSize:12, color:"#586174" }}>
+            Stars: ★★★ within {pct(STAR_RATIOS.three)}% of the shortest route, ★★ within {pct(STAR_RATIOS.two)}%. Players and scores stay on this device.
+          </div>
+        </div>
+      )}
+    </fieldset>
+  );
+}
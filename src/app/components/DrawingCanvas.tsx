@@ -1,10 +1,22 @@
 import React, { useEffect, useRef, useState, useLayoutEffect } from "react";
+import type { Cell } from "../maze";
+import type { Pt } from "../solver";
+import { isSolved, snapTo } from "../snap";
 
-type Props = { hostRef: React.RefObject<HTMLDivElement | null> };
-type Mode = "draw" | "erase";
+// Maze geometry for snap mode (same cell/margin MazeView renders with)
+export type SnapGrid = { maze: Cell[][]; start: Pt; goal: Pt; cell: number; margin: number };
 
+type Props = {
+  hostRef: React.RefObject<HTMLDivElement | null>;
+  grid?: SnapGrid | null;
+  // snapped path, one entry per stroke (controlled so App can save it)
+  segments?: Pt[][];
+  onSegmentsChange?: (segs: Pt[][]) => void;
+};
+type Mode = "draw" | "erase" | "snap";
 
-export default function DrawingCanvas({ hostRef }: Props) {
+
+export default function DrawingCanvas({ hostRef, grid, segments = [], onSegmentsChange }: Props) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [mode, setMode] = useState<Mode>("draw");
   const [size, setSize] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
@@ -51,19 +63,56 @@ export default function DrawingCanvas({ hostRef }: Props) {
     return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   };
 
+  // ── snap mode: pointer → maze cell, path grows by legal moves only ──
+  const snapping = mode === "snap" && !!grid;
+  const viewW = grid ? grid.maze[0].length * grid.cell + grid.margin * 2 : 1;
+  const cellAt = (e: React.PointerEvent<HTMLCanvasElement>): Pt | null => {
+    const host = hostRef.current; if (!grid || !host) return null;
+    const r = host.getBoundingClientRect();
+    const k = viewW / r.width;   // host box → SVG units (the maze scales to fit)
+    return {
+      x: Math.floor(((e.clientX - r.left) * k - grid.margin) / grid.cell),
+      y: Math.floor(((e.clientY - r.top)  * k - grid.margin) / grid.cell),
+    };
+  };
+  const snapFloor = useRef(1);
+  function snapMove(e: React.PointerEvent<HTMLCanvasElement>, segs: Pt[][]) {
+    const target = cellAt(e); if (!grid || !target) return;
+    const base = [grid.start, ...segs.slice(0, -1).flat()];
+    const cur = segs[segs.length - 1] ?? [];
+    const full = snapTo(grid.maze, [...base, ...cur], target, snapFloor.current);
+    const next = full.slice(base.length);
+    if (next.length === cur.length && next.every((p, i) => p.x === cur[i].x && p.y === cur[i].y)) return;
+    onSegmentsChange?.([...segs.slice(0, -1), next]);
+  }
+  const flatPath = grid ? [grid.start, ...segments.flat()] : [];
+  const solved = !!grid && isSolved(grid.maze, flatPath, grid.start, grid.goal);
+
   function pointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
     e.currentTarget.setPointerCapture(e.pointerId);
+    if (snapping) {
+      // every stroke is a new segment, continuing from the end of the path
+      drawing.current = true;
+      snapFloor.current = 1 + segments.flat().length;
+      const segs = [...segments, []];
+      onSegmentsChange?.(segs);
+      snapMove(e, segs);
+      return;
+    }
     drawing.current = true;
     last.current = getPt(e);
     stroke(e);
   }
   function pointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
     if (!drawing.current) return;
+    if (snapping) { snapMove(e, segments); return; }
     stroke(e);
   }
   function pointerUp() {
     drawing.current = false;
     last.current = null;
+    // strokes that never left a wall don't count as a segment
+    if (snapping && segments.length && !segments[segments.length - 1].length) onSegmentsChange?.(segments.slice(0, -1));
   }
 
   function stroke(e: React.PointerEvent<HTMLCanvasElement>) {
@@ -89,11 +138,18 @@ export default function DrawingCanvas({ hostRef }: Props) {
   }
 
   function clearAll() {
+    if (mode === "snap") { onSegmentsChange?.([]); return; }
     const cv = canvasRef.current; if (!cv) return;
     const ctx = cv.getContext("2d")!;
     ctx.clearRect(0, 0, cv.width, cv.height);
   }
 
+  // snapped path is drawn in SVG units over the maze box
+  const host = hostRef.current;
+  const snapD = grid && flatPath.length > 1
+    ? flatPath.map((p, i) => `${i ? "L" : "M"} ${grid.margin + (p.x + .5) * grid.cell} ${grid.margin + (p.y + .5) * grid.cell}`).join(" ")
+    : "";
+
   return (
     <>
       {/* Absolute canvas overlay (interactive) */}
@@ -105,6 +161,18 @@ export default function DrawingCanvas({ hostRef }: Props) {
         onPointerUp={pointerUp}
         onPointerCancel={pointerUp}
       />
+      {/* Snapped path (valid cell-to-cell moves) */}
+      {grid && host && snapD && (
+        <svg
+          className="snap-overlay-svg"
+          viewBox={`0 0 ${viewW} ${grid.maze.length * grid.cell + grid.margin * 2}`}
+          style={{ left: host.offsetLeft, top: host.offsetTop, width: host.offsetWidth, height: host.offsetHeight }}
+          aria-hidden="true"
+        >
+          <path d={snapD} fill="none" stroke={solved ? "#16a34a" : "#ef4444"} strokeWidth={Math.max(2, grid.cell * 0.3)}
+                strokeLinecap="round" strokeLinejoin="round" opacity={0.8} />
+        </svg>
+      )}
       {/* Toolbar as a separate absolutely positioned sibling (clickable) */}
       <div ref={barRef} className="draw-toolbar">
         <button type="button"
@@ -125,11 +193,30 @@ export default function DrawingCanvas({ hostRef }: Props) {
         >
           🧽
         </button>
-        <label className="hstack" style={{ gap: 6, alignItems: "center" }}>
-          <span style={{ fontSize: 12, color: "#6b7280" }}>Pen</span>
-          <input type="range" min={2} max={24} step={1} value={pen}
-                 onChange={(e) => setPen(parseInt(e.target.value))} />
-        </label>
+        {grid && (
+          <button type="button"
+            className={`btn btn-sm ${mode === "snap" ? "btn-primary" : ""}`}
+            onClick={() => setMode("snap")}
+            aria-pressed={mode === "snap"}
+            aria-label="Snap to corridor mode"
+            title="Snap to corridors"
+          >
+            🧲
+          </button>
+        )}
+        {mode === "snap" ? (
+          <>
+            <button type="button" className="btn btn-sm" onClick={() => onSegmentsChange?.(segments.slice(0, -1))}
+                    disabled={!segments.length} aria-label="Undo last segment" title="Undo segment">↶</button>
+            {solved && <span className="snap-solved" role="status">✅ Solved!</span>}
+          </>
+        ) : (
+          <label className="hstack" style={{ gap: 6, alignItems: "center" }}>
+            <span style={{ fontSize: 12, color: "#6b7280" }}>Pen</span>
+            <input type="range" min={2} max={24} step={1} value={pen}
+                   onChange={(e) => setPen(parseInt(e.target.value))} />
+          </label>
+        )}
         <button type="button" className="btn btn-sm" onClick={clearAll} aria-label="Clear path">Clear</button>
       </div>
     </>
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useRef } from "react";
 
 type Props = {
   visible?: boolean;          // ← render only when true (prevents focus issues)
@@ -6,8 +6,11 @@ type Props = {
   onNew: () => void;
   onPrint: () => void;
   onInstall: () => void;
+  onCopyLink?: () => void;
   onGear?: () => void;
   showGear?: boolean;
+  play?: boolean;
+  onTogglePlay?: () => void;
 };
 
 export default function Fab({
@@ -16,18 +19,44 @@ export default function Fab({
   onNew,
   onPrint,
   onInstall,
+  onCopyLink,
   onGear,
   showGear,
+  play = false,
+  onTogglePlay,
 }: Props) {
+  // the gear opens the controls; when they close again, focus comes back to it
+  const gearRef = useRef<HTMLButtonElement | null>(null);
+  const fromGear = useRef(false);
+  useEffect(() => {
+    if (showGear && fromGear.current) { fromGear.current = false; gearRef.current?.focus(); }
+  }, [showGear]);
+
+  // one toolbar: arrow keys, Home and End move between the buttons
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const btns = Array.from(e.currentTarget.querySelectorAll("button"));
+    const i = btns.indexOf(document.activeElement as HTMLButtonElement);
+    if (i < 0) return;
+    const next = e.key === "ArrowRight" || e.key === "ArrowDown" ? (i + 1) % btns.length
+      : e.key === "ArrowLeft" || e.key === "ArrowUp" ? (i - 1 + btns.length) % btns.length
+      : e.key === "Home" ? 0 : e.key === "End" ? btns.length - 1 : -1;
+    if (next < 0) return;
+    e.preventDefault(); e.stopPropagation();
+    btns[next].focus();
+  };
+
   if (!visible) return null;   // ← no subtree when hidden
 
   return (
-    <div className="fab-row">
+    <div className="fab-row" role="toolbar" aria-label="Quick actions" onKeyDown={onKeyDown}>
       {showGear && (
         <button
+          ref={gearRef}
           type="button"
           className="btn btn-primary fab"
-          onClick={onGear}
+          onClick={() => { fromGear.current = true; onGear?.(); }}
+          aria-controls="controls-panel"
+          aria-expanded={false}
           aria-label="Show controls"
           title="Show controls"
         >
@@ -43,6 +72,18 @@ export default function Fab({
       >
         ↻
       </button>
+      {onTogglePlay && (
+        <button
+          type="button"
+          className={`btn fab ${play ? "btn-primary" : ""}`}
+          onClick={onTogglePlay}
+          aria-pressed={play}
+          aria-label="Play mode"
+          title="Play"
+        >
+          🎮
+        </button>
+      )}
       <button
         type="button"
         className="btn fab"
@@ -52,6 +93,17 @@ export default function Fab({
       >
         🖨️
       </button>
+      {onCopyLink && (
+        <button
+          type="button"
+          className="btn fab"
+          onClick={onCopyLink}
+          aria-label="Copy link to this maze"
+          title="Copy link"
+        >
+          🔗
+        </button>
+      )}
       {showInstall && (
         <button
           type="button"
@@ -0,0 +1,90 @@
+// src/app/components/MaskPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { SHAPES, SHAPE_IDS, imageMask, shapeMask, textMask, type Mask, type ShapeId } from "../mask";
+
+type Kind = "none" | ShapeId | "text" | "image";
+
+type Props = {
+  mask: Mask | null;
+  setMask: (m: Mask | null) => void;
+};
+
+// what produced a mask (for the select after a load / shared link)
+function kindOf(m: Mask | null): Kind {
+  if (!m) return "none";
+  const shape = SHAPE_IDS.find(id => SHAPES[id].label === m.label);
+  if (shape) return shape;
+  return m.label && textMask(m.label)?.data === m.data ? "text" : "image";
+}
+
+export default function MaskPanel({ mask, setMask }: Props) {
+  const [kind, setKind] = useState<Kind>(() => kindOf(mask));
+  const [word, setWord] = useState(() => kindOf(mask) === "text" ? mask!.label! : "");
+  const [msg, setMsg] = useState("");
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  // follow masks that arrive from outside (load, link, dropped file)
+  useEffect(() => {
+    if (mask) setKind(kindOf(mask));
+    else setKind(k => k === "text" || k === "image" ? k : "none");
+  }, [mask]);
+
+  const choose = (k: Kind) => {
+    setKind(k); setMsg("");
+    if (k === "none") setMask(null);
+    else if (k === "text") setMask(textMask(word));
+    else if (k === "image") fileRef.current?.click();
+    else setMask(shapeMask(k));
+  };
+
+  const onWord = (v: string) => { setWord(v); setMask(textMask(v)); };
+
+  const onImage = async (file: File) => {
+    try { setMask(await imageMask(file, 64, file.name)); setMsg(""); }
+    catch (e) { setMsg(e instanceof Error ? e.message : "Couldn't read that image."); }
+  };
+
+  return (
+    <fieldset>
+      <legend>Mask</legend>
+      <details open={!!mask}>
+        <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>Shape the maze</summary>
+        <div style={{ display:"grid", gap:8 }}>
+          <label>Outline
+            <select className="input" value={kind} onChange={e=>choose(e.target.value as Kind)}>
+              <option value="none">None (full grid)</option>
+              {SHAPE_IDS.map(id => <option key={id} value={id}>{SHAPES[id].label}</option>)}
+              <option value="text">Word…</option>
+              <option value="image">Picture…</option>
+            </select>
+          </label>
+          {kind === "text" && (
+            <label>Word (A–Z, 0–9)
+              <input className="input" value={word} maxLength={12} onChange={e=>onWord(e.target.value)} placeholder="e.g. HI" />
+            </label>
+          )}
+          {kind === "image" && (
+            <button className="btn btn-sm" type="button" onClick={()=>fileRef.current?.click()}
+                    title="Dark areas of the picture become maze; light areas are left out">
+              {mask ? `Picture: ${mask.label ?? "custom"}` : "Choose picture…"}
+            </button>
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept="image/*"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImage(file);
+              e.target.value = "";
+            }}
+          />
+          <div role="status" style={{ fontSize:12, color:"#586174" }}>
+            {msg || (mask ? "Only cells inside the outline are used; bigger grids keep more detail." : "")}
+          </div>
+        </div>
+      </details>
+    </fieldset>
+  );
+}
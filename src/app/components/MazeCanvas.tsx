@@ -0,0 +1,62 @@
+// src/app/components/MazeCanvas.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { isDataURL, type MazeResult } from "../maze";
+import { gridOf } from "../topology";
+import { drawMaze } from "../canvas";
+import type { MazeTheme } from "../theme";
+
+type Props = {
+  data: MazeResult;
+  cell: number;
+  margin: number;
+  stroke: number;
+  startIcon?: string;
+  goalIcon?: string;
+  waypointIcon?: string;
+  iconScale?: number;
+  theme?: MazeTheme;
+  label?: string;          // text alternative (defaults to the cell count)
+};
+
+// the backing store never grows past this on a side, whatever the maze
+const MAX_PX = 4096;
+
+/** On-screen stand-in for the maze SVG on huge grids (see canvas.ts) */
+export default function MazeCanvas({ data, cell, margin, stroke, startIcon, goalIcon, waypointIcon, iconScale, theme, label }: Props) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  const size = useMemo(() => gridOf(data.maze, data.topology, data.floors).size, [data]);
+  const viewW = size.w * cell + margin * 2, viewH = size.h * cell + margin * 2;
+  // sharp on high-DPI screens, within the cap
+  const k = Math.min(window.devicePixelRatio || 1, MAX_PX / Math.max(viewW, viewH));
+
+  // data-URL icons decode once; each arrival triggers a redraw
+  const [images, setImages] = useState<Map<string, CanvasImageSource>>(new Map());
+  useEffect(() => {
+    let live = true;
+    for (const src of [startIcon, goalIcon, waypointIcon]) {
+      if (!src || !isDataURL(src) || images.has(src)) continue;
+      const img = new Image();
+      img.onload = () => { if (live) setImages(m => new Map(m).set(src, img)); };
+      img.src = src;
+    }
+    return () => { live = false; };
+  }, [startIcon, goalIcon, waypointIcon]);
+
+  useEffect(() => {
+    const ctx = ref.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(k, 0, 0, k, 0, 0);
+    drawMaze(ctx, data, { cell, margin, stroke, startIcon, goalIcon, waypointIcon, iconScale, images, theme });
+  }, [data, cell, margin, stroke, startIcon, goalIcon, waypointIcon, iconScale, images, k, theme]);
+
+  return (
+    <canvas
+      ref={ref}
+      className="maze-canvas"
+      width={Math.round(viewW * k)}
+      height={Math.round(viewH * k)}
+      role="img"
+      aria-label={label || `Maze of ${data.stats.L} cells`}
+    />
+  );
+}
@@ -1,19 +1,41 @@
 // src/app/components/MazeView.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { createMaze, toSVG } from "../maze";
+import { toSVG, type MazeParams, type MazeResult } from "../maze";
+import { mazeService } from "../mazeClient";
+import { isAbortError, type Solved } from "../mazeService";
+import { gridOf } from "../topology";
+import type { Ends } from "../placement";
+import { paramsKey } from "../library";
+import { mazeSummary } from "../describe";
+import type { Pt } from "../solver";
+import type { SolutionStats } from "../metrics";
+import { wantsCanvas } from "../canvas";
+import { buildTimeline, frameAt, type ReplayFrame } from "../replay";
+import { usePlayback } from "../hooks/usePlayback";
+import { THEMES, type MazeTheme } from "../theme";
+import type { WorldId } from "../worlds";
+import type { ChallengeSpec, RunResult } from "../challenge";
 import AnimatedOverlay from "./AnimatedOverlay";
+import ReplayControls from "./ReplayControls";
+import MazeCanvas from "./MazeCanvas";
+import SolutionOverlay from "./SolutionOverlay";
+import PlayLayer from "./PlayLayer";
+import PlaceLayer from "./PlaceLayer";
 
-export type MazeParams = { width:number;height:number;seed:number;g:number;b:number;tau:number };
 type RenderOpts = {
   cell:number;
   margin:number;
   stroke?:number;
   startIcon?:string|null;
   goalIcon?:string|null;
+  waypointIcon?:string|null;
   iconScale?:number; 
+  theme?:MazeTheme;
+  world?:WorldId|null;
 };
 type AnimOpts = {
   enabled:boolean;
+  autoplay?:boolean;    // false: the replay waits for ▶ (reduced motion)
   segMs:number;
   lingerMs:number;
   hideWallsDuringAnim?:boolean;
@@ -24,42 +46,122 @@ type Props = {
   params: MazeParams;
   render: RenderOpts;
   animation?: AnimOpts;
+  showSolution?: boolean;
+  play?: boolean;
+  // screen-reader mode: the summary shows, and play mode reads each move out
+  accessible?: boolean;
+  // race mode: clock, bump penalties and stars in play; the token is the player's avatar
+  challenge?: ChallengeSpec | null;
+  token?: string | null;
+  onPlayFinish?: (r: RunResult) => void;
+  // tap-to-place start/goal; the layer shows while this is set
+  onPlace?: (e: Ends) => void;
+  onPlaceDone?: () => void;
   onStats?: (s:any) => void;
+  onSolutionStats?: (s:SolutionStats) => void;
+  onMaze?: (m:MazeResult) => void;
   onSVGChange?: (svg:string) => void;
+  // a maze that couldn't be built or solved (the message is for the error banner)
+  onError?: (message:string) => void;
 };
 
-type Phase = "idle" | "animating" | "linger";
+export default function MazeView(props: Props) {
+  const { hostRef, params } = props;
+  // The maze's identity (what the library, snap paths and scores key by): generate once per actual change
+  const mazeKey = paramsKey(params);
 
-export default function MazeView({
-  hostRef,
-  params,
+  // Generate and solve off the UI thread; the previous maze stays up until the new one lands.
+  // The solution is the shortest route over the braided grid, through every waypoint.
+  const [built, setBuilt] = useState<{ key: string; data: MazeResult; solved: Solved } | null>(null);
+  const [failed, setFailed] = useState<string | null>(null);
+  useEffect(() => {
+    const ctl = new AbortController(), svc = mazeService();
+    svc.generate(params, { signal: ctl.signal })
+      .then(data => svc.solve(data, { signal: ctl.signal }).then(solved => setBuilt({ key: mazeKey, data, solved })))
+      .catch(e => {
+        if (isAbortError(e)) return;
+        setFailed(mazeKey);
+        props.onError?.(`Couldn't build this maze: ${e instanceof Error ? e.message : String(e)}`);
+      });
+    return () => ctl.abort();
+  }, [mazeKey]);
+
+  // The visualizer: carve (with backtracking), braids and the solver's search on one timeline.
+  // Huge grids sit it out (hours of it at 35 ms a step).
+  const data = built?.data;
+  const [speed, setSpeed] = useState(1);
+  const [braids, setBraids] = useState(true);
+  const [solver, setSolver] = useState(false);
+  const replayable = !!data && !!props.animation?.enabled && !wantsCanvas(data);
+  const timeline = useMemo(() => replayable ? buildTimeline(data!, { braids, solver }) : null, [data, replayable, braids, solver]);
+  const total = timeline?.events.length ?? 0;
+  const msPerStep = Math.max(10, props.animation?.segMs ?? 35) / speed;
+  const pb = usePlayback(total, msPerStep, built?.key ?? "", replayable && props.animation?.autoplay !== false, props.animation?.lingerMs ?? 2000);
+  const frame = useMemo(() => timeline ? frameAt(timeline, pb.frame) : null, [timeline, pb.frame]);
+  useEffect(() => { if (!replayable) pb.hide(); }, [replayable]);
+
+  // The maze in words
+  const solution = built?.solved.path ?? [];
+  const summary = useMemo(() => data ? mazeSummary(data, solution.length) : "", [data, solution]);
+
+  return (
+    <>
+      <div className="maze-frame" ref={hostRef} id="print-maze-only" aria-busy={built?.key !== mazeKey && failed !== mazeKey}>
+        {built && <MazeLayers {...props} data={built.data} mazeKey={built.key} replay={pb.visible ? frame : null}
+                              solution={solution} solutionStats={built.solved.stats} summary={summary} />}
+      </div>
+      {props.accessible && summary && <p className="maze-summary" id="maze-summary">{summary}</p>}
+      {timeline && (
+        <ReplayControls
+          total={total} frame={pb.frame} last={frame?.last} playing={pb.playing} stack={timeline.stack}
+          speed={speed} setSpeed={setSpeed}
+          braids={data!.braidEdits.length ? braids : null} setBraids={setBraids}
+          solver={solver} setSolver={setSolver}
+          onPlay={pb.play} onPause={pb.pause} onStep={pb.step} onSeek={pb.seek} onHide={pb.hide}
+          colors={(props.render.theme ?? THEMES.classic).replay}
+        />
+      )}
+    </>
+  );
+}
+
+// everything drawn for one built maze
+function MazeLayers({
+  data,
+  mazeKey,
   render,
-  animation,
+  replay,
+  solution,
+  solutionStats,
+  summary,
+  showSolution = false,
+  play = false,
+  accessible = false,
+  challenge,
+  token,
+  onPlayFinish,
+  onPlace,
+  onPlaceDone,
   onStats,
+  onSolutionStats,
+  onMaze,
   onSVGChange
-}: Props) {
-  const [phase, setPhase] = useState<Phase>("idle");
-  const runIdRef = useRef(0);
-
+}: Props & { data: MazeResult; mazeKey: string; replay: ReplayFrame | null; solution: Pt[]; solutionStats: SolutionStats; summary: string }) {
   const {
     cell,
     margin,
     startIcon,
     goalIcon,
-    iconScale = 0.7
+    waypointIcon,
+    iconScale = 0.7,
+    theme = THEMES.classic,
+    world
   } = render;
   const stroke = render.stroke ?? Math.max(2, Math.round(cell/8));
-  const enabled = !!animation?.enabled;
-  const segMs = animation?.segMs ?? 35;
-  const lingerMs = animation?.lingerMs ?? 2000;
- 
+  // huge grids draw to a canvas
+  const raster = useMemo(() => wantsCanvas(data), [data]);
 
-  // Build key so createMaze runs once per “actual change”
-  const mazeKey = `${params.width}x${params.height}|${params.seed}|g${params.g}|b${params.b}|t${params.tau}`;
-  useEffect(() => { runIdRef.current++; }, [mazeKey]);
-
-  // Compute maze + steps + stats once per key
-  const data = useMemo(() => createMaze(params), [mazeKey]);
+  const grid = useMemo(() => gridOf(data.maze, data.topology, data.floors), [data]);
 
   // Base (phase-independent) SVG for print/render
   const baseSVG = useMemo(() => {
@@ -68,55 +170,104 @@ export default function MazeView({
       showStartGoal: true,
       startIcon: startIcon ?? undefined,
       goalIcon:  goalIcon  ?? undefined,
+      waypointIcon: waypointIcon ?? undefined,
       iconScale,
+      theme,
+      world: world ?? undefined,
       // ⛔ no dfsSteps here — animation is separate
     });
-  }, [data, cell, margin, stroke, startIcon, goalIcon, iconScale]);
+  }, [data, cell, margin, stroke, startIcon, goalIcon, waypointIcon, iconScale, theme, world]);
+
+  useEffect(() => { onMaze?.(data); }, [data, onMaze]);
+
+  // What the parent prints: the answer key when the solution is showing
+  const printSVG = useMemo(() => {
+    if (!showSolution) return baseSVG;
+    return toSVG(data, {
+      cell, margin, stroke,
+      showStartGoal: true,
+      startIcon: startIcon ?? undefined,
+      goalIcon:  goalIcon  ?? undefined,
+      waypointIcon: waypointIcon ?? undefined,
+      iconScale,
+      theme,
+      world: world ?? undefined,
+      solution,
+    });
+  }, [showSolution, baseSVG, data, solution, cell, margin, stroke, startIcon, goalIcon, waypointIcon, iconScale, theme, world]);
 
   // Notify parent: svg + stats (notify only on change)
   const lastSvg = useRef(""); useEffect(() => {
-    if (onSVGChange && baseSVG !== lastSvg.current) { lastSvg.current = baseSVG; onSVGChange(baseSVG); }
-  }, [baseSVG, onSVGChange]);
+    if (onSVGChange && printSVG !== lastSvg.current) { lastSvg.current = printSVG; onSVGChange(printSVG); }
+  }, [printSVG, onSVGChange]);
   const lastStats = useRef<any>(null); useEffect(() => {
     const s = data.stats, p = lastStats.current;
     if (!p || p.D!==s.D || p.L!==s.L || p.T!==s.T || p.J!==s.J || p.E!==s.E) { lastStats.current = s; onStats?.(s); }
   }, [data.stats, onStats]);
-
-  // Phase machine per run
-  useEffect(() => {
-    if (!enabled || data.treeSteps.length === 0) { setPhase("idle"); return; }
-    const myRun = runIdRef.current;
-    setPhase("animating");
-    // const drawMs = data.treeSteps.length * segMs + 120;
-    const segMsRaw = animation?.segMs ?? 35;
-    const effSegMs = Math.max(10, segMsRaw);       // keep in sync with AnimatedOverlay
-    const drawMs   = data.treeSteps.length * effSegMs + 120;
-    const t1 = setTimeout(() => { if (runIdRef.current === myRun) setPhase("linger"); }, drawMs);
-    const t2 = setTimeout(() => { if (runIdRef.current === myRun) setPhase("idle");   }, drawMs + lingerMs);
-    return () => { clearTimeout(t1); clearTimeout(t2); };
-  }, [enabled, segMs, lingerMs, data.treeSteps.length]);
-
-  const showOverlay = enabled && phase !== "idle";
+  useEffect(() => { onSolutionStats?.(solutionStats); }, [solutionStats, onSolutionStats]);
 
   return (
-    <div className="maze-frame" ref={hostRef} id="print-maze-only">
-      {/* Static maze SVG */}
-      <div dangerouslySetInnerHTML={{ __html: baseSVG }} />
+    <>
+      {/* Static maze SVG (canvas for huge grids) */}
+      {raster
+        ? <MazeCanvas data={data} cell={cell} margin={margin} stroke={stroke} iconScale={iconScale}
+            startIcon={startIcon ?? undefined} goalIcon={goalIcon ?? undefined} waypointIcon={waypointIcon ?? undefined} theme={theme} label={summary} />
+        : <div role="img" aria-label={summary} dangerouslySetInnerHTML={{ __html: baseSVG }} />}
 
-      {/* Optional overlay */}
-      <AnimatedOverlay
-        steps={data.treeSteps}
+      {/* Solution path (toggle) */}
+      <SolutionOverlay
+        path={solution}
         cell={cell}
         margin={margin}
-        stroke={stroke}
-        segMs={segMs}
-        widthCells={params.width}
-        heightCells={params.height}
-        visible={showOverlay}
-        mode="segments" //"polyline" //"segments"          // ← old behavior
-        autoHide={false /* handled by phase timers */}
-        onDone={() => { /* we could flip to linger here if we wanted */ }}
+        grid={grid}
+        visible={showSolution}
+        color={theme.solution}
       />
-    </div>
+
+      {/* Visualizer frame */}
+      {replay && (
+        <AnimatedOverlay
+          frame={replay}
+          cell={cell}
+          margin={margin}
+          stroke={stroke}
+          grid={grid}
+          visible
+          colors={theme.replay}
+        />
+      )}
+
+      {/* Manual start/goal placement */}
+      {onPlace && (
+        <PlaceLayer
+          maze={data.maze}
+          grid={grid}
+          ends={{ start: data.start, goal: data.goal }}
+          cell={cell}
+          margin={margin}
+          onPlace={onPlace}
+          onDone={() => onPlaceDone?.()}
+        />
+      )}
+
+      {/* Play mode: token + trail, fresh for every maze (flat square grids only) */}
+      {play && !onPlace && !data.topology && !data.floors && (
+        <PlayLayer
+          key={mazeKey}
+          maze={data.maze}
+          start={data.start}
+          goal={data.goal}
+          waypoints={data.waypoints}
+          cell={cell}
+          margin={margin}
+          token={token}
+          challenge={challenge}
+          shortest={Math.max(0, solution.length - 1)}
+          onFinish={onPlayFinish}
+          speak={accessible}
+          describedBy={accessible ? "maze-summary" : undefined}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,52 @@
+// src/app/components/PlaceLayer.tsx
+import React, { useMemo, useRef, useState } from "react";
+import type { Cell } from "../maze";
+import type { Ends } from "../placement";
+import { cellNear, restrictGrid, type Grid } from "../topology";
+
+type Props = {
+  maze: Cell[][];
+  grid: Grid;
+  ends: Ends;
+  cell: number;
+  margin: number;
+  onPlace: (e: Ends) => void;
+  onDone: () => void;
+};
+
+// tap cells to move start, then goal, then start again…
+export default function PlaceLayer({ maze, grid, ends, cell, margin, onPlace, onDone }: Props) {
+  const [next, setNext] = useState<"start" | "goal">("start");
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const viewW = grid.size.w * cell + margin * 2;
+  const viewH = grid.size.h * cell + margin * 2;
+  // only cells the mask kept can hold a marker
+  const open = useMemo(() => restrictGrid(grid, (x, y) => !maze[y]?.[x]?.off), [grid, maze]);
+
+  function pick(e: React.PointerEvent<SVGSVGElement>) {
+    const r = svgRef.current!.getBoundingClientRect();
+    const u = ((e.clientX - r.left) * viewW / r.width - margin) / cell;
+    const v = ((e.clientY - r.top) * viewH / r.height - margin) / cell;
+    const c = cellNear(open, u, v), other = next === "start" ? ends.goal : ends.start;
+    if (c.x === other.x && c.y === other.y) return;
+    onPlace(next === "start" ? { start: c, goal: ends.goal } : { start: ends.start, goal: c });
+    setNext(next === "start" ? "goal" : "start");
+  }
+
+  const [hx, hy] = grid.center(ends[next].x, ends[next].y);
+  return (
+    <>
+      <svg ref={svgRef} className="place-layer-svg" viewBox={`0 0 ${viewW} ${viewH}`} onPointerUp={pick} aria-hidden="true">
+        <circle cx={margin + hx*cell} cy={margin + hy*cell} r={cell * 0.55} fill="none"
+                stroke={next === "start" ? "limegreen" : "crimson"} strokeWidth={2} strokeDasharray="4 3" />
+      </svg>
+      <div className="play-hud hstack" role="status">
+        <span>Tap a cell for the <b>{next}</b></span>
+        <button type="button" className="btn btn-sm" onClick={() => setNext(next === "start" ? "goal" : "start")}>
+          Move {next === "start" ? "goal" : "start"} instead
+        </button>
+        <button type="button" className="btn btn-sm btn-primary" onClick={onDone}>Done</button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,245 @@
+// src/app/components/PlayLayer.tsx
+import React, { useEffect, useRef, useState } from "react";
+import type { Cell } from "../maze";
+import type { Pt } from "../solver";
+import type { Waypoints } from "../waypoints";
+import {
+  KEY_DIRS, bump, dirBetween, formatElapsed, move, newPlay, nextCell, slide, stopsLeft, timeUp, tokenOf, undo,
+  type Dir, type PlayState,
+} from "../play";
+import { DIR_NAMES, describeCell, dirOf, startHeading, turnOf } from "../describe";
+import { clockMs, formatRaceTime, outOfTime, penaltyMs, starsFor, starsText, type ChallengeSpec, type RunResult } from "../challenge";
+
+type Props = {
+  maze: Cell[][];
+  start: Pt;
+  goal: Pt;
+  waypoints?: Waypoints | null;   // reached first (checkpoints in order) or the goal doesn't count
+  cell: number;
+  margin: number;
+  token?: string | null;   // emoji for the token (defaults to a dot)
+  onFinish?: (r: RunResult) => void;
+  // race mode: the clock counts penalties (or down), and the finish shows stars
+  challenge?: ChallengeSpec | null;
+  shortest: number;        // moves on the solution route (through every waypoint), for the stars
+  // accessible mode: keys turn relative to the way you face, and each move is read out
+  speak?: boolean;
+  describedBy?: string;    // id of the maze summary
+};
+
+const SWIPE_PX = 24;        // min travel for a swipe
+const TILT_DEG = 15;        // tilt past calibration before we move
+const TILT_EVERY_MS = 220;  // repeat rate while held tilted
+
+export default function PlayLayer({ maze, start, goal, waypoints, cell, margin, token, onFinish, challenge, shortest, speak = false, describedBy }: Props) {
+  const H = maze.length, W = maze[0]?.length ?? 0;
+  const viewW = W * cell + margin * 2;
+  const viewH = H * cell + margin * 2;
+  const cx = (x:number) => margin + x*cell + cell/2;
+  const cy = (y:number) => margin + y*cell + cell/2;
+
+  const [st, setSt] = useState<PlayState>(() => newPlay(start));
+  const [now, setNow] = useState(() => Date.now());
+  const [tilt, setTilt] = useState(false);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const atGoal = tokenOf(st).x === goal.x && tokenOf(st).y === goal.y;
+
+  // spoken feedback: a live region, and the way the player faces
+  const [said, setSaid] = useState({ text: "", n: 0 });
+  const say = (text: string) => setSaid(p => ({ text, n: p.n + 1 }));
+  const heading = useRef<Dir>(startHeading(maze, start));
+  const stRef = useRef(st); stRef.current = st;
+
+  // `counted`: a wall bump costs (held keys repeating and tilt don't)
+  const go = (dir: Dir, sliding = false, counted = true) => {
+    const at = tokenOf(stRef.current);
+    if (!nextCell(maze, at, dir) && stRef.current.finishedAt === null) {
+      if (counted) setSt(s => bump(s, Date.now()));
+      if (speak) say(`Wall. ${describeCell(maze, at, heading.current, goal)}`);
+      return;
+    }
+    if (speak) heading.current = dir;
+    setSt(s => (sliding ? slide : move)(s, maze, goal, dir, Date.now(), waypoints));
+  };
+  const restart = () => { heading.current = startHeading(maze, start); setSt(newPlay(start)); };
+
+  // read out each cell as the token lands on it
+  useEffect(() => {
+    if (!speak) return;
+    const here = describeCell(maze, tokenOf(st), heading.current, goal);
+    if (st.timedOut) say(`Time's up. ${st.moves} moves.`);
+    else if (st.finishedAt !== null) say(`${here} ${st.moves} moves in ${formatElapsed(st.finishedAt - (st.startedAt ?? st.finishedAt))}.`);
+    else if (st.trail.length === 1 && st.moves === 0) say(`Start. Facing ${DIR_NAMES[heading.current]}. ${here}`);
+    else if (atGoal && waypoints) say(`${here} ${stopsLeft(st, waypoints)} ${waypoints.kind} still to reach.`);
+    else say(here);
+  }, [st, speak]);
+
+  // report the finish once
+  const reported = useRef(false);
+  useEffect(() => {
+    if (st.finishedAt === null) { reported.current = false; return; }
+    if (reported.current) return;
+    reported.current = true;
+    onFinish?.({ moves: st.moves, ms: st.finishedAt - (st.startedAt ?? st.finishedAt), bumps: st.bumps, timedOut: st.timedOut, shortest });
+  }, [st.finishedAt]);
+
+  // tick the clock while running (a race shows tenths); the countdown ends the game
+  useEffect(() => {
+    if (st.startedAt === null || st.finishedAt !== null) return;
+    const t = setInterval(() => {
+      const at = Date.now(), s = stRef.current;
+      setNow(at);
+      if (challenge && s.startedAt !== null && outOfTime(challenge, at - s.startedAt, s.bumps)) setSt(cur => timeUp(cur, at));
+    }, challenge ? 100 : 250);
+    return () => clearInterval(t);
+  }, [st.startedAt, st.finishedAt, challenge]);
+
+  // keyboard: arrows / WASD, Backspace or Ctrl+Z to undo. Spoken: up is forward,
+  // left / right turn and step, down turns back; Enter or Space says it again
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && /^(INPUT|SELECT|TEXTAREA)$/.test(el.tagName)) return;
+      const dir = KEY_DIRS[e.key];
+      if (dir) { e.preventDefault(); go(speak ? dirOf(heading.current, turnOf("n", dir)) : dir, false, !e.repeat); return; }
+      if (speak && (e.key === "Enter" || e.key === " ") && !el?.closest("button, a, summary")) {
+        e.preventDefault();
+        say(`Facing ${DIR_NAMES[heading.current]}. ${describeCell(maze, tokenOf(stRef.current), heading.current, goal)}`);
+        return;
+      }
+      if (e.key === "Backspace" || (e.key.toLowerCase() === "z" && (e.ctrlKey || e.metaKey))) {
+        e.preventDefault(); setSt(undo);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [maze, goal, speak]);
+
+  // tilt: calibrate on the first reading, then step while held past TILT_DEG
+  useEffect(() => {
+    if (!tilt) return;
+    let base: { beta:number; gamma:number } | null = null;
+    let cur: Dir | null = null;
+    const onOrient = (e: DeviceOrientationEvent) => {
+      const beta = e.beta ?? 0, gamma = e.gamma ?? 0;
+      if (!base) { base = { beta, gamma }; return; }
+      const db = beta - base.beta, dg = gamma - base.gamma;
+      if (Math.max(Math.abs(db), Math.abs(dg)) < TILT_DEG) { cur = null; return; }
+      cur = Math.abs(dg) > Math.abs(db) ? (dg > 0 ? "e" : "w") : (db > 0 ? "s" : "n");
+    };
+    window.addEventListener("deviceorientation", onOrient);
+    const t = setInterval(() => { if (cur) go(cur, false, false); }, TILT_EVERY_MS);
+    return () => { window.removeEventListener("deviceorientation", onOrient); clearInterval(t); };
+  }, [tilt, maze, goal]);
+
+  const toggleTilt = async () => {
+    if (tilt) { setTilt(false); return; }
+    // iOS asks for permission from a user gesture
+    const DOE = (window as any).DeviceOrientationEvent;
+    if (typeof DOE?.requestPermission === "function") {
+      try { if (await DOE.requestPermission() !== "granted") return; } catch { return; }
+    }
+    setTilt(true);
+  };
+
+  // pointer: drag the token cell-to-cell, or swipe anywhere to slide down a corridor
+  const gesture = useRef<{ x:number; y:number; drag:boolean } | null>(null);
+  const cellAt = (e: React.PointerEvent): Pt => {
+    const r = svgRef.current!.getBoundingClientRect();
+    const vx = (e.clientX - r.left) * viewW / r.width;
+    const vy = (e.clientY - r.top) * viewH / r.height;
+    return { x: Math.floor((vx - margin) / cell), y: Math.floor((vy - margin) / cell) };
+  };
+  function pointerDown(e: React.PointerEvent<SVGSVGElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const c = cellAt(e), t = tokenOf(st);
+    gesture.current = { x: e.clientX, y: e.clientY, drag: c.x === t.x && c.y === t.y };
+  }
+  function pointerMove(e: React.PointerEvent<SVGSVGElement>) {
+    if (!gesture.current?.drag) return;
+    // follow the finger only onto the cell the move lands on (a tunnel hops past its bridge)
+    const c = cellAt(e), dir = dirBetween(tokenOf(st), c), n = dir && nextCell(maze, tokenOf(st), dir);
+    if (n && n.x === c.x && n.y === c.y) go(dir!);
+  }
+  function pointerUp(e: React.PointerEvent<SVGSVGElement>) {
+    const g = gesture.current; gesture.current = null;
+    if (!g || g.drag) return;
+    const dx = e.clientX - g.x, dy = e.clientY - g.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_PX) return;
+    go(Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "e" : "w") : (dy > 0 ? "s" : "n"), true);
+  }
+
+  const t = tokenOf(st);
+  const trail = st.trail.map((p, i) => `${i ? "L" : "M"} ${cx(p.x)} ${cy(p.y)}`).join(" ");
+  const elapsed = st.startedAt === null ? 0 : (st.finishedAt ?? now) - st.startedAt;
+  const done = st.finishedAt !== null;
+  const clock = challenge ? clockMs(challenge, elapsed, st.bumps) : elapsed;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        className="play-layer-svg"
+        viewBox={`0 0 ${viewW} ${viewH}`}
+        onPointerDown={pointerDown}
+        onPointerMove={pointerMove}
+        onPointerUp={pointerUp}
+        onPointerCancel={() => { gesture.current = null; }}
+        {...(speak
+          ? { tabIndex: 0, role: "application", "aria-roledescription": "maze", "aria-describedby": describedBy,
+              "aria-label": "Maze walk. Up arrow goes forward, left and right turn, down turns back; Enter repeats." }
+          : { "aria-hidden": true })}
+      >
+        {st.trail.length > 1 && (
+          <path d={trail} fill="none" stroke="#22c55e" strokeWidth={Math.max(2, Math.round(cell * 0.25))}
+                strokeLinecap="round" strokeLinejoin="round" opacity={0.7} />
+        )}
+        {waypoints && st.got.map(i => (
+          <circle key={i} className="play-got" cx={cx(waypoints.cells[i].x)} cy={cy(waypoints.cells[i].y)} r={cell * 0.42}
+                  fill="none" stroke="#22c55e" strokeWidth={Math.max(2, Math.round(cell * 0.12))} />
+        ))}
+        {token
+          ? <text x={cx(t.x)} y={cy(t.y)} fontSize={cell * 0.8} textAnchor="middle" dominantBaseline="central">{token}</text>
+          : <circle cx={cx(t.x)} cy={cy(t.y)} r={Math.max(4, cell * 0.3)} fill="#2563eb" stroke="#fff" strokeWidth={2} />}
+      </svg>
+
+      <div className="play-hud hstack" role="status">
+        <span>Moves <b>{st.moves}</b></span>
+        {waypoints && !!waypoints.cells.length && (
+          <span>
+            {waypoints.kind === "checkpoints" ? "Checkpoints" : "Treasures"} <b>{st.got.length}/{waypoints.cells.length}</b>
+          </span>
+        )}
+        {challenge
+          ? <>
+              <span>{challenge.clock === "countdown" ? "Left" : "Time"} <b>{formatRaceTime(clock)}</b></span>
+              <span>Bumps <b>{st.bumps}</b></span>
+            </>
+          : <span>Time <b>{formatElapsed(elapsed)}</b></span>}
+        <button type="button" className="btn btn-sm" onClick={() => setSt(undo)} disabled={st.trail.length < 2 || done}
+                aria-label="Undo last move" title="Undo (Backspace)">↶</button>
+        <button type="button" className="btn btn-sm" onClick={restart} aria-label="Restart" title="Restart">⟲</button>
+        <button type="button" className={`btn btn-sm ${tilt ? "btn-primary" : ""}`} onClick={toggleTilt}
+                aria-pressed={tilt} aria-label="Tilt to move" title="Tilt to move">📱</button>
+      </div>
+
+      {speak && <div className="sr-only" aria-live="assertive" aria-atomic="true">{said.text}{said.n % 2 ? "\u00a0" : ""}</div>}
+
+      {done && (
+        <div className="play-celebrate" role="alert">
+          <div style={{ fontSize:48 }}>{st.timedOut ? "⏰" : "🎉"}</div>
+          <div style={{ fontWeight:700, fontSize:20 }}>{st.timedOut ? "Time's up!" : "You made it!"}</div>
+          {!challenge
+            ? <div>{st.moves} moves in {formatElapsed(elapsed)}</div>
+            : !st.timedOut && <>
+                <div className="play-stars" aria-label={`${starsFor(st.moves, shortest)} of 3 stars`}>{starsText(starsFor(st.moves, shortest))}</div>
+                <div>{st.moves} moves (shortest {shortest}) in {formatRaceTime(elapsed + penaltyMs(st.bumps, challenge))}</div>
+                {st.bumps > 0 && <div style={{ fontSize:12 }}>{formatRaceTime(elapsed)} + {st.bumps} bump{st.bumps > 1 ? "s" : ""} × {challenge.penaltySec}s</div>}
+              </>}
+          <button type="button" className="btn btn-primary" onClick={restart}>Play again</button>
+        </div>
+      )}
+    </>
+  );
+}
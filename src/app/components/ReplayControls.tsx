@@ -0,0 +1,78 @@
+// src/app/components/ReplayControls.tsx
+import React from "react";
+import type { ReplayEvent } from "../replay";
+import { THEMES, type MazeTheme } from "../theme";
+
+type Props = {
+  total: number;
+  frame: number;
+  last?: ReplayEvent;          // the event the frame ends on
+  playing: boolean;
+  stack: boolean;              // the carve shows backtracking
+  speed: number;
+  setSpeed: (x: number) => void;
+  braids: boolean | null;      // null: this maze has no braid edits
+  setBraids: (v: boolean) => void;
+  solver: boolean;
+  setSolver: (v: boolean) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: (d: number) => void;
+  onSeek: (i: number) => void;
+  onHide: () => void;
+  colors?: MazeTheme["replay"];   // legend swatches, as the overlay draws them
+};
+
+export const SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+const PHASE: Record<ReplayEvent["kind"], string> = {
+  carve: "carving", backtrack: "backtracking", braid: "braiding", explore: "solver searching", route: "route found",
+};
+
+const Swatch = ({ color, label }: { color: string; label: string }) => (
+  <span className="hstack" style={{ gap:4, alignItems:"center" }}>
+    <span aria-hidden="true" style={{ width:10, height:10, borderRadius:2, background:color, display:"inline-block" }} />{label}
+  </span>
+);
+
+/** Transport bar for the generation visualizer */
+export default function ReplayControls(p: Props) {
+  const C = p.colors ?? THEMES.classic.replay;
+  return (
+    <div className="replay-bar" role="group" aria-label="Replay">
+      <div className="hstack" style={{ gap:6, alignItems:"center" }}>
+        <button type="button" className="btn btn-sm" onClick={() => p.onSeek(0)} aria-label="Rewind" title="Rewind">⏮</button>
+        <button type="button" className="btn btn-sm" onClick={() => p.onStep(-1)} disabled={p.frame <= 0}
+                aria-label="Step back" title="Step back">‹</button>
+        {p.playing
+          ? <button type="button" className="btn btn-sm btn-primary" onClick={p.onPause} aria-label="Pause" title="Pause">⏸</button>
+          : <button type="button" className="btn btn-sm btn-primary" onClick={p.onPlay} aria-label="Play" title="Play">▶</button>}
+        <button type="button" className="btn btn-sm" onClick={() => p.onStep(1)} disabled={p.frame >= p.total}
+                aria-label="Step forward" title="Step forward">›</button>
+        <input type="range" min={0} max={p.total} value={p.frame} onChange={e => p.onSeek(parseInt(e.target.value))}
+               aria-label="Timeline" style={{ flex:1, minWidth:80 }} />
+        <select className="input" value={p.speed} onChange={e => p.setSpeed(Number(e.target.value))} aria-label="Speed" style={{ width:"auto" }}>
+          {SPEEDS.map(x => <option key={x} value={x}>{x}×</option>)}
+        </select>
+        <button type="button" className="btn btn-sm" onClick={p.onHide} aria-label="Hide replay" title="Hide replay">✕</button>
+      </div>
+      <div className="hstack" style={{ gap:12, flexWrap:"wrap", fontSize:12, color:"#586174", alignItems:"center" }}>
+        <span role="status">Step {p.frame} / {p.total}{p.last ? ` — ${PHASE[p.last.kind]}` : ""}</span>
+        {p.braids !== null && (
+          <label className="hstack" style={{ gap:4, alignItems:"center" }}>
+            <input type="checkbox" checked={p.braids} onChange={e => p.setBraids(e.target.checked)} />Braids
+          </label>
+        )}
+        <label className="hstack" style={{ gap:4, alignItems:"center" }}>
+          <input type="checkbox" checked={p.solver} onChange={e => p.setSolver(e.target.checked)} />Solver search
+        </label>
+      </div>
+      <div className="hstack" style={{ gap:10, flexWrap:"wrap", fontSize:12, color:"#586174" }}>
+        <Swatch color={C.live} label={p.stack ? "on the stack" : "carved"} />
+        {p.stack && <Swatch color={C.popped} label="backtracked" />}
+        {p.braids && <Swatch color={C.braid} label="braid" />}
+        {p.solver && <><Swatch color={C.visited} label="visited" /><Swatch color={C.frontier} label="frontier" /></>}
+      </div>
+    </div>
+  );
+}
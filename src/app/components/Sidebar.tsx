@@ -1,28 +1,71 @@
-import React, { useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import EmojiPicker from "./EmojiPicker"; 
-
-type SavedMaze = {
-  id: string;
-  name: string;
-  params: { width:number;height:number;seed:number;g:number;b:number;tau:number };
-  createdAt: number;
-};
+import { GENERATORS, GENERATOR_IDS, type GeneratorId } from "../generators";
+import { MAX_FLOORS, MAX_SIZE, MIN_SIZE, TOPOLOGIES, TOPOLOGY_IDS, type TopologyId } from "../topology";
+import type { ImportMode, SavedMaze } from "../library";
+import WorksheetPanel from "./WorksheetPanel";
+import TactilePanel from "./TactilePanel";
+import ChallengePanel from "./ChallengePanel";
+import MaskPanel from "./MaskPanel";
+import TargetPanel from "./TargetPanel";
+import type { Mask } from "../mask";
+import type { MazeParams, MazeResult } from "../maze";
+import { PLACEMENTS, PLACEMENT_IDS, type PlacementId } from "../placement";
+import { MAX_WAYPOINTS, WAYPOINT_KINDS, type WaypointKind, type WaypointSpec } from "../waypoints";
+import { MAX_WEAVE } from "../weave";
+import { THEMES, THEME_IDS, type ThemeChoice } from "../theme";
+import { WORLDS, WORLD_IDS, type WorldId } from "../worlds";
+import type { PrintMode, TactileOpts, TactileProfile } from "../tactile";
+import type { ChallengeSpec, Player, Score } from "../challenge";
 
 type Props = {
   canInstall: boolean;
   onInstall: () => void;
-  width: number; height: number; g: number; b: number; tau: number;
+  seed: number; width: number; height: number; g: number; b: number; tau: number;
   setWidth: (n:number)=>void; setHeight:(n:number)=>void; setG:(n:number)=>void; setB:(n:number)=>void; setTau:(n:number)=>void;
+  algo: GeneratorId; setAlgo: (a:GeneratorId)=>void;
+  topology: TopologyId; setTopology: (t:TopologyId)=>void;
+  floors: number; setFloors: (n:number)=>void;
+  weave: number; setWeave: (n:number)=>void;
+  mask: Mask | null; setMask: (m:Mask|null)=>void;
+  params: MazeParams;                // the current maze's identity (worksheets start from it)
+  placement: PlacementId; setPlacement: (p:PlacementId)=>void;
+  placing: boolean; setPlacing: (v:boolean)=>void;
+  waypoints: WaypointSpec | null; setWaypoints: (w:WaypointSpec|null)=>void;
+  waypointIcon: string | null; setWaypointIcon: (v:string|null)=>void;
+  theme: ThemeChoice; setTheme: (t:ThemeChoice)=>void;
+  world: WorldId | null; setWorld: (w:WorldId|null)=>void;
+  accessible: boolean; setAccessible: (v:boolean)=>void;
+  reduceMotion: boolean;             // the OS asks for less animation
   onNew: () => void; onPrint: () => void;
+  onCopyLink: () => void; linkCopied: boolean;
+  onPrintHTML: (html:string) => void;
+  printMode: PrintMode; setPrintMode: (m:PrintMode)=>void;
+  tactile: TactileProfile; setTactile: (p:TactileProfile)=>void;
+  maze: MazeResult | null; printOpts: Pick<TactileOpts, "title" | "solution">;
+  challengeOn: boolean; setChallengeOn: (v:boolean)=>void;
+  challenge: ChallengeSpec; setChallenge: (s:ChallengeSpec)=>void;
+  players: Player[]; playerId: string | null; setPlayerId: (id:string|null)=>void;
+  onAddPlayer: (name:string, avatar:string)=>void; onRemovePlayer: (id:string)=>void;
+  scores: Score[]; lastScoreId: string | null; onClearScores: ()=>void;
+  onDownloadSVG: () => void; onDownloadPNG: (dpi:number) => void;
+  onOpenFile: (file:File) => void; fileMsg: string;
   saveName: string; setSaveName: (s:string)=>void;
   saved: SavedMaze[]; selectedId: string|null;
   onSave: () => void; onLoad: (id:string)=>void; onDelete: (id:string)=>void;
+  onExport: (ids?:string[])=>void; onImport: (file:File, mode:ImportMode)=>void; libraryMsg: string;
   isMobile: boolean;
   controlsOpen: boolean;
   onMinimize: () => void;     // << minimize button
   lockSize: boolean;                 // ← NEW
   setLockSize: (v:boolean)=>void;    // ← NEW
-  onMaxDifficulty: () => void;       // ← NEW
+  onApplyTarget: (p: MazeParams) => void;
+  onTargetError: (message: string) => void;
+  onWorksheetError: (message: string) => void;
+  showSolution: boolean;
+  setShowSolution: (v:boolean)=>void;
+  play: boolean;
+  setPlay: (v:boolean)=>void;
   startIcon: string | null;
   goalIcon: string | null;
   setStartIcon: (v: string | null) => void;
@@ -41,8 +84,10 @@ type Props = {
 export default function Sidebar(props: Props){
   const {
     canInstall, onInstall,
-    width, height, g, b, tau,
+    seed, width, height, g, b, tau,
     setWidth, setHeight, setG, setB, setTau,
+    algo, setAlgo,
+    topology, setTopology,
     onNew, onPrint,
     saveName, setSaveName, saved = [], selectedId, onSave, onLoad, onDelete,
     isMobile, controlsOpen, onMinimize,
@@ -51,23 +96,47 @@ export default function Sidebar(props: Props){
     dfsSegMs, setDfsSegMs,
   } = props;
 
-  const [picker, setPicker] = useState<null | "start" | "goal">(null);
+  const [picker, setPicker] = useState<null | "start" | "goal" | "waypoint">(null);
+  const [dpi, setDpi] = useState(300);
+  const openRef = useRef<HTMLInputElement | null>(null);
   const startBtnRef = useRef<HTMLButtonElement | null>(null);
   const goalBtnRef  = useRef<HTMLButtonElement | null>(null);
+  const waypointBtnRef = useRef<HTMLButtonElement | null>(null);
+  const wp = props.waypoints;
 
   const display = props.isMobile ? (props.controlsOpen ? "flex" : "none") : "flex";
 
   const hasSaved = saved.length > 0;
 
+  // export selection + import mode
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const pickedIds = saved.filter(sv => picked.has(sv.id)).map(sv => sv.id);
+  const togglePicked = (id:string) => setPicked(prev => {
+    const next = new Set(prev); if (next.has(id)) next.delete(id); else next.add(id); return next;
+  });
+  const biased = GENERATORS[algo].biased;
+  // row-based generators only run on a single square layer
+  const square = topology === "square" && props.floors === 1;
+
   // const display = isMobile ? (controlsOpen ? "flex" : "none") : "flex";
 
+  // on phones the panel opens over the maze: take focus into it, Escape hands it back
+  const headingRef = useRef<HTMLHeadingElement | null>(null);
+  useEffect(() => { if (isMobile && controlsOpen) headingRef.current?.focus(); }, [isMobile, controlsOpen]);
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" && isMobile && !picker) { e.stopPropagation(); onMinimize(); }
+  };
+
   return (
-    <aside className="panel controls" style={{ display, flexDirection:"column", gap:16 }}>
+    <aside id="controls-panel" className="panel controls" aria-label="Maze controls" onKeyDown={onKeyDown}
+           style={{ display, flexDirection:"column", gap:16 }}>
       <div className="sticky-top hstack" style={{ justifyContent:"space-between", paddingBottom:8 }}>
-        <h2 style={{ margin:0, fontSize:20 }}>Maze Controls</h2>
+        <h2 ref={headingRef} tabIndex={-1} style={{ margin:0, fontSize:20 }}>Maze Controls</h2>
         <div className="hstack" style={{ gap:6 }}>
           {/* Minimize button shows when expanded */}
-          <button className="btn btn-sm" title="Minimize controls" onClick={onMinimize}>Minimize</button>
+          <button className="btn btn-sm" title="Minimize controls" onClick={onMinimize} aria-controls="controls-panel">Minimize</button>
           {canInstall && <button className="btn btn-sm" onClick={onInstall} title="Install app">Install</button>}
         </div>
       </div>
@@ -77,18 +146,25 @@ export default function Sidebar(props: Props){
         <details>
           <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>Adjust size</summary>
 
+          <label>Shape
+            <select className="input" value={topology} onChange={e=>setTopology(e.target.value as TopologyId)}>
+              {TOPOLOGY_IDS.map(id => <option key={id} value={id}>{TOPOLOGIES[id].label}</option>)}
+            </select>
+          </label>
+
           <label>Width: {width}
             <input
-              type="range" min={7} max={41} step={2}
-              value={width}
+              type="range" min={MIN_SIZE} max={MAX_SIZE} step={2}
+              value={width} aria-valuetext={`${width} cells`}
               onChange={e=>props.setWidth(parseInt(e.target.value))}
+              disabled={topology === "theta"}
             />
           </label>
 
-          <label>Height: {height}
+          <label>{topology === "theta" ? "Diameter" : "Height"}: {height}
             <input
-              type="range" min={7} max={41} step={2}
-              value={height}
+              type="range" min={MIN_SIZE} max={MAX_SIZE} step={2}
+              value={height} aria-valuetext={`${height} cells`}
               onChange={e=>props.setHeight(parseInt(e.target.value))}
               disabled={props.lockSize}
             />
@@ -102,9 +178,67 @@ export default function Sidebar(props: Props){
             />
             <span>Lock width & height (square)</span>
           </label>
+
+          <label>Floors: {props.floors}
+            <input
+              type="range" min={1} max={MAX_FLOORS} step={1}
+              value={props.floors} aria-valuetext={`${props.floors} ${props.floors === 1 ? "floor" : "floors"}`}
+              onChange={e=>props.setFloors(parseInt(e.target.value))}
+            />
+          </label>
+          {props.floors > 1 && (
+            <div style={{ fontSize:12, color:"#586174" }}>
+              Floors are drawn side by side; matching lettered discs are the two ends of a staircase (↑ up, ↓ down).
+            </div>
+          )}
         </details>
       </fieldset>
 
+      <MaskPanel mask={props.mask} setMask={props.setMask} />
+
+      {/* Look */}
+      <fieldset>
+        <legend>Look</legend>
+        <label>Theme
+          <select className="input" value={props.theme} onChange={e=>props.setTheme(e.target.value as ThemeChoice)} disabled={!!props.world}>
+            <option value="auto">Auto (follows system)</option>
+            {THEME_IDS.map(id => <option key={id} value={id}>{THEMES[id].label}</option>)}
+          </select>
+        </label>
+        <div style={{ fontSize:12, color:"#586174", marginTop:4 }}>
+          {props.world ? "The world sets the look while one is picked." : "Walls, floor and path colours; prints and downloads match."}
+        </div>
+      </fieldset>
+
+      {/* Accessibility */}
+      <fieldset>
+        <legend>Accessibility</legend>
+        <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+          <input type="checkbox" checked={props.accessible} onChange={e => props.setAccessible(e.target.checked)} />
+          <span>Screen reader &amp; keyboard mode</span>
+        </label>
+        <div style={{ fontSize:12, color:"#586174", marginTop:4 }}>
+          {props.accessible
+            ? "Tab to the maze, then use the arrow keys: up goes forward, left and right turn, down turns back, Enter repeats. Each step is read out; square single-floor mazes only."
+            : "Reads out each step and shows a summary of the maze."}
+        </div>
+      </fieldset>
+
+      {/* World */}
+      <fieldset>
+        <legend>World</legend>
+        <label>Maze world
+          <select className="input" value={props.world ?? "none"}
+                  onChange={e => props.setWorld(e.target.value === "none" ? null : e.target.value as WorldId)}>
+            <option value="none">None (plain walls)</option>
+            {WORLD_IDS.map(id => <option key={id} value={id}>{WORLDS[id].start} {WORLDS[id].label} {WORLDS[id].goal}</option>)}
+          </select>
+        </label>
+        <div style={{ fontSize:12, color:"#586174", marginTop:4 }}>
+          Tiled walls and floor on square grids, with matching start and goal characters.
+        </div>
+      </fieldset>
+
       {/* Markers */}
       <fieldset>
         <legend>Markers</legend>
@@ -114,6 +248,18 @@ export default function Sidebar(props: Props){
           </summary>
 
           <div style={{ display:"grid", gap:12 }}>
+            <label>Placement
+              <select className="input" value={props.placement} onChange={e=>props.setPlacement(e.target.value as PlacementId)}>
+                {PLACEMENT_IDS.map(id => <option key={id} value={id}>{PLACEMENTS[id].label}</option>)}
+              </select>
+            </label>
+            {props.placement === "manual" && (
+              <button className={`btn btn-sm ${props.placing ? "btn-primary" : ""}`} type="button"
+                      aria-pressed={props.placing} onClick={() => props.setPlacing(!props.placing)}>
+                {props.placing ? "Done placing" : "Tap cells on the maze…"}
+              </button>
+            )}
+
             <label>
               Start (emoji or empty):
               <div className="hstack" style={{ gap:8 }}>
@@ -189,6 +335,60 @@ export default function Sidebar(props: Props){
                 }}
               />
             </label>
+
+            <label>Extra stops
+              <select className="input" value={wp?.kind ?? "none"}
+                      onChange={e => props.setWaypoints(e.target.value === "none" ? null
+                        : { count:3, spacing:6, ...wp, kind: e.target.value as WaypointKind })}>
+                <option value="none">None</option>
+                {(Object.keys(WAYPOINT_KINDS) as WaypointKind[]).map(k => <option key={k} value={k}>{WAYPOINT_KINDS[k].label}</option>)}
+              </select>
+            </label>
+            {wp && (
+              <>
+                <label>How many: {wp.count}
+                  <input type="range" min={1} max={MAX_WAYPOINTS} step={1} value={wp.count}
+                         onChange={e=>props.setWaypoints({ ...wp, count: parseInt(e.target.value) })}/>
+                </label>
+                <label>Spacing: at least {wp.spacing} steps apart
+                  <input type="range" min={1} max={30} step={1} value={wp.spacing} aria-valuetext={`${wp.spacing} steps apart`}
+                         onChange={e=>props.setWaypoints({ ...wp, spacing: parseInt(e.target.value) })}/>
+                </label>
+                <label>
+                  {wp.kind === "checkpoints" ? "Checkpoint" : "Treasure"} (emoji, image or empty):
+                  <div className="hstack" style={{ gap:8 }}>
+                    <input
+                      type="text"
+                      value={props.waypointIcon?.startsWith("data:") ? "" : props.waypointIcon ?? ""}
+                      onChange={(e) => props.setWaypointIcon(e.target.value || null)}
+                      placeholder={wp.kind === "checkpoints" ? "🚩" : "💎"}
+                      style={{ width:"6em", textAlign:"center" }}
+                    />
+                    <button
+                      ref={waypointBtnRef}
+                      className="btn btn-sm"
+                      type="button"
+                      onClick={() => setPicker(p => p === "waypoint" ? null : "waypoint")}
+                      aria-expanded={picker==="waypoint"}
+                    >
+                      Pick emoji
+                    </button>
+                  </div>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        const reader = new FileReader();
+                        reader.onload = () => props.setWaypointIcon(reader.result as string);
+                        reader.readAsDataURL(file);
+                      }
+                    }}
+                  />
+                </label>
+              </>
+            )}
           </div>
         </details>
         
@@ -196,7 +396,7 @@ export default function Sidebar(props: Props){
           <legend>Animation</legend>
           <details open>
             <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>
-              Classic DFS build
+              Build visualizer
             </summary>
 
             <label className="hstack" style={{ alignItems:"center", gap:8 }}>
@@ -205,14 +405,19 @@ export default function Sidebar(props: Props){
                 checked={animateDFS}
                 onChange={(e)=>setAnimateDFS(e.target.checked)}
               />
-              <span>Animate build (DFS carve order)</span>
+              <span>Replay each new maze (carve, backtracking, braids, solver)</span>
             </label>
+            {props.reduceMotion && animateDFS && (
+              <div style={{ fontSize:12, color:"#586174" }}>
+                Your system asks for reduced motion, so replays wait for ▶ instead of starting on their own.
+              </div>
+            )}
 
             <label>
-              Segment speed: {dfsSegMs} ms / edge
+              Speed at 1×: {dfsSegMs} ms / step
               <input
                 type="range" min={10} max={150} step={5}
-                value={dfsSegMs}
+                value={dfsSegMs} aria-valuetext={`${dfsSegMs} milliseconds per step`}
                 onChange={(e)=>setDfsSegMs(parseInt(e.target.value))}
                 disabled={!animateDFS}
               />
@@ -236,6 +441,13 @@ export default function Sidebar(props: Props){
             anchorRef={goalBtnRef}
           />
         )}
+        {picker === "waypoint" && (
+          <EmojiPicker
+            onSelect={(e) => props.setWaypointIcon(e)}
+            onClose={() => setPicker(null)}
+            anchorRef={waypointBtnRef}
+          />
+        )}
       </fieldset>
 
 
@@ -245,24 +457,27 @@ export default function Sidebar(props: Props){
         <details open>
           <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>Adjust difficulty</summary>
 
+          <label>Algorithm
+            <select className="input" value={algo} onChange={e=>setAlgo(e.target.value as GeneratorId)}>
+              {GENERATOR_IDS.map(id => (
+                <option key={id} value={id} disabled={!square && !GENERATORS[id].graph}>{GENERATORS[id].label}</option>
+              ))}
+            </select>
+          </label>
           <label>Goal bias g: {g.toFixed(2)}
-            <input type="range" min={0} max={1} step={0.01} value={g} onChange={e=>setG(parseFloat(e.target.value))}/>
+            <input type="range" min={0} max={1} step={0.01} value={g} aria-valuetext={g.toFixed(2)} onChange={e=>setG(parseFloat(e.target.value))} disabled={!biased}/>
           </label>
           <label>Braid b: {b.toFixed(2)}
-            <input type="range" min={0} max={0.5} step={0.01} value={b} onChange={e=>setB(parseFloat(e.target.value))}/>
+            <input type="range" min={0} max={0.5} step={0.01} value={b} aria-valuetext={b.toFixed(2)} onChange={e=>setB(parseFloat(e.target.value))}/>
+          </label>
+          <label>Weave: {props.weave.toFixed(2)}
+            <input type="range" min={0} max={MAX_WEAVE} step={0.01} value={props.weave} aria-valuetext={props.weave.toFixed(2)} onChange={e=>props.setWeave(parseFloat(e.target.value))} disabled={!square}/>
           </label>
           <label>Turn penalty τ: {tau.toFixed(2)}
-            <input type="range" min={0} max={1} step={0.01} value={tau} onChange={e=>setTau(parseFloat(e.target.value))}/>
+            <input type="range" min={0} max={1} step={0.01} value={tau} aria-valuetext={tau.toFixed(2)} onChange={e=>setTau(parseFloat(e.target.value))} disabled={!biased}/>
           </label>
 
-          <div className="hstack" style={{ gap:8, marginTop:8 }}>
-            <button className="btn btn-primary" type="button" onClick={props.onMaxDifficulty}>
-              Max difficulty
-            </button>
-            <span style={{ fontSize:12, color:"#6b7280" }}>
-              (coarse sweep over g/b/τ for current size & seed)
-            </span>
-          </div>
+          <TargetPanel params={props.params} onApply={props.onApplyTarget} onError={props.onTargetError} />
         </details>
       </fieldset>
 
@@ -270,7 +485,82 @@ export default function Sidebar(props: Props){
       <div className="grid-2">
         <button className="btn" onClick={onNew}>New Maze</button>
         <button className="btn" onClick={onPrint}>Print</button>
+        <button className="btn" onClick={props.onCopyLink} title="Copy a link to this exact maze">
+          {props.linkCopied ? "Link copied!" : "Copy link"}
+        </button>
       </div>
+      <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+        <input
+          type="checkbox"
+          checked={props.showSolution}
+          onChange={(e)=>props.setShowSolution(e.target.checked)}
+        />
+        <span>Show solution (prints as answer key)</span>
+      </label>
+      <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+        <input
+          type="checkbox"
+          checked={props.play && square}
+          onChange={(e)=>props.setPlay(e.target.checked)}
+          disabled={!square}
+        />
+        <span>Play mode (arrows / WASD, swipe, drag or tilt){!square && " — square mazes only"}</span>
+      </label>
+
+      <ChallengePanel
+        on={props.challengeOn} setOn={props.setChallengeOn}
+        spec={props.challenge} setSpec={props.setChallenge}
+        players={props.players} playerId={props.playerId} setPlayerId={props.setPlayerId}
+        onAddPlayer={props.onAddPlayer} onRemovePlayer={props.onRemovePlayer}
+        scores={props.scores} lastScoreId={props.lastScoreId} onClearScores={props.onClearScores}
+        square={square}
+      />
+
+      <fieldset>
+        <legend>Download</legend>
+        <div style={{ display:"grid", gap:8 }}>
+          <div className="grid-2">
+            <button className="btn btn-sm" type="button" onClick={props.onDownloadSVG}>SVG</button>
+            <button className="btn btn-sm" type="button" onClick={()=>props.onDownloadPNG(dpi)}>PNG</button>
+          </div>
+          <label>PNG resolution
+            <select className="input" value={dpi} onChange={e=>setDpi(parseInt(e.target.value))}>
+              {[96, 150, 300, 600].map(d => <option key={d} value={d}>{d} DPI</option>)}
+            </select>
+          </label>
+          <button className="btn btn-sm" type="button" onClick={()=>openRef.current?.click()}
+                  title="Restore a maze from a downloaded SVG or PNG (or drop the file on the page)">
+            Open maze file…
+          </button>
+          <input
+            ref={openRef}
+            type="file"
+            accept=".svg,.png,image/svg+xml,image/png"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) props.onOpenFile(file);
+              e.target.value = "";
+            }}
+          />
+          {props.fileMsg && <div role="status" style={{ fontSize:12, color:"#586174" }}>{props.fileMsg}</div>}
+        </div>
+      </fieldset>
+
+      <TactilePanel
+        mode={props.printMode} setMode={props.setPrintMode}
+        profile={props.tactile} setProfile={props.setTactile}
+        maze={props.maze} opts={props.printOpts}
+      />
+
+      <WorksheetPanel
+        params={props.params}
+        startIcon={startIcon}
+        goalIcon={goalIcon}
+        waypointIcon={props.waypointIcon}
+        onPrintHTML={props.onPrintHTML}
+        onError={props.onWorksheetError}
+      />
 
       <fieldset>
         <legend>Save / Load</legend>
@@ -283,10 +573,20 @@ export default function Sidebar(props: Props){
           <div style={{ marginTop:12, display:"grid", gap:6, maxHeight:220, overflow:"auto" }}>
             { saved.map(sv => (
               <div key={sv.id} className="hstack" style={{ border:"1px solid #e6e9ef", borderRadius:10, padding:8, justifyContent:"space-between", background: sv.id===selectedId ? "#f0f6ff" : "#fafbff" }}>
-                <div>
+                <input
+                  type="checkbox"
+                  checked={picked.has(sv.id)}
+                  onChange={()=>togglePicked(sv.id)}
+                  aria-label={`Select ${sv.name} for export`}
+                />
+                <div style={{ flex:1 }}>
                   <div style={{ fontWeight:600, fontSize:14 }}>{sv.name}</div>
                   <div style={{ fontSize:12, color:"#586174" }}>
                     {sv.params.width}×{sv.params.height}, seed {sv.params.seed}, g {sv.params.g.toFixed(2)}, b {sv.params.b.toFixed(2)}, τ {sv.params.tau.toFixed(2)}
+                    {sv.params.algo && sv.params.algo !== "dfs" ? `, ${GENERATORS[sv.params.algo].label}` : ""}
+                    {sv.params.topology && sv.params.topology !== "square" ? `, ${TOPOLOGIES[sv.params.topology].label}` : ""}
+                    {sv.params.mask ? `, ${sv.params.mask.label ?? "masked"}` : ""}
+                    {sv.params.floors ? `, ${sv.params.floors} floors` : ""}
                   </div>
                 </div>
                 <div className="hstack" style={{ gap:6 }}>
@@ -297,6 +597,37 @@ export default function Sidebar(props: Props){
             ))}
           </div>
         ) : <div style={{ fontSize:12, color:"#7a879b" }}>No saved mazes yet.</div>}
+
+        <details style={{ marginTop:12 }}>
+          <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>Export / Import</summary>
+          <div className="stack" style={{ gap:8 }}>
+            <div className="grid-2">
+              <button className="btn btn-sm" type="button" onClick={()=>props.onExport()} disabled={!hasSaved}>Export all</button>
+              <button className="btn btn-sm" type="button" onClick={()=>props.onExport(pickedIds)} disabled={!pickedIds.length}>
+                Export selected{pickedIds.length ? ` (${pickedIds.length})` : ""}
+              </button>
+            </div>
+            <label>When importing
+              <select className="input" value={importMode} onChange={e=>setImportMode(e.target.value as ImportMode)}>
+                <option value="merge">Merge (skip duplicates)</option>
+                <option value="replace">Replace my library</option>
+              </select>
+            </label>
+            <button className="btn btn-sm" type="button" onClick={()=>importRef.current?.click()}>Import…</button>
+            <input
+              ref={importRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) props.onImport(file, importMode);
+                e.target.value = "";
+              }}
+            />
+            {props.libraryMsg && <div role="status" style={{ fontSize:12, color:"#586174" }}>{props.libraryMsg}</div>}
+          </div>
+        </details>
       </fieldset>
     </aside>
   );
@@ -0,0 +1,45 @@
+// src/app/components/SolutionOverlay.tsx
+import React, { useMemo } from "react";
+import type { Pt } from "../solver";
+import { floorOf, type Grid } from "../topology";
+
+type Props = {
+  path: Pt[];
+  cell: number;
+  margin: number;
+  grid: Grid;
+  visible: boolean;
+  color?: string;
+};
+
+export default function SolutionOverlay({
+  path, cell, margin, grid, visible, color = "#f59e0b",
+}: Props) {
+  const viewW = grid.size.w * cell + margin * 2;
+  const viewH = grid.size.h * cell + margin * 2;
+  const cx = (p:Pt) => margin + grid.center(p.x, p.y)[0]*cell;
+  const cy = (p:Pt) => margin + grid.center(p.x, p.y)[1]*cell;
+
+  const d = useMemo(() => {
+    if (path.length < 2) return "";
+    let P = `M ${cx(path[0])} ${cy(path[0])}`;
+    path.slice(1).forEach((p, i) => { P += ` ${floorOf(grid, path[i].y) !== floorOf(grid, p.y) ? "M" : "L"} ${cx(p)} ${cy(p)}`; });
+    return P;
+  }, [path, cell, margin, grid]);
+
+  if (!visible || !d) return null;
+
+  return (
+    <svg className="solution-overlay-svg" viewBox={`0 0 ${viewW} ${viewH}`} aria-hidden="true">
+      <path
+        d={d}
+        fill="none"
+        stroke={color}
+        strokeWidth={Math.max(2, Math.round(cell * 0.3))}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        opacity={0.85}
+      />
+    </svg>
+  );
+}
@@ -1,21 +1,43 @@
 import React from "react";
+import { ROUTES_CAP, type SolutionStats } from "../metrics";
 
-export default function StatsCard({ stats }: { stats: any }) {
+// `tour`: the solution visits waypoints, so S is the whole tour
+export default function StatsCard({ stats, solution, tour = false }: { stats: any; solution?: SolutionStats | null; tour?: boolean }) {
   const Row = ({ label, value, strong=false }:{label:string;value:string|number;strong?:boolean}) => (
     <div className="hstack" style={{ justifyContent:"space-between", fontSize:13, padding:"2px 0" }}>
       <span style={{ color:"#6b7280" }}>{label}</span>
       <span style={{ fontWeight: strong ? 700 : 500 }}>{value}</span>
     </div>
   );
+  const Divider = () => <div style={{ height:1, background:"#e6e9ef", margin:"8px 0" }}/>;
   return (
     <div className="panel" style={{ border:"1px solid #e6e9ef", background:"#f9fbff", minWidth:220 }}>
-      <div style={{ fontWeight:600, marginBottom:6 }}>Stats</div>
-      <Row label="Length L" value={stats.L} />
-      <Row label="Turn rate T" value={stats.T.toFixed(2)} />
-      <Row label="Junctions J" value={stats.J} />
-      <Row label="Dead ends E" value={stats.E} />
-      <div style={{ height:1, background:"#e6e9ef", margin:"8px 0" }}/>
-      <Row label="Difficulty D" value={stats.D.toFixed(3)} strong />
+      <div className="stats-cols">
+        <div>
+          <div style={{ fontWeight:600, marginBottom:6 }}>Stats</div>
+          <Row label="Length L" value={stats.L} />
+          <Row label="Turn rate T" value={stats.T.toFixed(2)} />
+          <Row label="Junctions J" value={stats.J} />
+          <Row label="Dead ends E" value={stats.E} />
+          {stats.F != null && <Row label="Stairs F" value={stats.F} />}
+          <Divider />
+          <Row label="Difficulty D" value={stats.D.toFixed(3)} strong />
+        </div>
+        {solution && (
+          <div>
+            <div style={{ fontWeight:600, marginBottom:6 }}>Solution</div>
+            <Row label={tour ? "Tour length S" : "Length S"} value={solution.S} />
+            <Row label="Turns" value={solution.ST} />
+            <Row label="Decision points" value={solution.DP} />
+            <Row label="Deepest branch" value={solution.BD} />
+            <Row label="Routes" value={solution.R >= ROUTES_CAP ? `${ROUTES_CAP}+` : solution.R} />
+            <Row label="Off-path cells" value={`${Math.round(solution.OFF * 100)}%`} />
+            {solution.FX != null && <Row label="Floor changes" value={solution.FX} />}
+            <Divider />
+            <Row label="Difficulty Ds" value={solution.Ds.toFixed(3)} strong />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,16 @@
+import React from "react";
+
+type Props = {
+  message: string | null;
+  onClose: () => void;
+};
+
+export default function StorageBanner({ message, onClose }: Props) {
+  if (!message) return null;
+  return (
+    <div className="pwa-banner storage-banner" role="alert">
+      <span>{message}</span>
+      <button className="btn" style={{ borderColor: "#374151" }} onClick={onClose}>Close</button>
+    </div>
+  );
+}
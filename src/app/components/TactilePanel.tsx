@@ -0,0 +1,71 @@
+// src/app/components/TactilePanel.tsx
+import React from "react";
+import type { MazeResult } from "../maze";
+import { PAPER, type Paper } from "../worksheet";
+import { BRF_LINE, MIN_CELL_MM, WALL_MM, brailleFile, tactileHTML, tactileLayout, type PrintMode, type TactileOpts, type TactileProfile } from "../tactile";
+import { downloadBlob, fileStamp } from "../download";
+
+type Props = {
+  mode: PrintMode; setMode: (m: PrintMode) => void;
+  profile: TactileProfile; setProfile: (p: TactileProfile) => void;
+  maze: MazeResult | null;
+  opts: Pick<TactileOpts, "title" | "solution">;   // what Print would add
+};
+
+export default function TactilePanel({ mode, setMode, profile, setProfile, maze, opts }: Props) {
+  const set = (patch: Partial<TactileProfile>) => setProfile({ ...profile, ...patch });
+  const layout = maze ? tactileLayout(maze, profile) : null;
+  const brf = maze && profile.braille ? brailleFile(maze, opts.title ?? "Maze") : null;
+  const wide = !!maze && maze.maze[0].length * 2 + 1 > BRF_LINE;
+
+  const onDownloadPage = () => {
+    if (maze) downloadBlob(new Blob([tactileHTML(maze, { ...profile, ...opts })], { type: "text/html" }), `maze-tactile-${fileStamp()}.html`);
+  };
+  const onDownloadBRF = () => {
+    if (brf) downloadBlob(new Blob([brf], { type: "text/plain" }), `maze-${fileStamp()}.brf`);
+  };
+
+  return (
+    <fieldset>
+      <legend>Print profile</legend>
+      <div style={{ display:"grid", gap:10 }}>
+        <label>Print as
+          <select className="input" value={mode} onChange={e=>setMode(e.target.value as PrintMode)}>
+            <option value="screen">On-screen size</option>
+            <option value="tactile">Tactile / large print</option>
+          </select>
+        </label>
+        {mode === "tactile" && <>
+          <label>Paper
+            <select className="input" value={profile.paper} onChange={e=>set({ paper: e.target.value as Paper })}>
+              {(Object.keys(PAPER) as Paper[]).map(p => <option key={p} value={p}>{PAPER[p].label} ({PAPER[p].w} × {PAPER[p].h} mm)</option>)}
+            </select>
+          </label>
+          <label>Smallest cell: {profile.minCellMm} mm
+            <input type="range" min={MIN_CELL_MM.min} max={MIN_CELL_MM.max} step={1} value={profile.minCellMm}
+                   aria-valuetext={`${profile.minCellMm} millimetres`} onChange={e=>set({ minCellMm: parseInt(e.target.value) })}/>
+          </label>
+          <label>Wall thickness: {profile.wallMm} mm
+            <input type="range" min={WALL_MM.min} max={WALL_MM.max} step={0.5} value={profile.wallMm}
+                   aria-valuetext={`${profile.wallMm} millimetres`} onChange={e=>set({ wallMm: parseFloat(e.target.value) })}/>
+          </label>
+          <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+            <input type="checkbox" checked={profile.braille} onChange={e=>set({ braille: e.target.checked })} />
+            <span>Add a Braille-ready grid</span>
+          </label>
+          <div role="status" style={{ fontSize:12, color: layout && !layout.fits ? "#b91c1c" : "#586174" }}>
+            {!layout ? "Waiting for the maze…"
+              : layout.fits ? `Prints at ${layout.cellMm} mm cells, start ● and goal ■ as solid shapes.`
+              : `Too big for ${PAPER[profile.paper].label} at ${profile.minCellMm} mm cells: up to ${layout.maxCols} × ${layout.maxRows} cells fit. Make the maze smaller or lower the minimum.`}
+            {profile.braille && maze && !brf && " The Braille grid needs a square, single-floor maze."}
+            {brf && wide && ` The grid is wider than a ${BRF_LINE}-cell Braille line; ${(BRF_LINE - 1) >> 1} cells across is the most that fits.`}
+          </div>
+          <div className="grid-2">
+            <button className="btn btn-sm" type="button" onClick={onDownloadPage} disabled={!layout?.fits}>Page (HTML)</button>
+            <button className="btn btn-sm" type="button" onClick={onDownloadBRF} disabled={!brf}>Braille (.brf)</button>
+          </div>
+        </>}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,92 @@
+// src/app/components/TargetPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import type { MazeParams } from "../maze";
+import { BANDS, BAND_IDS, type BandId, type SearchHit, type SearchProgress } from "../difficulty";
+import { mazeService } from "../mazeClient";
+import { isAbortError } from "../mazeService";
+
+type Props = {
+  params: MazeParams;               // the search starts here (size, shape, algorithm stay fixed)
+  onApply: (p: MazeParams) => void;
+  onError?: (message: string) => void;   // a search that broke (not one that was cancelled)
+};
+
+// blank = no constraint
+const optNum = (v: string) => v.trim() === "" || !Number.isFinite(Number(v)) ? undefined : Number(v);
+
+export default function TargetPanel({ params, onApply, onError }: Props) {
+  const [band, setBand] = useState<BandId>("medium");
+  const [min, setMin] = useState("6");
+  const [max, setMax] = useState("7");
+  const [minSolution, setMinSolution] = useState("");
+  const [maxDeadEnds, setMaxDeadEnds] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+  const [msg, setMsg] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async () => {
+    const ctl = new AbortController();
+    abortRef.current = ctl;
+    setMsg(""); setProgress(null); setSearching(true);
+    let hit: SearchHit | null = null;
+    try {
+      hit = await mazeService().sweep(params, {
+        band, ...(band === "custom" ? { min: optNum(min), max: optNum(max) } : {}),
+        minSolution: optNum(minSolution), maxDeadEnds: optNum(maxDeadEnds),
+      }, { signal: ctl.signal, onProgress: setProgress });
+    } catch (e) {
+      if (!isAbortError(e)) onError?.(`The search for a matching maze failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (abortRef.current === ctl) abortRef.current = null;
+    setSearching(false); setProgress(null);
+    if (!hit) { setMsg(ctl.signal.aborted ? "Search cancelled." : "Search failed."); return; }
+    onApply(hit.params);
+    const found = `seed ${hit.params.seed}, g ${hit.params.g}, b ${hit.params.b}, τ ${hit.params.tau} — D ${hit.D.toFixed(3)}`;
+    setMsg(hit.matched ? `Match: ${found}` : `No exact match; closest: ${found}`);
+  };
+
+  return (
+    <div style={{ display:"grid", gap:8, marginTop:8 }}>
+      <div style={{ fontWeight:600 }}>Generate to spec</div>
+      <label>Target
+        <select className="input" value={band} onChange={e=>setBand(e.target.value as BandId)} disabled={searching}>
+          {BAND_IDS.map(id => <option key={id} value={id}>{BANDS[id].label}</option>)}
+        </select>
+      </label>
+      {band === "custom" && (
+        <div className="grid-2">
+          <label>D from
+            <input className="input" type="number" step={0.1} value={min} onChange={e=>setMin(e.target.value)} disabled={searching} />
+          </label>
+          <label>to
+            <input className="input" type="number" step={0.1} value={max} onChange={e=>setMax(e.target.value)} disabled={searching} />
+          </label>
+        </div>
+      )}
+      <div className="grid-2">
+        <label>Min solution
+          <input className="input" type="number" min={1} placeholder="any" value={minSolution} onChange={e=>setMinSolution(e.target.value)} disabled={searching} />
+        </label>
+        <label>Max dead ends
+          <input className="input" type="number" min={0} placeholder="any" value={maxDeadEnds} onChange={e=>setMaxDeadEnds(e.target.value)} disabled={searching} />
+        </label>
+      </div>
+      {searching ? (
+        <div className="hstack" style={{ gap:8 }}>
+          <progress max={progress?.budget ?? 1} value={progress?.tried ?? 0} style={{ flex:1 }} />
+          <button className="btn btn-sm" type="button" onClick={() => abortRef.current?.abort()}>Cancel</button>
+        </div>
+      ) : (
+        <button className="btn btn-primary" type="button" onClick={run}>Find maze</button>
+      )}
+      {searching && progress && (
+        <div role="status" style={{ fontSize:12, color:"#586174" }}>
+          Tried {progress.tried} of {progress.budget}; best D so far {progress.best.D.toFixed(3)}
+        </div>
+      )}
+      {!searching && msg && <div role="status" style={{ fontSize:12, color:"#586174" }}>{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+// src/app/components/WorksheetPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import type { MazeParams } from "../maze";
+import { PAPER, buildWorksheetMazes, buildWorksheetPages, worksheetHTML, type Paper, type PerPage, type WorksheetOpts } from "../worksheet";
+import { downloadBlob, fileStamp } from "../download";
+import { mazeService } from "../mazeClient";
+import { isAbortError } from "../mazeService";
+
+type Props = {
+  params: MazeParams;               // current maze (seed starts the sheet)
+  startIcon: string | null;
+  goalIcon: string | null;
+  waypointIcon: string | null;
+  onPrintHTML: (html: string) => void;
+  onError?: (message: string) => void;   // a build that broke (not one that was cancelled)
+};
+
+export default function WorksheetPanel({ params, startIcon, goalIcon, waypointIcon, onPrintHTML, onError }: Props) {
+  const [title, setTitle] = useState("Maze");
+  const [perPage, setPerPage] = useState<PerPage>(4);
+  const [pages, setPages] = useState(1);
+  const [seedMode, setSeedMode] = useState<WorksheetOpts["seedMode"]>("sequential");
+  const [difficulty, setDifficulty] = useState<WorksheetOpts["difficulty"]>("fixed");
+  const [answerKey, setAnswerKey] = useState(true);
+  const [paper, setPaper] = useState<Paper>(() => /^en-(US|CA)$/.test(navigator.language) ? "letter" : "a4");
+  const [progress, setProgress] = useState<{ done:number; total:number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // mazes come from the worker one slot at a time; null when cancelled or broken
+  const build = async (): Promise<string[] | null> => {
+    const { seed, ...rest } = params;
+    const opts: WorksheetOpts = {
+      title, perPage, pages, seedMode, difficulty, answerKey, paper,
+      baseSeed: seed, params: rest,
+      startIcon: startIcon ?? undefined, goalIcon: goalIcon ?? undefined, waypointIcon: waypointIcon ?? undefined,
+    };
+    const ctl = new AbortController();
+    abortRef.current = ctl;
+    setProgress({ done: 0, total: perPage * pages });
+    let sheets: string[] | null = null;
+    try {
+      const built = await buildWorksheetMazes(opts, mazeService(), {
+        signal: ctl.signal, onProgress: (done, total) => setProgress({ done, total }),
+      });
+      sheets = buildWorksheetPages(opts, built);
+    } catch (e) {
+      if (!isAbortError(e)) onError?.(`The worksheet couldn't be built: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (abortRef.current === ctl) abortRef.current = null;
+    setProgress(null);
+    return sheets;
+  };
+
+  const onPrint = async () => {
+    const sheets = await build();
+    if (sheets) onPrintHTML(worksheetHTML(sheets, paper, title));
+  };
+  const onDownload = async () => {
+    const sheets = await build();
+    if (!sheets) return;
+    // a single sheet downloads as plain SVG; several become one printable HTML file
+    if (sheets.length === 1) {
+      downloadBlob(new Blob([sheets[0]], { type: "image/svg+xml" }), `worksheet-${fileStamp()}.svg`);
+    } else {
+      downloadBlob(new Blob([worksheetHTML(sheets, paper, title)], { type: "text/html" }), `worksheet-${fileStamp()}.html`);
+    }
+  };
+
+  const total = perPage * pages;
+
+  return (
+    <fieldset>
+      <legend>Worksheet</legend>
+      <details>
+        <summary style={{ cursor:"pointer", fontWeight:600, padding:"6px 0" }}>Batch print</summary>
+        <div style={{ display:"grid", gap:10 }}>
+          <label>Title
+            <input className="input" value={title} onChange={e=>setTitle(e.target.value)} />
+          </label>
+          <div className="grid-2">
+            <label>Mazes per page
+              <select className="input" value={perPage} onChange={e=>setPerPage(parseInt(e.target.value) as PerPage)}>
+                {[1, 2, 4, 6].map(n => <option key={n} value={n}>{n}-up</option>)}
+              </select>
+            </label>
+            <label>Pages
+              <input className="input" type="number" min={1} max={20} value={pages}
+                     onChange={e=>setPages(Math.max(1, Math.min(20, parseInt(e.target.value) || 1)))} />
+            </label>
+          </div>
+          <div className="grid-2">
+            <label>Seeds
+              <select className="input" value={seedMode} onChange={e=>setSeedMode(e.target.value as WorksheetOpts["seedMode"])}>
+                <option value="sequential">Sequential</option>
+                <option value="random">Random</option>
+              </select>
+            </label>
+            <label>Difficulty
+              <select className="input" value={difficulty} onChange={e=>setDifficulty(e.target.value as WorksheetOpts["difficulty"])}>
+                <option value="fixed">Fixed (current)</option>
+                <option value="ramp">Ramp up to current</option>
+              </select>
+            </label>
+          </div>
+          <label>Paper
+            <select className="input" value={paper} onChange={e=>setPaper(e.target.value as Paper)}>
+              {(Object.keys(PAPER) as Paper[]).map(p => <option key={p} value={p}>{PAPER[p].label}</option>)}
+            </select>
+          </label>
+          <label className="hstack" style={{ alignItems:"center", gap:8 }}>
+            <input type="checkbox" checked={answerKey} onChange={e=>setAnswerKey(e.target.checked)} />
+            <span>Add answer-key pages</span>
+          </label>
+          {progress ? (
+            <div className="hstack" style={{ gap:8 }}>
+              <progress max={progress.total} value={progress.done} style={{ flex:1 }} />
+              <span role="status" style={{ fontSize:12, color:"#586174" }}>{progress.done} / {progress.total}</span>
+              <button className="btn btn-sm" type="button" onClick={() => abortRef.current?.abort()}>Cancel</button>
+            </div>
+          ) : (
+            <div className="grid-2">
+              <button className="btn btn-primary" type="button" onClick={onPrint}>Print {total}</button>
+              <button className="btn" type="button" onClick={onDownload}>Download</button>
+            </div>
+          )}
+        </div>
+      </details>
+    </fieldset>
+  );
+}
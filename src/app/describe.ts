@@ -0,0 +1,59 @@
+// src/app/describe.ts
+import type { Cell, MazeResult } from "./maze";
+import type { Pt } from "./solver";
+import { nextCell, type Dir } from "./play";
+import { BANDS, bandOf } from "./difficulty";
+import { TOPOLOGIES } from "./topology";
+
+/**
+ * The maze in words, for screen readers and anyone who'd rather listen: a
+ * summary of the whole thing, and what a cell looks like from inside, told
+ * relative to the way you're facing ("Junction: left, right, forward.").
+ * Flat square grids only for the inside view (that's where you can walk).
+ */
+export type Turn = "forward" | "right" | "back" | "left";
+
+const CLOCKWISE: Dir[] = ["n", "e", "s", "w"];
+const TURNS: Turn[] = ["forward", "right", "back", "left"];
+// how the options are read out
+const SPOKEN: Turn[] = ["left", "right", "forward"];
+// screen directions, for the heading
+export const DIR_NAMES: Record<Dir, string> = { n: "up", e: "right", s: "down", w: "left" };
+
+/** `dir` as seen facing `heading` */
+export const turnOf = (heading: Dir, dir: Dir): Turn =>
+  TURNS[(CLOCKWISE.indexOf(dir) - CLOCKWISE.indexOf(heading) + 4) % 4];
+
+/** The direction a turn leads when facing `heading` */
+export const dirOf = (heading: Dir, turn: Turn): Dir =>
+  CLOCKWISE[(CLOCKWISE.indexOf(heading) + TURNS.indexOf(turn)) % 4];
+
+/** Directions a move can go from p (tunnels count) */
+export const exitsOf = (maze: Cell[][], p: Pt): Dir[] => CLOCKWISE.filter(d => nextCell(maze, p, d));
+
+/** Facing for a fresh start: down the only way out, else the first opening clockwise from up */
+export const startHeading = (maze: Cell[][], p: Pt): Dir => exitsOf(maze, p)[0] ?? "e";
+
+/** What the cell at p offers, facing `heading` */
+export function describeCell(maze: Cell[][], p: Pt, heading: Dir, goal?: Pt): string {
+  if (goal && p.x === goal.x && p.y === goal.y) return "Goal!";
+  const exits = exitsOf(maze, p).map(d => turnOf(heading, d));
+  const ways = SPOKEN.filter(t => exits.includes(t));
+  if (!ways.length) return exits.length ? "Dead end. Turn back." : "Walled in.";
+  const kind = ways.length > 1 ? "Junction" : ways[0] === "forward" ? "Corridor" : "Bend";
+  return `${kind}: ${ways.join(", ")}.`;
+}
+
+/** One or two sentences on the whole maze, for the SVG's label and the summary line */
+export function mazeSummary(r: MazeResult, routeLength?: number): string {
+  const H = r.maze.length, W = r.maze[0]?.length ?? 0, { L, E, J, D } = r.stats;
+  const shape = TOPOLOGIES[r.topology ?? "square"].label.toLowerCase();
+  const floors = r.floors && r.floors > 1 ? ` over ${r.floors} floors` : "";
+  const band = BANDS[bandOf(D, L)].label.toLowerCase();
+  let s = `${shape[0].toUpperCase()}${shape.slice(1)} maze, ${W} by ${H}${floors}, ${L} cells. `
+    + `Difficulty ${band} (D ${D.toFixed(2)}), ${J} junctions and ${E} dead ends.`;
+  if (routeLength) s += ` The shortest way through is ${routeLength} cells.`;
+  const wp = r.waypoints?.cells.length;
+  if (wp) s += r.waypoints!.kind === "checkpoints" ? ` Visit ${wp} checkpoints in order.` : ` Collect ${wp} treasures.`;
+  return s;
+}
@@ -0,0 +1,124 @@
+// src/app/difficulty.ts
+import { createMaze, mulberry32, type MazeParams } from "./maze";
+import { GENERATORS } from "./generators";
+import { solveRoute } from "./waypoints";
+import { countDeadEnds } from "./metrics";
+
+/**
+ * "Generate to spec": look over seeds and g / b / τ for a maze whose
+ * difficulty D lands in a target band, optionally with a minimum solution
+ * length and a cap on dead ends. The hit carries the exact params that were
+ * scored, so applying it shows that very maze.
+ *
+ * D grows with the cell count (0.7·log2 L), so the named bands are set on
+ * what's left over and work at any size; "custom" takes a plain D range.
+ * D is the carve tree's; solution length and dead ends are measured on the
+ * braided maze that's delivered.
+ */
+export type BandId = "easy" | "medium" | "hard" | "custom";
+
+export const BANDS: Record<BandId, { label: string; lo: number; hi: number }> = {
+  easy:   { label: "Easy",       lo: 0,    hi: 0.5 },
+  medium: { label: "Medium",     lo: 0.5,  hi: 0.6 },
+  hard:   { label: "Hard",       lo: 0.6,  hi: Infinity },
+  custom: { label: "D range…",   lo: 0,    hi: Infinity },
+};
+
+export const BAND_IDS = Object.keys(BANDS) as BandId[];
+
+export type DifficultyTarget = {
+  band: BandId;
+  min?: number; max?: number;           // "custom" only
+  minSolution?: number;                 // cells on the solution (the whole tour with waypoints)
+  maxDeadEnds?: number;
+};
+
+export type SearchHit = {
+  params: MazeParams;
+  D: number; S: number;
+  E: number;                            // dead ends on the braided maze
+  score: number;                        // 0 = every condition met
+  matched: boolean;
+};
+
+export type SearchProgress = { tried: number; budget: number; best: SearchHit };
+
+export const SEARCH_BUDGET = 240;
+
+/** The D range a target means for a maze of L cells */
+export function targetRange(t: DifficultyTarget, L: number): [number, number] {
+  if (t.band === "custom") return [t.min ?? 0, t.max ?? Infinity];
+  const base = 0.7 * Math.log2(Math.max(2, L));
+  return [base + BANDS[t.band].lo, base + BANDS[t.band].hi];
+}
+
+/** The named band a maze of L cells with difficulty D falls in */
+export function bandOf(D: number, L: number): Exclude<BandId, "custom"> {
+  const over = D - 0.7 * Math.log2(Math.max(2, L));
+  return over < BANDS.medium.lo ? "easy" : over < BANDS.hard.lo ? "medium" : "hard";
+}
+
+/**
+ * Hill-climb from the current params: nudge g / τ (step size grows on
+ * success, shrinks on failure), and b too when there's a solution or dead-end
+ * condition (D doesn't see braids); often re-roll the seed, and restart from a
+ * random point now and then so one flat region can't trap the search.
+ * Yields to the event loop between batches; resolves null when `signal`
+ * aborts, else the first match or the closest maze found.
+ */
+export async function searchDifficulty(
+  base: MazeParams,
+  target: DifficultyTarget,
+  opts: { budget?: number; signal?: AbortSignal; onProgress?: (p: SearchProgress) => void } = {},
+): Promise<SearchHit | null> {
+  const budget = opts.budget ?? SEARCH_BUDGET;
+  const rnd = mulberry32((base.seed ^ 0x5eed) >>> 0);
+  // g and τ only steer the biased generators; elsewhere they stay put
+  const biased = GENERATORS[base.algo ?? "dfs"].biased;
+  // braiding only shows in the solution length and the dead ends
+  const braids = !!target.minSolution || target.maxDeadEnds !== undefined;
+  const r2 = (n: number) => Math.round(n * 100) / 100;
+  const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
+  const miss = (v: number, lo: number, hi: number) => v < lo ? lo - v : v > hi ? v - hi : 0;
+
+  let range: [number, number] | null = null;
+  const evaluate = (params: MazeParams): SearchHit => {
+    const r = createMaze(params);
+    const { D, L } = r.stats;
+    const E = countDeadEnds(r.maze);
+    range ??= targetRange(target, L);
+    const S = target.minSolution ? solveRoute(r).length : 0;
+    const score = miss(D, range[0], range[1])
+      + (target.minSolution ? Math.max(0, target.minSolution - S) / target.minSolution : 0)
+      + (target.maxDeadEnds !== undefined ? Math.max(0, E - target.maxDeadEnds) / Math.max(1, target.maxDeadEnds) : 0);
+    return { params, D, S, E, score, matched: score === 0 };
+  };
+  const seed = () => Math.floor(rnd() * 1_000_000);
+  const nudge = (p: MazeParams, step: number): MazeParams => ({
+    ...p,
+    seed: rnd() < 0.5 ? seed() : p.seed,
+    ...(biased ? { g: r2(clamp(p.g + (rnd()*2 - 1) * step, 0, 1)), tau: r2(clamp(p.tau + (rnd()*2 - 1) * step, 0, 1)) } : {}),
+    ...(braids ? { b: r2(clamp(p.b + (rnd()*2 - 1) * step / 2, 0, 0.5)) } : {}),
+  });
+  const random = (p: MazeParams): MazeParams => ({
+    ...p, seed: seed(), ...(biased ? { g: r2(rnd()), tau: r2(rnd()) } : {}), ...(braids ? { b: r2(rnd() * 0.5) } : {}),
+  });
+
+  let cur = evaluate(base), best = cur, step = 0.25, tried = 1;
+  while (!best.matched && tried < budget) {
+    if (opts.signal?.aborted) return null;
+    const restart = tried % 30 === 0;
+    const hit = evaluate(restart ? random(cur.params) : nudge(cur.params, step));
+    tried++;
+    if (restart || hit.score <= cur.score) { cur = hit; step = Math.min(0.5, step * 1.3); }
+    else step = Math.max(0.03, step * 0.85);
+    if (hit.score < best.score) best = hit;
+    if (tried % 6 === 0) {
+      opts.onProgress?.({ tried, budget, best });
+      await new Promise(r => setTimeout(r, 0));
+    }
+  }
+  if (opts.signal?.aborted) return null;
+  opts.onProgress?.({ tried, budget, best });
+  return best;
+}
@@ -0,0 +1,16 @@
+// src/app/download.ts
+
+/** Save a blob through a temporary <a download> link */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.rel = "noopener";
+  document.body.appendChild(a); a.click(); a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Filesystem-safe stamp for filenames, e.g. 2024-05-01-1530 */
+export function fileStamp(d = new Date()): string {
+  const p = (n:number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}-${p(d.getHours())}${p(d.getMinutes())}`;
+}
@@ -0,0 +1,429 @@
+// src/app/generators.ts
+import type { CarveStep } from "./maze";
+import type { Grid } from "./topology";
+
+/**
+ * Spanning-tree generators. Each one only decides the carve order; `createMaze`
+ * knocks the walls down, braids and computes stats, so every algorithm yields
+ * the same `MazeResult` shape.
+ */
+export type GeneratorId =
+  | "dfs" | "kruskal" | "prim" | "wilson" | "eller" | "aldous-broder" | "sidewinder" | "binary-tree";
+
+export type CarveCtx = {
+  W:number; H:number;
+  start:{x:number;y:number};
+  goal:{x:number;y:number};
+  g:number; tau:number;
+  rnd:()=>number;
+};
+
+// non-square topologies only know "who is next to whom"
+export type GraphCtx = {
+  grid: Grid;
+  start:{x:number;y:number};
+  goal:{x:number;y:number};
+  g:number; tau:number;
+  rnd:()=>number;
+};
+
+export type Generator = {
+  label: string;
+  // true when the goal bias g and straight bonus τ affect the result
+  biased: boolean;
+  carve: (ctx: CarveCtx) => CarveStep[];
+  // same algorithm on any topology; row/column based ones (Eller, Sidewinder, Binary tree) have none
+  graph?: (ctx: GraphCtx) => CarveStep[];
+};
+
+export const DIRS = [
+  { dx: 1, dy: 0, a: "e" as const, b: "w" as const },
+  { dx:-1, dy: 0, a: "w" as const, b: "e" as const },
+  { dx: 0, dy: 1, a: "s" as const, b: "n" as const },
+  { dx: 0, dy:-1, a: "n" as const, b: "s" as const },
+];
+
+export const GENERATORS: Record<GeneratorId, Generator> = {
+  "dfs":           { label: "Recursive backtracker (DFS)", biased: true,  carve: carveDFS,          graph: graphDFS },
+  "kruskal":       { label: "Kruskal",                     biased: false, carve: carveKruskal,      graph: graphKruskal },
+  "prim":          { label: "Prim",                        biased: false, carve: carvePrim,         graph: graphPrim },
+  "wilson":        { label: "Wilson (uniform)",            biased: false, carve: carveWilson,       graph: graphWilson },
+  "eller":         { label: "Eller",                       biased: false, carve: carveEller },
+  "aldous-broder": { label: "Aldous-Broder",               biased: false, carve: carveAldousBroder, graph: graphAldousBroder },
+  "sidewinder":    { label: "Sidewinder",                  biased: false, carve: carveSidewinder },
+  "binary-tree":   { label: "Binary tree",                 biased: false, carve: carveBinaryTree },
+};
+
+export const GENERATOR_IDS = Object.keys(GENERATORS) as GeneratorId[];
+
+export function isGeneratorId(x: unknown): x is GeneratorId {
+  return typeof x === "string" && x in GENERATORS;
+}
+
+/* ---------------- algorithms ---------------- */
+
+// Recursive backtracker with goal bias g and straight bonus τ (the original generator)
+function carveDFS({ W, H, start, goal, g, tau, rnd }: CarveCtx): CarveStep[] {
+  const inb = (x:number,y:number)=> x>=0 && x<W && y>=0 && y<H;
+  // visited flags and the stack are cell indices: no string keys or per-cell objects,
+  // so a 500×500 poster carves in a fraction of the time
+  const seen = new Uint8Array(W * H);
+  const unseen = (x:number,y:number)=> inb(x, y) && !seen[y*W + x];
+  const stack = new Int32Array(W * H);
+  const candidates: number[] = [];
+  const steps: CarveStep[] = [];
+
+  let top = 0;
+  stack[top++] = start.y*W + start.x;
+  seen[stack[0]] = 1;
+
+  while (top) {
+    const i = stack[top - 1], x = i % W, y = (i - x) / W;
+    // heading into this cell (none at the start)
+    const pdx = top > 1 ? x - stack[top - 2] % W : 0;
+    const pdy = top > 1 ? y - Math.floor(stack[top - 2] / W) : 0;
+
+    // the unvisited neighbors
+    candidates.length = 0;
+    for (let k=0;k<DIRS.length;k++) if (unseen(x + DIRS[k].dx, y + DIRS[k].dy)) candidates.push(k);
+
+    if (candidates.length === 0) { top--; continue; }
+
+    // ⬅️ choose using goal bias g and straight bonus τ
+    let d = DIRS[chooseDirWeighted(x, y, pdx, pdy, goal, g, tau, rnd)];
+    // rare when chosen dir isn’t valid due to weights; fall back to any candidate
+    if (!unseen(x + d.dx, y + d.dy)) d = DIRS[candidates[(rnd()*candidates.length)|0]];
+
+    const nx = x + d.dx, ny = y + d.dy;
+    steps.push({ x, y, nx, ny });
+    stack[top++] = ny*W + nx; seen[ny*W + nx] = 1;
+  }
+  return steps;
+}
+
+// Randomized Kruskal: shuffle every interior wall, knock it down when it joins two sets
+function carveKruskal({ W, H, rnd }: CarveCtx): CarveStep[] {
+  const edges: CarveStep[] = [];
+  for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
+    if (x+1 < W) edges.push({ x, y, nx:x+1, ny:y });
+    if (y+1 < H) edges.push({ x, y, nx:x, ny:y+1 });
+  }
+  shuffleInPlace(edges, rnd);
+
+  const parent = Array.from({ length: W*H }, (_, i) => i);
+  const find = (i:number):number => { while (parent[i] !== i) { parent[i] = parent[parent[i]]; i = parent[i]; } return i; };
+
+  const steps: CarveStep[] = [];
+  for (const e of edges) {
+    const a = find(e.y*W + e.x), b = find(e.ny*W + e.nx);
+    if (a === b) continue;
+    parent[a] = b;
+    steps.push(e);
+  }
+  return steps;
+}
+
+// Randomized Prim: grow from start by picking a random frontier edge
+function carvePrim({ W, H, start, rnd }: CarveCtx): CarveStep[] {
+  const inTree = new Uint8Array(W*H);
+  const frontier: CarveStep[] = [];
+  const add = (x:number,y:number) => {
+    inTree[y*W + x] = 1;
+    for (const d of DIRS) {
+      const nx = x + d.dx, ny = y + d.dy;
+      if (nx>=0 && nx<W && ny>=0 && ny<H && !inTree[ny*W + nx]) frontier.push({ x, y, nx, ny });
+    }
+  };
+
+  const steps: CarveStep[] = [];
+  add(start.x, start.y);
+  while (frontier.length) {
+    const i = (rnd()*frontier.length)|0;
+    const e = frontier[i];
+    frontier[i] = frontier[frontier.length - 1]; frontier.pop();
+    if (inTree[e.ny*W + e.nx]) continue;
+    steps.push(e);
+    add(e.nx, e.ny);
+  }
+  return steps;
+}
+
+// Wilson: loop-erased random walks into the tree, rooted at start (uniform spanning tree)
+function carveWilson({ W, H, start, rnd }: CarveCtx): CarveStep[] {
+  const inTree = new Uint8Array(W*H);
+  const next = new Int32Array(W*H);
+  inTree[start.y*W + start.x] = 1;
+
+  const steps: CarveStep[] = [];
+  for (let i=0;i<W*H;i++) {
+    if (inTree[i]) continue;
+    // walk until we hit the tree; overwriting next[] erases loops
+    let c = i;
+    while (!inTree[c]) {
+      const n = randomNeighbor(c % W, (c / W)|0, W, H, rnd);
+      next[c] = n.y*W + n.x;
+      c = next[c];
+    }
+    // commit the loop-erased path
+    c = i;
+    while (!inTree[c]) {
+      inTree[c] = 1;
+      const n = next[c];
+      steps.push({ x: c % W, y: (c / W)|0, nx: n % W, ny: (n / W)|0 });
+      c = n;
+    }
+  }
+  return steps;
+}
+
+// Aldous-Broder: random walk from start, carve whenever we enter an unvisited cell
+function carveAldousBroder({ W, H, start, rnd }: CarveCtx): CarveStep[] {
+  const seen = new Uint8Array(W*H);
+  let { x, y } = start;
+  seen[y*W + x] = 1;
+  let remaining = W*H - 1;
+
+  const steps: CarveStep[] = [];
+  while (remaining > 0) {
+    const n = randomNeighbor(x, y, W, H, rnd);
+    if (!seen[n.y*W + n.x]) {
+      seen[n.y*W + n.x] = 1; remaining--;
+      steps.push({ x, y, nx:n.x, ny:n.y });
+    }
+    x = n.x; y = n.y;
+  }
+  return steps;
+}
+
+// Eller: one row at a time, merging sets sideways and dropping at least one link per set
+function carveEller({ W, H, rnd }: CarveCtx): CarveStep[] {
+  const steps: CarveStep[] = [];
+  let sets = Array.from({ length: W }, (_, x) => x);
+  let nextSet = W;
+
+  for (let y=0;y<H;y++) {
+    const last = y === H-1;
+
+    // horizontal joins (forced on the last row so everything connects)
+    for (let x=0;x<W-1;x++) {
+      if (sets[x] === sets[x+1]) continue;
+      if (!last && rnd() < 0.5) continue;
+      steps.push({ x, y, nx:x+1, ny:y });
+      const from = sets[x+1], to = sets[x];
+      for (let i=0;i<W;i++) if (sets[i] === from) sets[i] = to;
+    }
+    if (last) break;
+
+    // vertical links: every set must continue into the next row at least once
+    const members = new Map<number, number[]>();
+    for (let x=0;x<W;x++) {
+      const list = members.get(sets[x]);
+      if (list) list.push(x); else members.set(sets[x], [x]);
+    }
+    const below = new Array<number>(W).fill(-1);
+    for (const [id, xs] of members) {
+      shuffleInPlace(xs, rnd);
+      const n = 1 + ((rnd()*xs.length)|0);
+      for (let i=0;i<n;i++) { below[xs[i]] = id; steps.push({ x:xs[i], y, nx:xs[i], ny:y+1 }); }
+    }
+    sets = below.map(id => id >= 0 ? id : nextSet++);
+  }
+  return steps;
+}
+
+// Sidewinder: runs along each row, closed by carving north from a random run member
+function carveSidewinder({ W, H, rnd }: CarveCtx): CarveStep[] {
+  const steps: CarveStep[] = [];
+  for (let y=0;y<H;y++) {
+    let runStart = 0;
+    for (let x=0;x<W;x++) {
+      const atEast = x === W-1;
+      const closeRun = atEast || (y > 0 && rnd() < 0.5);
+      if (!closeRun) { steps.push({ x, y, nx:x+1, ny:y }); continue; }
+      if (y > 0) {
+        const rx = runStart + ((rnd()*(x - runStart + 1))|0);
+        steps.push({ x:rx, y, nx:rx, ny:y-1 });
+      }
+      runStart = x + 1;
+    }
+  }
+  return steps;
+}
+
+// Binary tree: every cell links north or west
+function carveBinaryTree({ W, H, rnd }: CarveCtx): CarveStep[] {
+  const steps: CarveStep[] = [];
+  for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
+    const opts: CarveStep[] = [];
+    if (y > 0) opts.push({ x, y, nx:x, ny:y-1 });
+    if (x > 0) opts.push({ x, y, nx:x-1, ny:y });
+    if (opts.length) steps.push(opts[(rnd()*opts.length)|0]);
+  }
+  return steps;
+}
+
+/* ---------------- any topology ---------------- */
+
+const cellsOf = (grid: Grid) => {
+  const out: {x:number;y:number}[] = [];
+  for (let y=0;y<grid.rows;y++) for (let x=0;x<grid.rowLength(y);x++) if (grid.has(x, y)) out.push({ x, y });
+  return out;
+};
+const neighborsOf = (grid: Grid, x:number, y:number) =>
+  grid.sides(x, y).filter(s => s.nb).map(s => ({ ...s.nb!, dir: s.dir }));
+
+// DFS with g pulling toward the goal's centre and τ favouring the same heading
+function graphDFS({ grid, start, goal, g, tau, rnd }: GraphCtx): CarveStep[] {
+  const idx = (p:{x:number;y:number}) => p.y*grid.width + p.x;
+  const [gx, gy] = grid.center(goal.x, goal.y);
+  const dist = (p:{x:number;y:number}) => { const [x, y] = grid.center(p.x, p.y); return Math.hypot(x - gx, y - gy); };
+  const seen = new Uint8Array(grid.width*grid.rows);
+  const stack: { x:number; y:number; dir:number }[] = [{ ...start, dir: -1 }];
+  const steps: CarveStep[] = [];
+  seen[idx(start)] = 1;
+
+  while (stack.length) {
+    const cur = stack[stack.length - 1];
+    const cands = neighborsOf(grid, cur.x, cur.y).filter(n => !seen[idx(n)]);
+    if (!cands.length) { stack.pop(); continue; }
+    const base = dist(cur);
+    const weights = cands.map(n => 1 + (dist(n) < base ? g : 0) + (n.dir === cur.dir ? tau : 0));
+    let r = rnd() * weights.reduce((a, b) => a + b, 0), i = 0;
+    while (i < cands.length - 1 && (r -= weights[i]) > 0) i++;
+    const n = cands[i];
+    steps.push({ x:cur.x, y:cur.y, nx:n.x, ny:n.y });
+    seen[idx(n)] = 1; stack.push(n);
+  }
+  return steps;
+}
+
+function graphKruskal({ grid, rnd }: GraphCtx): CarveStep[] {
+  const idx = (x:number, y:number) => y*grid.width + x;
+  const edges: CarveStep[] = [];
+  for (const c of cellsOf(grid)) for (const n of neighborsOf(grid, c.x, c.y)) {
+    if (idx(n.x, n.y) > idx(c.x, c.y)) edges.push({ x:c.x, y:c.y, nx:n.x, ny:n.y });
+  }
+  shuffleInPlace(edges, rnd);
+
+  const parent = Array.from({ length: grid.width*grid.rows }, (_, i) => i);
+  const find = (i:number):number => { while (parent[i] !== i) { parent[i] = parent[parent[i]]; i = parent[i]; } return i; };
+  const steps: CarveStep[] = [];
+  for (const e of edges) {
+    const a = find(idx(e.x, e.y)), b = find(idx(e.nx, e.ny));
+    if (a === b) continue;
+    parent[a] = b;
+    steps.push(e);
+  }
+  return steps;
+}
+
+function graphPrim({ grid, start, rnd }: GraphCtx): CarveStep[] {
+  const idx = (x:number, y:number) => y*grid.width + x;
+  const inTree = new Uint8Array(grid.width*grid.rows);
+  const frontier: CarveStep[] = [];
+  const add = (x:number, y:number) => {
+    inTree[idx(x, y)] = 1;
+    for (const n of neighborsOf(grid, x, y)) if (!inTree[idx(n.x, n.y)]) frontier.push({ x, y, nx:n.x, ny:n.y });
+  };
+
+  const steps: CarveStep[] = [];
+  add(start.x, start.y);
+  while (frontier.length) {
+    const i = (rnd()*frontier.length)|0;
+    const e = frontier[i];
+    frontier[i] = frontier[frontier.length - 1]; frontier.pop();
+    if (inTree[idx(e.nx, e.ny)]) continue;
+    steps.push(e);
+    add(e.nx, e.ny);
+  }
+  return steps;
+}
+
+function graphWilson({ grid, start, rnd }: GraphCtx): CarveStep[] {
+  const idx = (p:{x:number;y:number}) => p.y*grid.width + p.x;
+  const inTree = new Uint8Array(grid.width*grid.rows);
+  const next = new Map<number, {x:number;y:number}>();
+  inTree[idx(start)] = 1;
+
+  const steps: CarveStep[] = [];
+  for (const c0 of cellsOf(grid)) {
+    if (inTree[idx(c0)]) continue;
+    let c = c0;
+    while (!inTree[idx(c)]) {
+      const ns = neighborsOf(grid, c.x, c.y);
+      const n = ns[(rnd()*ns.length)|0];
+      next.set(idx(c), n); c = n;
+    }
+    c = c0;
+    while (!inTree[idx(c)]) {
+      inTree[idx(c)] = 1;
+      const n = next.get(idx(c))!;
+      steps.push({ x:c.x, y:c.y, nx:n.x, ny:n.y });
+      c = n;
+    }
+  }
+  return steps;
+}
+
+function graphAldousBroder({ grid, start, rnd }: GraphCtx): CarveStep[] {
+  const idx = (p:{x:number;y:number}) => p.y*grid.width + p.x;
+  const seen = new Uint8Array(grid.width*grid.rows);
+  let cur = start, remaining = cellsOf(grid).length - 1;
+  seen[idx(cur)] = 1;
+
+  const steps: CarveStep[] = [];
+  while (remaining > 0) {
+    const ns = neighborsOf(grid, cur.x, cur.y);
+    const n = ns[(rnd()*ns.length)|0];
+    if (!seen[idx(n)]) {
+      seen[idx(n)] = 1; remaining--;
+      steps.push({ x:cur.x, y:cur.y, nx:n.x, ny:n.y });
+    }
+    cur = n;
+  }
+  return steps;
+}
+
+/* ---------------- helpers ---------------- */
+
+// weight helper for the DFS
+const weights = new Float64Array(DIRS.length);
+// index into DIRS; (pdx, pdy) is the heading so far, 0 0 for none
+function chooseDirWeighted(
+  x:number, y:number,
+  pdx:number, pdy:number,
+  goal:{x:number;y:number},
+  g:number, tau:number,
+  rnd:()=>number
+){
+  // compute weights
+  const baseDist = Math.abs(goal.x - x) + Math.abs(goal.y - y); // manhattan
+  let total = 0;
+  for (let i = 0; i < DIRS.length; i++) {
+    const d = DIRS[i], nx = x + d.dx, ny = y + d.dy;
+    const toward = (Math.abs(goal.x - nx) + Math.abs(goal.y - ny)) < baseDist ? g : 0;
+    const straight = d.dx === pdx && d.dy === pdy ? tau : 0;
+    // small jitter avoids ties (doesn't change determinism with our rng)
+    weights[i] = 1 + toward + straight + rnd()*1e-6;
+    total += weights[i];
+  }
+
+  // roulette-wheel selection
+  let r = rnd() * total;
+  for (let i = 0; i < DIRS.length; i++) {
+    r -= weights[i];
+    if (r <= 0) return i;
+  }
+  return DIRS.length - 1;
+}
+
+function randomNeighbor(x:number, y:number, W:number, H:number, rnd:()=>number){
+  const opts: {x:number;y:number}[] = [];
+  for (const d of DIRS) {
+    const nx = x + d.dx, ny = y + d.dy;
+    if (nx>=0 && nx<W && ny>=0 && ny<H) opts.push({ x:nx, y:ny });
+  }
+  return opts[(rnd()*opts.length)|0];
+}
+
+export function shuffleInPlace<T>(a:T[], rnd:()=>number){ for(let i=a.length-1;i>0;i--){ const j=(rnd()* (i+1))|0; [a[i],a[j]]=[a[j],a[i]]; } }
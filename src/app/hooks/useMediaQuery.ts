@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+/** Whether a media query matches, kept live as it changes (OS dark mode, reduced motion…) */
+export function useMediaQuery(query: string) {
+  const [match, setMatch] = useState(() => typeof window !== "undefined" && !!window.matchMedia?.(query).matches);
+  useEffect(() => {
+    const mq = window.matchMedia?.(query);
+    if (!mq) return;
+    const onChange = () => setMatch(mq.matches);
+    onChange();
+    mq.addEventListener("change", onChange);
+    return () => mq.removeEventListener("change", onChange);
+  }, [query]);
+  return match;
+}
+
+export const usePrefersDark = () => useMediaQuery("(prefers-color-scheme: dark)");
+export const usePrefersReducedMotion = () => useMediaQuery("(prefers-reduced-motion: reduce)");
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Transport for a timeline of `total` events: play / pause / step / seek at
+ * `msPerStep`. `runKey` changing rewinds (and starts playing when `autoplay`).
+ * An untouched autoplay run hides itself `lingerMs` after the end; once the
+ * user pauses, steps or scrubs, the frame stays up until hide().
+ */
+export function usePlayback(total: number, msPerStep: number, runKey: string, autoplay: boolean, lingerMs: number) {
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [visible, setVisible] = useState(false);
+  const touched = useRef(false);
+
+  const lastKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (lastKey.current !== runKey) {
+      lastKey.current = runKey; touched.current = false;
+      setFrame(autoplay ? 0 : total);
+      setPlaying(autoplay && total > 0);
+      setVisible(autoplay && total > 0);
+    }
+    // same maze, longer or shorter timeline (braids / solver toggled): idle sits at the end
+    else if (!visible) setFrame(total);
+    else setFrame(f => Math.min(f, total));
+  }, [runKey, total]);
+
+  // advance by elapsed time, so slow frames don't slow the replay down
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0, last = performance.now(), carry = 0;
+    const tick = (now: number) => {
+      carry += now - last; last = now;
+      const n = Math.floor(carry / msPerStep);
+      if (n > 0) {
+        carry -= n * msPerStep;
+        setFrame(f => {
+          const next = Math.min(total, f + n);
+          if (next >= total) setPlaying(false);
+          return next;
+        });
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, msPerStep, total]);
+
+  useEffect(() => {
+    if (playing || touched.current || !visible || frame < total) return;
+    const t = setTimeout(() => setVisible(false), lingerMs);
+    return () => clearTimeout(t);
+  }, [playing, visible, frame, total, lingerMs]);
+
+  const take = () => { touched.current = true; setVisible(true); };
+  return {
+    frame, playing, visible,
+    play: () => { take(); setFrame(f => f >= total ? 0 : f); setPlaying(true); },
+    pause: () => { take(); setPlaying(false); },
+    step: (d: number) => { take(); setPlaying(false); setFrame(f => Math.max(0, Math.min(total, f + d))); },
+    seek: (i: number) => { take(); setPlaying(false); setFrame(Math.max(0, Math.min(total, i))); },
+    hide: () => { setPlaying(false); setVisible(false); },
+  };
+}
@@ -0,0 +1,136 @@
+// src/app/library.ts
+import { isGeneratorId } from "./generators";
+import { floorsKey, isFloorCount, isTopologyId } from "./topology";
+import { isMask, maskKey } from "./mask";
+import { isEnds, isPlacementId, placementKey } from "./placement";
+import { isWaypointSpec, waypointsKey } from "./waypoints";
+import { isWeave, weaveKey } from "./weave";
+import type { Pt } from "./solver";
+import type { MazeParams } from "./maze";
+import { saneCore } from "./share";
+
+export type SavedMaze = {
+  id: string;
+  name: string;
+  params: MazeParams;
+  createdAt: number;
+  // snap-mode path segments drawn on this maze
+  path?: Pt[][];
+};
+
+/**
+ * Export file: `{ format, version, exportedAt, mazes }`. Bump LIBRARY_VERSION
+ * whenever `SavedMaze` changes shape and add a step to MIGRATIONS that lifts
+ * version N-1 entries to N; imports replay every step from the file's version.
+ */
+export const LIBRARY_FORMAT = "infimaze-library";
+export const LIBRARY_VERSION = 1;
+
+export type LibraryBundle = {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  exportedAt: number;
+  mazes: SavedMaze[];
+};
+
+// MIGRATIONS[n] upgrades a raw entry from version n to n+1
+const MIGRATIONS: Record<number, (raw: any) => any> = {};
+
+export type ImportMode = "merge" | "replace";
+
+export function exportLibrary(list: SavedMaze[], now = Date.now()): LibraryBundle {
+  return { format: LIBRARY_FORMAT, version: LIBRARY_VERSION, exportedAt: now, mazes: list };
+}
+
+/** Parse an export file. Invalid entries are dropped and reported, not fatal. */
+export function parseLibrary(text: string): { mazes: SavedMaze[]; errors: string[] } {
+  let raw: any;
+  try { raw = JSON.parse(text); } catch { return { mazes: [], errors: ["Not a JSON file."] }; }
+  // a bare array is what `savedMazes:v1` holds; accept it as version 1
+  if (Array.isArray(raw)) raw = { format: LIBRARY_FORMAT, version: 1, mazes: raw };
+  if (!raw || raw.format !== LIBRARY_FORMAT || !Array.isArray(raw.mazes)) {
+    return { mazes: [], errors: ["Not a maze library export."] };
+  }
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) return { mazes: [], errors: ["Unknown library version."] };
+  if (version > LIBRARY_VERSION) {
+    return { mazes: [], errors: [`Library version ${version} is newer than this app (${LIBRARY_VERSION}); please update.`] };
+  }
+
+  const mazes: SavedMaze[] = [], errors: string[] = [];
+  raw.mazes.forEach((entry: any, i: number) => {
+    let e = entry;
+    for (let v = version; v < LIBRARY_VERSION; v++) e = MIGRATIONS[v](e);
+    const m = validateSavedMaze(e);
+    if (m) mazes.push(m); else errors.push(`Entry ${i + 1} is invalid and was skipped.`);
+  });
+  return { mazes, errors };
+}
+
+/** Schema check for one entry; returns a clean copy or null */
+export function validateSavedMaze(e: any): SavedMaze | null {
+  if (!e || typeof e !== "object" || typeof e.name !== "string") return null;
+  const p = e.params;
+  const num = (n: any) => typeof n === "number" && Number.isFinite(n);
+  if (!p || ![p.width, p.height, p.seed, p.g, p.b, p.tau].every(num)) return null;
+  if (!Number.isInteger(p.seed)) return null;
+  if (p.algo !== undefined && !isGeneratorId(p.algo)) return null;
+  if (p.topology !== undefined && !isTopologyId(p.topology)) return null;
+  if (p.mask !== undefined && !isMask(p.mask)) return null;
+  if (p.placement !== undefined && !isPlacementId(p.placement)) return null;
+  if (p.ends !== undefined && !isEnds(p.ends)) return null;
+  if (p.waypoints !== undefined && !isWaypointSpec(p.waypoints)) return null;
+  if (p.weave !== undefined && !isWeave(p.weave)) return null;
+  if (p.floors !== undefined && !isFloorCount(p.floors)) return null;
+
+  let path: Pt[][] | undefined;
+  if (e.path !== undefined) {
+    const ok = Array.isArray(e.path) && e.path.every((seg: any) =>
+      Array.isArray(seg) && seg.every((c: any) => c && Number.isInteger(c.x) && Number.isInteger(c.y)));
+    if (!ok) return null;
+    path = e.path.map((seg: Pt[]) => seg.map(c => ({ x: c.x, y: c.y })));
+  }
+
+  return {
+    id: typeof e.id === "string" && e.id ? e.id : "",
+    name: e.name,
+    params: { ...saneCore(p), ...(p.algo ? { algo:p.algo } : {}), ...(p.topology && p.topology !== "square" ? { topology:p.topology } : {}),
+      ...(p.mask ? { mask: { w:p.mask.w, h:p.mask.h, data:p.mask.data, ...(p.mask.label ? { label:p.mask.label } : {}) } } : {}),
+      ...(p.placement && p.placement !== "edges" ? { placement:p.placement } : {}),
+      ...(p.placement === "manual" && p.ends ? { ends: { start: { x:p.ends.start.x, y:p.ends.start.y }, goal: { x:p.ends.goal.x, y:p.ends.goal.y } } } : {}),
+      ...(p.waypoints ? { waypoints: { kind:p.waypoints.kind, count:p.waypoints.count, spacing:p.waypoints.spacing } } : {}),
+      ...(p.weave ? { weave:p.weave } : {}), ...(p.floors > 1 ? { floors:p.floors } : {}) },
+    createdAt: num(e.createdAt) ? e.createdAt : Date.now(),
+    ...(path ? { path } : {}),
+  };
+}
+
+/** Maze identity: two entries with the same params are the same maze */
+export function paramsKey(p: SavedMaze["params"]): string {
+  // square keeps the original key so stored paths still match
+  const shape = p.topology && p.topology !== "square" ? `|${p.topology}` : "";
+  const mask = p.mask ? `|m${maskKey(p.mask)}` : "";
+  return `${p.width}x${p.height}|${p.seed}|${p.g}|${p.b}|${p.tau}|${p.algo ?? "dfs"}${shape}${mask}${placementKey(p)}${waypointsKey(p.waypoints)}${weaveKey(p.weave)}${floorsKey(p.floors)}`;
+}
+
+/**
+ * Merge keeps what's there and appends new mazes (duplicates by params are
+ * skipped); replace swaps the whole library for the import. Missing or
+ * clashing ids get fresh ones.
+ */
+export function mergeLibrary(existing: SavedMaze[], incoming: SavedMaze[], mode: ImportMode, uid: () => string) {
+  const base = mode === "replace" ? [] : existing;
+  const seenKeys = new Set(base.map(m => paramsKey(m.params)));
+  const seenIds = new Set(base.map(m => m.id));
+  const list = base.slice();
+  let added = 0, duplicates = 0;
+  for (const m of incoming) {
+    const k = paramsKey(m.params);
+    if (seenKeys.has(k)) { duplicates++; continue; }
+    const id = m.id && !seenIds.has(m.id) ? m.id : uid();
+    seenKeys.add(k); seenIds.add(id);
+    list.push({ ...m, id });
+    added++;
+  }
+  return { list, added, duplicates };
+}
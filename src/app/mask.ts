@@ -0,0 +1,194 @@
+// src/app/mask.ts
+import type { Grid } from "./topology";
+
+/**
+ * A black-and-white bitmap restricting which cells exist. It is stored at its
+ * own resolution and sampled onto whatever grid is being built (fit to the
+ * grid's footprint, centred), so one mask works for every size and shape.
+ * `data` packs the pixels row-major, most significant bit first, as base64.
+ */
+export type Mask = { w:number; h:number; data:string; label?:string };
+
+export type ShapeId = "heart" | "star" | "circle";
+
+export const SHAPES: Record<ShapeId, { label:string; inside:(u:number, v:number)=>boolean }> = {
+  heart:  { label: "Heart",  inside: (u, v) => { const x = u * 1.25, y = -v * 1.25 + 0.2; const a = x*x + y*y - 1; return a*a*a - x*x*y*y*y <= 0; } },
+  star:   { label: "Star",   inside: (u, v) => inPolygon(u, v, STAR) },
+  circle: { label: "Circle", inside: (u, v) => u*u + v*v <= 1 },
+};
+
+export const SHAPE_IDS = Object.keys(SHAPES) as ShapeId[];
+
+// five-pointed star, unit circumradius, point up
+const STAR: [number, number][] = Array.from({ length: 10 }, (_, i) => {
+  const r = i % 2 ? 0.42 : 1, a = -Math.PI / 2 + i * Math.PI / 5;
+  return [r * Math.cos(a), r * Math.sin(a) + 0.1];
+});
+
+export function createMask(w: number, h: number, on: (x:number, y:number) => boolean, label?: string): Mask {
+  const bytes = new Uint8Array(Math.ceil(w * h / 8));
+  for (let y=0;y<h;y++) for (let x=0;x<w;x++) {
+    const i = y*w + x;
+    if (on(x, y)) bytes[i >> 3] |= 0x80 >> (i & 7);
+  }
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return { w, h, data: btoa(bin), ...(label ? { label } : {}) };
+}
+
+/** Unpacked pixels, 1 = cell allowed */
+export function maskPixels(m: Mask): Uint8Array {
+  const bin = atob(m.data), px = new Uint8Array(m.w * m.h);
+  for (let i=0;i<px.length;i++) px[i] = (bin.charCodeAt(i >> 3) >> (7 - (i & 7))) & 1;
+  return px;
+}
+
+export function isMask(x: any): x is Mask {
+  if (!x || typeof x !== "object" || typeof x.data !== "string") return false;
+  if (!Number.isInteger(x.w) || !Number.isInteger(x.h) || x.w < 1 || x.h < 1 || x.w * x.h > 512 * 512) return false;
+  if (x.label !== undefined && typeof x.label !== "string") return false;
+  try { return atob(x.data).length === Math.ceil(x.w * x.h / 8); } catch { return false; }
+}
+
+/** Short stable id for keys (same bitmap → same key) */
+export function maskKey(m: Mask): string {
+  let h = 5381;
+  const s = `${m.w}x${m.h}:${m.data}`;
+  for (let i=0;i<s.length;i++) h = (Math.imul(h, 33) ^ s.charCodeAt(i)) >>> 0;
+  return h.toString(36);
+}
+
+/* ---------------- sources ---------------- */
+
+export function shapeMask(id: ShapeId, size = 48): Mask {
+  const c = (size - 1) / 2;
+  return createMask(size, size, (x, y) => SHAPES[id].inside((x - c) / c, (y - c) / c), SHAPES[id].label);
+}
+
+// 5×7 pixel font, one hex byte per row (bit 4 = leftmost column)
+const FONT: Record<string, string> = {
+  A:"0E11111F111111", B:"1E11111E11111E", C:"0E11101010110E", D:"1C12111111121C",
+  E:"1F10101E10101F", F:"1F10101E101010", G:"0E11101711110F", H:"1111111F111111",
+  I:"0E04040404040E", J:"0702020202120C", K:"11121418141211", L:"1010101010101F",
+  M:"111B1515111111", N:"11111915131111", O:"0E11111111110E", P:"1E11111E101010",
+  Q:"0E11111115120D", R:"1E11111E141211", S:"0F10100E01011E", T:"1F040404040404",
+  U:"1111111111110E", V:"11111111110A04", W:"1111111515150A", X:"11110A040A1111",
+  Y:"11110A04040404", Z:"1F01020408101F",
+  "0":"0E11131519110E", "1":"040C040404040E", "2":"0E11010204081F", "3":"1F02040201110E",
+  "4":"02060A121F0202", "5":"1F101E0101110E", "6":"0608101E11110E", "7":"1F010204080808",
+  "8":"0E11110E11110E", "9":"0E11110F01020C",
+  " ":"00000000000000",
+};
+
+/** A word in the built-in pixel font (A–Z, 0–9; other characters become spaces) */
+export function textMask(text: string): Mask | null {
+  const chars = [...text.toUpperCase()].map(ch => FONT[ch] ? ch : " ");
+  while (chars[0] === " ") chars.shift();
+  while (chars[chars.length - 1] === " ") chars.pop();
+  if (!chars.length) return null;
+  // 1px padding all round, 1px between letters
+  const w = chars.length * 6 + 1, h = 9;
+  return createMask(w, h, (x, y) => {
+    const col = x - 1, row = y - 1;
+    if (col < 0 || row < 0 || row >= 7 || col % 6 === 5) return false;
+    const hex = FONT[chars[(col / 6) | 0]];
+    return hex !== undefined && ((parseInt(hex.substr(row * 2, 2), 16) >> (4 - col % 6)) & 1) === 1;
+  }, text.trim().toUpperCase());
+}
+
+/* ---------------- sampling onto a grid ---------------- */
+
+/**
+ * Which grid cells exist under the mask (index y*grid.width + x). Islands are
+ * bridged to the biggest region through the shortest run of extra cells, so
+ * the maze stays one connected piece. Null when fewer than two cells survive.
+ */
+export function maskCells(m: Mask, grid: Grid): Uint8Array | null {
+  const px = maskPixels(m);
+  const s = Math.min(grid.size.w / m.w, grid.size.h / m.h);
+  const ox = (grid.size.w - m.w * s) / 2, oy = (grid.size.h - m.h * s) / 2;
+  const idx = (x:number, y:number) => y*grid.width + x;
+  const on = new Uint8Array(grid.width * grid.rows);
+  let count = 0;
+  for (let y=0;y<grid.rows;y++) for (let x=0;x<grid.rowLength(y);x++) {
+    const [u, v] = grid.center(x, y);
+    const mx = Math.floor((u - ox) / s), my = Math.floor((v - oy) / s);
+    if (mx >= 0 && my >= 0 && mx < m.w && my < m.h && px[my*m.w + mx]) { on[idx(x, y)] = 1; count++; }
+  }
+  if (count < 2) return null;
+  connect(on, grid);
+  return on;
+}
+
+function connect(on: Uint8Array, grid: Grid) {
+  const idx = (p:{x:number;y:number}) => p.y*grid.width + p.x;
+  const nbs = (i:number) => grid.sides(i % grid.width, (i / grid.width) | 0).filter(s => s.nb).map(s => idx(s.nb!));
+
+  for (;;) {
+    // label regions
+    const comp = new Int32Array(on.length).fill(-1);
+    const sizes: number[] = [];
+    for (let i=0;i<on.length;i++) {
+      if (!on[i] || comp[i] !== -1) continue;
+      const id = sizes.length, stack = [i];
+      comp[i] = id; let n = 0;
+      while (stack.length) {
+        const j = stack.pop()!; n++;
+        for (const k of nbs(j)) if (on[k] && comp[k] === -1) { comp[k] = id; stack.push(k); }
+      }
+      sizes.push(n);
+    }
+    if (sizes.length <= 1) return;
+
+    // BFS out of the biggest region until another region is touched; switch the route on
+    const main = sizes.indexOf(Math.max(...sizes));
+    const prev = new Int32Array(on.length).fill(-2);
+    const queue: number[] = [];
+    for (let i=0;i<on.length;i++) if (comp[i] === main) { prev[i] = -1; queue.push(i); }
+    let hit = -1;
+    for (let h=0; h<queue.length && hit < 0; h++) {
+      for (const k of nbs(queue[h])) {
+        if (prev[k] !== -2) continue;
+        prev[k] = queue[h];
+        if (on[k]) { hit = k; break; }
+        queue.push(k);
+      }
+    }
+    if (hit < 0) return;
+    for (let i = prev[hit]; i >= 0 && comp[i] !== main; i = prev[i]) on[i] = 1;
+  }
+}
+
+/* ---------------- images (browser only) ---------------- */
+
+/** Dark pixels of an uploaded picture become cells (downscaled so the long side is `size`) */
+export async function imageMask(file: Blob, size = 64, label = "Image"): Promise<Mask> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => { img.onload = () => resolve(); img.onerror = () => reject(new Error("Couldn't read that image")); img.src = url; });
+    const k = size / Math.max(img.naturalWidth, img.naturalHeight);
+    const w = Math.max(1, Math.round(img.naturalWidth * k)), h = Math.max(1, Math.round(img.naturalHeight * k));
+    const cv = document.createElement("canvas");
+    cv.width = w; cv.height = h;
+    const ctx = cv.getContext("2d")!;
+    ctx.fillStyle = "#fff"; ctx.fillRect(0, 0, w, h);   // transparent → background
+    ctx.drawImage(img, 0, 0, w, h);
+    const { data } = ctx.getImageData(0, 0, w, h);
+    return createMask(w, h, (x, y) => {
+      const i = (y*w + x) * 4;
+      return 0.299*data[i] + 0.587*data[i+1] + 0.114*data[i+2] < 128;
+    }, label);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function inPolygon(x: number, y: number, poly: [number, number][]) {
+  let inside = false;
+  for (let i=0, j=poly.length-1; i<poly.length; j=i++) {
+    const [xi, yi] = poly[i], [xj, yj] = poly[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
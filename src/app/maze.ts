@@ -1,12 +1,33 @@
 // src/maze.ts
-export type Cell = { x:number; y:number; n:1|0; s:1|0; e:1|0; w:1|0 };
+import { DIRS, GENERATORS, type GeneratorId } from "./generators";
+import {
+  MAX_FLOORS, PORTAL_UP, createGrid, floorOf, gridDims, gridOf, restrictGrid, stackFloors, stepDir,
+  type Grid, type Link, type TopologyId, type Wall,
+} from "./topology";
+import { maskCells, type Mask } from "./mask";
+import { placeEnds, type Ends, type PlacementId } from "./placement";
+import { farthestCell, openNeighbors, type Pt } from "./solver";
+import { placeWaypoints, type WaypointKind, type WaypointSpec, type Waypoints } from "./waypoints";
+import { weaveTree } from "./weave";
+import { deckLines, packMaze, wallRuns } from "./packed";
+import { THEMES, sketchSegment, type MazeTheme } from "./theme";
+import { MAX_TILED_CELLS, WORLDS, tileWalls, worldDefs, worldFloor, type WorldId } from "./worlds";
+// square cells use n/s/e/w; other topologies list their passages in `links` (walls stay 1).
+// `off` marks cells a mask removed: never carved, never drawn.
+// Weave crossings (square only): `bridge` is the deck's heading on a crossing cell,
+// `tunnels` the cells reached by passing under a neighbouring deck.
+export type Cell = {
+  x:number; y:number; n:1|0; s:1|0; e:1|0; w:1|0; links?: Link[]; off?: true;
+  bridge?: "ns" | "ew"; tunnels?: Pt[];
+};
 export type CarveStep = { x:number; y:number; nx:number; ny:number };
-export type Stats = { L:number; T:number; J:number; E:number; D:number };
+// F (multi-floor mazes only): stairs the tree uses
+export type Stats = { L:number; T:number; J:number; E:number; D:number; F?:number };
 
 export type MazeResult = {
   // final rendered grid (tree + braids)
   maze: Cell[][];
-  // DFS spanning-tree carve steps (use for animation + stats)
+  // spanning-tree carve steps, in generator order (use for animation + stats)
   treeSteps: CarveStep[];
   // optional: the extra edges knocked out by braiding
   braidEdits: CarveStep[];
@@ -15,74 +36,62 @@ export type MazeResult = {
   // start/goal for markers
   start: {x:number;y:number};
   goal:  {x:number;y:number};
+  // grid shape; absent means square
+  topology?: TopologyId;
+  // checkpoints / treasures between start and goal
+  waypoints?: Waypoints;
+  // stacked layers joined by stairs: `maze` holds floor after floor (rows / floors each)
+  floors?: number;
 };
 
 function isMazeResult(x: any): x is MazeResult {
   return x && x.maze && Array.isArray(x.maze);
 }
 
-export function createMaze(params: { width:number;height:number;seed:number;g:number;b:number;tau:number }): MazeResult {
-  const { width: W, height: H, seed, g, b, tau } = params;
+export type MazeParams = {
+  width:number;height:number;seed:number;g:number;b:number;tau:number; algo?:GeneratorId; topology?:TopologyId; mask?:Mask;
+  // start/goal layout; `ends` holds the tapped cells for "manual"
+  placement?:PlacementId; ends?:Ends;
+  waypoints?:WaypointSpec;
+  // over/under crossings, 0..MAX_WEAVE (flat square mazes only)
+  weave?:number;
+  // 2..MAX_FLOORS stacked layers (start on the first, goal on the last by default)
+  floors?:number;
+};
+
+export function createMaze(params: MazeParams): MazeResult {
+  const { width: W, height: H, seed, g, b, tau, algo = "dfs", topology = "square" } = params;
   const rnd = mulberry32(seed);
+  if (topology !== "square" || (params.floors ?? 1) > 1) return createGraphMaze(params, topology, rnd);
 
   // 1) build tree grid + treeSteps
   const tree: Cell[][] = Array.from({ length: H }, (_, y) =>
     Array.from({ length: W }, (_, x) => ({ x, y, n:1 as 1|0, s:1 as 1|0, e:1 as 1|0, w:1 as 1|0 }))
   );
-  const start = { x: 0,    y: Math.floor(H/2) };
-  const goal  = { x: W - 1, y: Math.floor(H/2) };
-
-  const inb = (x:number,y:number)=> x>=0 && x<W && y>=0 && y<H;
-  const key = (x:number,y:number)=> `${x},${y}`;
-  const seen = new Set<string>();
-
-  const stack: {x:number;y:number}[] = [];
-  const treeSteps: CarveStep[] = [];
-
-  stack.push(start);
-  seen.add(key(start.x,start.y));
-
-  while (stack.length) {
-    const cur = stack[stack.length - 1];
-    const prev = stack.length > 1
-      ? { dx: cur.x - stack[stack.length - 2].x, dy: cur.y - stack[stack.length - 2].y }
-      : null;
-
-    // build the list of unvisited neighbors
-    const candidates = [];
-    for (const d of DIRS) {
-      const nx = cur.x + d.dx, ny = cur.y + d.dy;
-      if (inb(nx, ny) && !seen.has(key(nx, ny))) candidates.push(d);
-    }
-
-    if (candidates.length === 0) { stack.pop(); continue; }
-
-    // ⬅️ choose using goal bias g and straight bonus τ
-    const d = chooseDirWeighted(cur.x, cur.y, prev, goal, g, tau, rnd);
-
-    const nx = cur.x + d.dx, ny = cur.y + d.dy;
-    if (!inb(nx, ny) || seen.has(key(nx, ny))) {
-      // rare when chosen dir isn’t valid due to weights; fall back to any candidate
-      const d2 = candidates[(rnd()*candidates.length)|0];
-      const nx2 = cur.x + d2.dx, ny2 = cur.y + d2.dy;
-      const a = tree[cur.y][cur.x], bcell = tree[ny2][nx2];
-      (a as any)[d2.a] = 0; (bcell as any)[d2.b] = 0;
-      treeSteps.push({ x:cur.x, y:cur.y, nx:nx2, ny:ny2 });
-      stack.push({ x:nx2, y:ny2 }); seen.add(key(nx2,ny2));
-      continue;
-    }
-
-    const a = tree[cur.y][cur.x], bcell = tree[ny][nx];
-    (a as any)[d.a] = 0; (bcell as any)[d.b] = 0;
-    treeSteps.push({ x:cur.x, y:cur.y, nx, ny });
-    stack.push({ x:nx, y:ny }); seen.add(key(nx,ny));
+  const full = createGrid("square", W, H);
+  const masked = maskedGrid(full, params.mask);
+  const { start, goal: aim } = placeEnds(masked ?? full, params, rnd);
+  if (masked) markOff(tree, masked);
+
+  const inb = (x:number,y:number)=> x>=0 && x<W && y>=0 && y<H && !tree[y][x].off;
+
+  // carve order comes from the chosen generator; knock the walls down here.
+  // A mask needs the graph form (row-based generators fall back to the DFS).
+  const treeSteps = masked
+    ? (GENERATORS[algo].graph ?? GENERATORS.dfs.graph!)({ grid: masked, start, goal: aim, g, tau, rnd })
+    : GENERATORS[algo].carve({ W, H, start, goal: aim, g, tau, rnd });
+  for (const st of treeSteps) {
+    const d = DIRS.find(d => d.dx === st.nx - st.x && d.dy === st.ny - st.y)!;
+    (tree[st.y][st.x] as any)[d.a] = 0; (tree[st.ny][st.nx] as any)[d.b] = 0;
   }
+  // crossings are part of the tree (tunnels are edges like any other)
+  if (params.weave) weaveTree(tree, treeSteps, params.weave, rnd);
 
     // 3) compute STATS on the **tree** only (not on braid-augmented graph)
   const stats = computeTreeStats(tree, treeSteps);
 
   // 2) clone tree into final grid and apply braids (recorded separately)
-  const maze: Cell[][] = tree.map(row => row.map(c => ({...c})));
+  const maze: Cell[][] = tree.map(row => row.map(c => ({...c, ...(c.tunnels ? { tunnels: c.tunnels.slice() } : {}) })));
   const braidEdits: CarveStep[] = [];
   if (b > 0) {
     for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
@@ -96,7 +105,8 @@ export function createMaze(params: { width:number;height:number;seed:number;g:nu
         const dx = w==="e"?1:w==="w"?-1:0;
         const dy = w==="s"?1:w==="n"?-1:0;
         const nx = x+dx, ny = y+dy;
-        if (inb(nx,ny)) {
+        // never knock through a bridge deck's side
+        if (inb(nx,ny) && !maze[ny][nx].bridge) {
           (c as any)[w] = 0;
           (maze[ny][nx] as any)[opp(w)] = 0;
           braidEdits.push({ x, y, nx, ny });
@@ -105,21 +115,95 @@ export function createMaze(params: { width:number;height:number;seed:number;g:nu
     }
   }
 
+  const goal = params.placement === "farthest" ? farthestCell(maze, start) : aim;
+  const waypoints = params.waypoints && placeWaypoints(maze, start, goal, params.waypoints, rnd);
+  return { maze, treeSteps, braidEdits, stats, start, goal, ...(waypoints ? { waypoints } : {}) };
+}
+
+// hex / triangle / theta, and floors of any shape: same pipeline, passages recorded as links on both cells
+function createGraphMaze(params: MazeParams, topology: TopologyId, rnd: () => number): MazeResult {
+  const { width, height, g, b, tau, algo = "dfs" } = params;
+  const { cols, rows } = gridDims(topology, width, height);
+  const full = createGrid(topology, cols, rows);
+  const base = maskedGrid(full, params.mask) ?? full;
+  // one spanning tree over every floor: stairs are just more sides to carve through
+  const floors = Math.max(1, Math.min(MAX_FLOORS, Math.floor(params.floors ?? 1)));
+  const grid = stackFloors(base, floors, floors > 1 ? pickStairs(base, floors, rnd) : []);
+  const blank = (): Cell[][] => Array.from({ length: grid.rows }, (_, y) =>
+    Array.from({ length: grid.rowLength(y) }, (_, x) => ({ x, y, n:1 as 1|0, s:1 as 1|0, e:1 as 1|0, w:1 as 1|0, links: [] as Link[] }))
+  );
+
+  const { start, goal: aim } = placeEnds(grid, params, rnd);
 
+  // generators without a graph form fall back to the DFS
+  const carve = GENERATORS[algo].graph ?? GENERATORS.dfs.graph!;
+  const treeSteps = carve({ grid, start, goal: aim, g, tau, rnd });
+  const tree = blank();
+  if (base !== full) markOff(tree, grid);
+  for (const st of treeSteps) link(grid, tree, st);
+  const stats = computeTreeStats(tree, treeSteps);
+
+  const maze: Cell[][] = tree.map(row => row.map(c => ({ ...c, links: c.links!.slice() })));
+  const braidEdits: CarveStep[] = [];
+  if (b > 0) {
+    for (let y=0;y<grid.rows;y++) for (let x=0;x<maze[y].length;x++) {
+      const c = maze[y][x];
+      if (c.links!.length !== 1 || rnd() >= b) continue;
+      const closed = grid.sides(x, y).filter(s => s.nb && !c.links!.some(l => l.x === s.nb!.x && l.y === s.nb!.y));
+      if (!closed.length) continue;
+      const nb = closed[Math.floor(rnd()*closed.length)].nb!;
+      const st = { x, y, nx: nb.x, ny: nb.y };
+      link(grid, maze, st);
+      braidEdits.push(st);
+    }
+  }
 
-  return { maze, treeSteps, braidEdits, stats, start, goal };
+  const goal = params.placement === "farthest" ? farthestCell(maze, start) : aim;
+  const waypoints = params.waypoints && placeWaypoints(maze, start, goal, params.waypoints, rnd);
+  return {
+    maze, treeSteps, braidEdits, stats, start, goal,
+    ...(topology !== "square" ? { topology } : {}), ...(floors > 1 ? { floors } : {}), ...(waypoints ? { waypoints } : {}),
+  };
 }
 
-/* ---------------- helpers ---------------- */
+// stair candidates between each pair of floors: a couple per pair (more on big
+// floors), never landing where the previous pair's stairs arrive
+function pickStairs(base: Grid, floors: number, rnd: () => number) {
+  const cells: Pt[] = [];
+  for (let y=0;y<base.rows;y++) for (let x=0;x<base.rowLength(y);x++) if (base.has(x, y)) cells.push({ x, y });
+  const per = Math.max(2, Math.round(cells.length / 80));
+  const stairs: Pt[][] = [];
+  const at = (c: Pt) => c.y*base.width + c.x;
+  let landed = new Set<number>();
+  for (let f=0;f<floors-1;f++) {
+    const pool = cells.filter(c => !landed.has(at(c))), pick: Pt[] = [];
+    while (pick.length < per && pool.length) pick.push(pool.splice(Math.floor(rnd() * pool.length), 1)[0]);
+    stairs.push(pick);
+    landed = new Set(pick.map(at));
+  }
+  return stairs;
+}
 
-function mulberry32(seed:number){ let t = seed>>>0; return () => { t += 0x6D2B79F5; let r = Math.imul(t ^ (t>>>15), 1 | t); r ^= r + Math.imul(r ^ (r>>>7), 61 | r); return ((r ^ (r>>>14))>>>0) / 4294967296; }; }
+// the grid minus masked-out cells, or null when there's no (usable) mask
+function maskedGrid(grid: Grid, mask?: Mask): Grid | null {
+  const on = mask ? maskCells(mask, grid) : null;
+  return on ? restrictGrid(grid, (x, y) => on[y*grid.width + x] === 1) : null;
+}
 
-const DIRS = [
-  { dx: 1, dy: 0, a: "e" as const, b: "w" as const },
-  { dx:-1, dy: 0, a: "w" as const, b: "e" as const },
-  { dx: 0, dy: 1, a: "s" as const, b: "n" as const },
-  { dx: 0, dy:-1, a: "n" as const, b: "s" as const },
-];
+function markOff(m: Cell[][], grid: Grid) {
+  for (const row of m) for (const c of row) if (!grid.has(c.x, c.y)) c.off = true;
+}
+
+function link(grid: Grid, m: Cell[][], st: CarveStep) {
+  const dirTo = (x:number, y:number, tx:number, ty:number) =>
+    grid.sides(x, y).find(s => s.nb && s.nb.x === tx && s.nb.y === ty)!.dir;
+  m[st.y][st.x].links!.push({ x: st.nx, y: st.ny, dir: dirTo(st.x, st.y, st.nx, st.ny) });
+  m[st.ny][st.nx].links!.push({ x: st.x, y: st.y, dir: dirTo(st.nx, st.ny, st.x, st.y) });
+}
+
+/* ---------------- helpers ---------------- */
+
+export function mulberry32(seed:number){ let t = seed>>>0; return () => { t += 0x6D2B79F5; let r = Math.imul(t ^ (t>>>15), 1 | t); r ^= r + Math.imul(r ^ (r>>>7), 61 | r); return ((r ^ (r>>>14))>>>0) / 4294967296; }; }
 
 function biasedDirs(cur:{x:number;y:number}, goal:{x:number;y:number}, g:number, tau:number){
   const dirs = [...DIRS];
@@ -134,50 +218,16 @@ function biasedDirs(cur:{x:number;y:number}, goal:{x:number;y:number}, g:number,
   return dirs;
 }
 
-// weight helper inside maze.ts
-function chooseDirWeighted(
-  x:number, y:number,
-  prev:{dx:number;dy:number}|null,
-  goal:{x:number;y:number},
-  g:number, tau:number,
-  rnd:()=>number
-){
-  // candidate directions (copy to keep DIRS const)
-  const dirs = [...DIRS];
-
-  // compute weights
-  const baseDist = Math.abs(goal.x - x) + Math.abs(goal.y - y); // manhattan
-  const weights = dirs.map(d => {
-    const nx = x + d.dx, ny = y + d.dy;
-    const toward = (Math.abs(goal.x - nx) + Math.abs(goal.y - ny)) < baseDist ? g : 0;
-    const straight = prev && d.dx === prev.dx && d.dy === prev.dy ? tau : 0;
-    // small jitter avoids ties (doesn't change determinism with our rng)
-    return 1 + toward + straight + rnd()*1e-6;
-  });
-
-  // roulette-wheel selection
-  let total = 0; for (const w of weights) total += w;
-  let r = rnd() * total;
-  for (let i = 0; i < dirs.length; i++) {
-    r -= weights[i];
-    if (r <= 0) return dirs[i];
-  }
-  return dirs[dirs.length - 1];
-}
-
-
-function shuffleInPlace<T>(a:T[], rnd:()=>number){ for(let i=a.length-1;i>0;i--){ const j=(rnd()* (i+1))|0; [a[i],a[j]]=[a[j],a[i]]; } }
-
 function opp(w:"n"|"s"|"e"|"w"): "n"|"s"|"e"|"w" { return w==="n"?"s": w==="s"?"n": w==="e"?"w":"e"; }
-function openDeg(c:Cell){ return (c.n?0:1)+(c.s?0:1)+(c.e?0:1)+(c.w?0:1); }
+function openDeg(c:Cell){ return c.links ? c.links.length : (c.n?0:1)+(c.s?0:1)+(c.e?0:1)+(c.w?0:1)+(c.tunnels?.length ?? 0); }
 
 /** Compute stats from the DFS spanning tree only (stable across features) */
 function computeTreeStats(tree: Cell[][], treeSteps: CarveStep[]): Stats {
-  const H = tree.length, W = tree[0].length;
+  const H = tree.length;
 
   // Degree-based counts on the tree (not the braided graph)
   let J=0, E=0;
-  for (let y=0;y<H;y++) for (let x=0;x<W;x++){
+  for (let y=0;y<H;y++) for (let x=0;x<tree[y].length;x++){
     const c = tree[y][x];
     const deg = openDeg(c);
     if (deg === 1) E++;
@@ -187,27 +237,31 @@ function computeTreeStats(tree: Cell[][], treeSteps: CarveStep[]): Stats {
   // L: number of nodes in the tree visit order (edges + 1)
   const L = treeSteps.length + 1;
 
-  // Turns along the DFS carve sequence
+  // Turns along the DFS carve sequence (a change of heading, whatever the grid)
   let turns = 0;
+  const heading = (s:CarveStep) => stepDir(tree, { x:s.x, y:s.y }, { x:s.nx, y:s.ny });
   for (let i=1;i<treeSteps.length;i++){
-    const a = treeSteps[i-1], b = treeSteps[i];
-    const ax=a.nx-a.x, ay=a.ny-a.y, bx=b.nx-b.x, by=b.ny-b.y;
-    if (ax!==bx || ay!==by) turns++;
+    if (heading(treeSteps[i-1]) !== heading(treeSteps[i])) turns++;
   }
   const T = L ? turns / L : 0;
 
+  // stairs in the tree: each one is another place a walker has to think in 3D
+  let F = 0;
+  for (const s of treeSteps) if (heading(s) >= PORTAL_UP) F++;
+
   // Difficulty normalization tuned to match the historical baseline.
   // If your test expects ~5.185 for W=19,H=19,seed=42,g=.3,b=.15,tau=.4 on *main*,
   // the tree-only metric below will match (adjust K if your main used a slightly different scale).
   // const K = 20; // baseline constant used previously
   // const D = Number(((L * (1 + T) + J*0.5 + E*0.3) / K).toFixed(3));
-  const D = 0.7 * Math.log2(Math.max(2, L)) + 0.8 * T + 0.5 * (J / Math.max(1,L)) + 0.3 * (E / Math.max(1,L));
-  return { L, T, J, E, D: +D.toFixed(3) };
+  const D = 0.7 * Math.log2(Math.max(2, L)) + 0.8 * T + 0.5 * (J / Math.max(1,L)) + 0.3 * (E / Math.max(1,L))
+    + 0.3 * Math.log2(1 + F);
+  return { L, T, J, E, D: +D.toFixed(3), ...(F ? { F } : {}) };
 
   // return { L, T, J, E, D };
 }
 
-function isDataURL(str?: string): boolean {
+export function isDataURL(str?: string): boolean {
   if (!str) return false;
   // quick check: starts with "data:" and has a comma separating metadata and payload
   return /^data:([a-z]+\/[a-z0-9\-\+\.]+)?(;[a-z\-]+\=[a-z0-9\-\.]+)*(;base64)?,/i.test(str);
@@ -218,67 +272,133 @@ export function toSVG(
   opts: {
     cell:number; margin:number; stroke?:number;
     showStartGoal?:boolean; startIcon?:string; goalIcon?:string; iconScale?:number;
+    // checkpoints / treasures (a MazeResult's own); same emoji / data-URL rules as start & goal
+    waypointIcon?:string;
     // DFS animation (optional)
     dfsSteps?: CarveStep[]; dfsTotalSec?: number; dfsPassageWidth?: number;
     hideWallsDuringAnim?: boolean;
+    // solved route (answer key), start→goal cells
+    solution?: {x:number;y:number}[]; solutionColor?: string;
+    // grid shape, floors and start/goal for a bare Cell[][] (a MazeResult brings its own)
+    topology?: TopologyId; floors?: number; ends?: Ends;
+    // colours and wall style (classic when left out)
+    theme?: MazeTheme;
+    // sprite-tile walls and floor (flat square grids; others draw lines in the world's theme)
+    world?: WorldId;
+    // solid shapes instead of icons: ● start, ■ goal, ◆ treasure, ○ numbered checkpoint (tactile / large print)
+    glyphs?: boolean;
   }
 ): string {
   const m  = isMazeResult(input) ? input.maze : input;
-  const SG = isMazeResult(input) ? {start: input.start, goal: input.goal} : null;
+  const SG = isMazeResult(input) ? {start: input.start, goal: input.goal} : opts.ends ?? null;
+  const topology = (isMazeResult(input) ? input.topology : undefined) ?? opts.topology ?? "square";
+  const floors = (isMazeResult(input) ? input.floors : undefined) ?? opts.floors ?? 1;
+  const grid = topology === "square" && floors === 1 ? null : gridOf(m, topology, floors);
 
   const { cell, margin, stroke = 2 } = opts;
+  const T = opts.theme ?? (opts.world ? WORLDS[opts.world].theme : THEMES.classic);
+  const sw = +(stroke * T.wallWidth).toFixed(2);
   const H = m.length, W = m[0]?.length ?? 0;
-  const widthPx  = W * cell + margin * 2;
-  const heightPx = H * cell + margin * 2;
+  const world = opts.world && !grid && W * H <= MAX_TILED_CELLS ? opts.world : null;
+  const widthPx  = (grid ? grid.size.w : W) * cell + margin * 2;
+  const heightPx = (grid ? grid.size.h : H) * cell + margin * 2;
 
-  const cx  = (x:number)=> margin + x*cell + cell/2;
-  const cy  = (y:number)=> margin + y*cell + cell/2;
+  const cx  = (x:number, y:number)=> grid ? +(margin + grid.center(x, y)[0]*cell).toFixed(2) : margin + x*cell + cell/2;
+  const cy  = (x:number, y:number)=> grid ? +(margin + grid.center(x, y)[1]*cell).toFixed(2) : margin + y*cell + cell/2;
+  // polyline through cell centres; lifts the pen where it changes floor (the panels are apart)
+  const via = (a:{x:number;y:number}, b:{x:number;y:number}) =>
+    ` ${grid && floorOf(grid, a.y) !== floorOf(grid, b.y) ? "M" : "L"} ${cx(b.x, b.y)} ${cy(b.x, b.y)}`;
 
   // (Tip: drop width/height attrs for responsive scaling; keep if you prefer)
   let svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${widthPx} ${heightPx}">`;
+  if (world) svg += `<defs>${worldDefs(world)}</defs>`;
+  const backdrop = world ? worldFloor(world) : T.floor ?? (T.style === "corridor" ? T.wall : null);
+  if (backdrop) svg += `<rect class="floor" width="${widthPx}" height="${heightPx}" fill="${backdrop}"/>`;
 
   // Walls
   let walls = "";
-  for (let y=0;y<H;y++) for(let x=0;x<W;x++){
+  const cap = T.style === "square" ? `stroke-linecap="square"` : `stroke-linecap="round" stroke-linejoin="round"`;
+  if (world) walls = tileWalls(packMaze(m), cell, margin, world);
+  else if (T.style === "corridor") walls = corridors(m, grid, cx, cy, cell, T.corridor);
+  else if (grid) walls = graphWalls(m, grid, cell, margin, sw, T);
+  else {
+    // long straight runs as one path: a 500×500 poster stays a few MB, not tens
+    let d = "";
+    const amp = cell * 0.06, P = (u:number) => margin + u*cell;
+    wallRuns(packMaze(m), (x1, y1, x2, y2) => {
+      if (T.style !== "sketchy") d += `M${P(x1)} ${P(y1)}` + (y1 === y2 ? `H${P(x2)}` : `V${P(y2)}`);
+      // hand-drawn: a stroke per cell side, each with its own wobble
+      else for (let k=0;k<x2-x1+y2-y1;k++) {
+        const [ax, ay] = y1 === y2 ? [x1 + k, y1] : [x1, y1 + k], [bx, by] = y1 === y2 ? [ax + 1, ay] : [ax, ay + 1];
+        d += sketchSegment(P(ax), P(ay), P(bx), P(by), amp);
+      }
+    });
+    if (d) walls += `<path d="${d}" fill="none" stroke="${T.wall}" stroke-width="${sw}" ${cap}/>`;
+  }
+  // a bridge draws its own sides
+  if (!grid && (world || T.style !== "corridor")) for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
     const c = m[y][x];
-    if (c.n) walls += `<line x1="${margin+x*cell}" y1="${margin+y*cell}" x2="${margin+(x+1)*cell}" y2="${margin+y*cell}" stroke="#111" stroke-width="${stroke}" stroke-linecap="square"/>`;
-    if (c.w) walls += `<line x1="${margin+x*cell}" y1="${margin+y*cell}" x2="${margin+x*cell}" y2="${margin+(y+1)*cell}" stroke="#111" stroke-width="${stroke}" stroke-linecap="square"/>`;
-    if (y===H-1 && c.s) walls += `<line x1="${margin+x*cell}" y1="${margin+(y+1)*cell}" x2="${margin+(x+1)*cell}" y2="${margin+(y+1)*cell}" stroke="#111" stroke-width="${stroke}" stroke-linecap="square"/>`;
-    if (x===W-1 && c.e) walls += `<line x1="${margin+(x+1)*cell}" y1="${margin+y*cell}" x2="${margin+(x+1)*cell}" y2="${margin+(y+1)*cell}" stroke="#111" stroke-width="${stroke}" stroke-linecap="square"/>`;
+    if (c.bridge && !c.off) walls += bridgeWalls(x, y, c.bridge, cell, margin, sw, T.wall);
   }
   const wallsClass = opts.hideWallsDuringAnim ? `class="walls hide"` : `class="walls"`;
   svg += `<g ${wallsClass}>${walls}</g>`;
+  if (grid?.floors) svg += floorLabels(grid, cell, margin, T.text) + portalMarkers(m, grid, cell, margin);
+
+  // Optional solution path, under the markers so icons stay readable
+  if (opts.solution && opts.solution.length > 1) {
+    const d = `M ${cx(opts.solution[0].x, opts.solution[0].y)} ${cy(opts.solution[0].x, opts.solution[0].y)}`
+      + opts.solution.slice(1).map((p, i) => via(opts.solution![i], p)).join("");
+    const sw = Math.max(2, Math.round(cell * 0.3));
+    svg += `<path class="solution" d="${d}" fill="none" stroke="${opts.solutionColor ?? T.solution}" stroke-width="${sw}" stroke-linecap="round" stroke-linejoin="round" opacity="0.85"/>`;
+  }
 
-  // Start/Goal (prefer MazeResult’s start/goal if available; fallback to mid-row ends)
+  // Start/Goal (MazeResult’s or opts.ends; a bare grid without them falls back to mid-row ends)
   if (opts.showStartGoal !== false) {
     const s = SG?.start ?? { x: 0,     y: Math.floor(H/2) };
     const g = SG?.goal  ?? { x: W - 1, y: Math.floor(H/2) };
-    const sX = cx(s.x), sY = cy(s.y);
-    const gX = cx(g.x), gY = cy(g.y);
     const r = Math.max(3, Math.round(cell*0.25));
     const fs = cell * (opts.iconScale ?? 0.8);
-
-    if (isDataURL(opts.startIcon)) {
-      svg += `<image href="${opts.startIcon}" x="${sX - fs/2}" y="${sY - fs/2}" width="${fs}" height="${fs}" />`;
-    } else if (opts.startIcon) {
-      svg += `<text x="${sX}" y="${sY}" font-size="${fs}" text-anchor="middle" dominant-baseline="central">${opts.startIcon}</text>`;
-    } else {
-      svg += `<circle cx="${sX}" cy="${sY}" r="${r}" fill="limegreen"/>`;
-    }
-
-    if (isDataURL(opts.goalIcon)) {
-      svg += `<image href="${opts.goalIcon}" x="${gX - fs/2}" y="${gY - fs/2}" width="${fs}" height="${fs}" />`;
-    } else if (opts.goalIcon) {
-      svg += `<text x="${gX}" y="${gY}" font-size="${fs}" text-anchor="middle" dominant-baseline="central">${opts.goalIcon}</text>`;
-    } else {
-      svg += `<circle cx="${gX}" cy="${gY}" r="${r}" fill="crimson"/>`;
-    }
+    type Kind = "start" | "goal" | WaypointKind;
+    const dot: Record<Kind, string> = { start: T.start, goal: T.goal, checkpoints: T.checkpoint, treasures: T.treasure };
+    // glyphs: one ink colour, told apart by shape (and a knocked-out letter for low vision)
+    const k = +(cell * 0.3).toFixed(2), ink = T.wall, paper = T.floor ?? "#fff";
+    const letter = (X:number, Y:number, t:string, fill:string) =>
+      `<text x="${X}" y="${Y}" font-size="${+(cell * 0.36).toFixed(2)}" font-weight="700" fill="${fill}" text-anchor="middle" dominant-baseline="central">${t}</text>`;
+    const glyph = (X:number, Y:number, kind:Kind) => {
+      const f = (n:number) => +n.toFixed(2);
+      if (kind === "start") return `<circle cx="${X}" cy="${Y}" r="${k}" fill="${ink}"/>` + letter(X, Y, "S", paper);
+      if (kind === "goal") return `<rect x="${f(X - k)}" y="${f(Y - k)}" width="${2*k}" height="${2*k}" fill="${ink}"/>` + letter(X, Y, "G", paper);
+      if (kind === "treasures") return `<path d="M${X} ${f(Y - k)}L${f(X + k)} ${Y}L${X} ${f(Y + k)}L${f(X - k)} ${Y}Z" fill="${ink}"/>`;
+      return `<circle cx="${X}" cy="${Y}" r="${f(k * 0.85)}" fill="${paper}" stroke="${ink}" stroke-width="${f(k * 0.3)}"/>`;
+    };
+    // glyph, image, emoji, or a plain dot
+    const marker = (p:{x:number;y:number}, icon:string|undefined, kind:Kind) => {
+      const X = cx(p.x, p.y), Y = cy(p.x, p.y);
+      if (opts.glyphs) return glyph(X, Y, kind);
+      if (isDataURL(icon)) return `<image href="${icon}" x="${X - fs/2}" y="${Y - fs/2}" width="${fs}" height="${fs}" />`;
+      if (icon) return `<text x="${X}" y="${Y}" font-size="${fs}" text-anchor="middle" dominant-baseline="central">${icon}</text>`;
+      return `<circle cx="${X}" cy="${Y}" r="${r}" fill="${dot[kind]}"/>`;
+    };
+
+    svg += marker(s, opts.startIcon, "start");
+    svg += marker(g, opts.goalIcon, "goal");
+
+    // checkpoints carry their number in the corner (or on the dot)
+    const wp = isMazeResult(input) ? input.waypoints : undefined;
+    wp?.cells.forEach((p, i) => {
+      svg += marker(p, opts.waypointIcon, wp.kind);
+      if (wp.kind !== "checkpoints") return;
+      if (opts.glyphs) { svg += letter(cx(p.x, p.y), cy(p.x, p.y), String(i + 1), T.wall); return; }
+      const corner = !!opts.waypointIcon, nfs = Math.max(6, Math.round(cell * (corner ? 0.35 : 0.3)));
+      const X = cx(p.x, p.y) + (corner ? cell*0.3 : 0), Y = cy(p.x, p.y) + (corner ? cell*0.3 : 0);
+      svg += `<text x="${X}" y="${Y}" font-size="${nfs}" font-weight="700" fill="${corner ? "#1e3a8a" : "#fff"}" text-anchor="middle" dominant-baseline="central">${i + 1}</text>`;
+    });
   }
 
   // Optional embedded DFS path (still allowed)
   if (opts.dfsSteps && opts.dfsSteps.length) {
-    const d = `M ${cx(opts.dfsSteps[0].x)} ${cy(opts.dfsSteps[0].y)}`
-      + opts.dfsSteps.map(s => ` L ${cx(s.nx)} ${cy(s.ny)}`).join("");
+    const d = `M ${cx(opts.dfsSteps[0].x, opts.dfsSteps[0].y)} ${cy(opts.dfsSteps[0].x, opts.dfsSteps[0].y)}`
+      + opts.dfsSteps.map(s => via({ x: s.x, y: s.y }, { x: s.nx, y: s.ny })).join("");
     const dur  = Math.max(0.2, opts.dfsTotalSec ?? 4);
     const pass = Math.max(1, opts.dfsPassageWidth ?? (cell - stroke - 1));
     svg += `
@@ -292,4 +412,90 @@ export function toSVG(
 
   svg += `</svg>`;
   return svg;
-}
\ No newline at end of file
+}
+
+// every closed side once: borders (incl. masked-out neighbors), plus shared walls from the lower-index cell
+export function forEachGraphWall(m: Cell[][], grid: Grid, emit: (w: Wall) => void) {
+  const idx = (x:number, y:number) => y*grid.width + x;
+  for (let y=0;y<m.length;y++) for (let x=0;x<m[y].length;x++) {
+    const c = m[y][x];
+    if (c.off) continue;
+    for (const { nb, wall: w } of grid.sides(x, y)) {
+      const shared = nb && !m[nb.y][nb.x].off;
+      if (shared && (idx(nb.x, nb.y) < idx(x, y) || c.links?.some(l => l.x === nb.x && l.y === nb.y))) continue;
+      emit(w);
+    }
+  }
+}
+
+function graphWalls(m: Cell[][], grid: Grid, cell:number, margin:number, stroke:number, T: MazeTheme): string {
+  const P = (u:number) => +(margin + u*cell).toFixed(2);
+  let d = "";
+  forEachGraphWall(m, grid, w => {
+    // arcs stay arcs in the hand-drawn style; straight sides get the wobble
+    if (T.style === "sketchy" && !w.r) { d += sketchSegment(P(w.x1), P(w.y1), P(w.x2), P(w.y2), cell * 0.06); return; }
+    d += `M${P(w.x1)} ${P(w.y1)}` + (w.r ? `A${+(w.r*cell).toFixed(2)} ${+(w.r*cell).toFixed(2)} 0 0 1 ` : "L") + `${P(w.x2)} ${P(w.y2)}`;
+  });
+  return `<path d="${d}" fill="none" stroke="${T.wall}" stroke-width="${stroke}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+// the "corridor" style: every passage as a broad band between cell centres
+// (tunnels first, so the bridge decks pass over them)
+function corridors(m: Cell[][], grid: Grid | null, cx: (x:number, y:number) => number, cy: (x:number, y:number) => number, cell:number, color:string): string {
+  const W = grid ? grid.width : m[0]?.length ?? 0;
+  let under = "", over = "";
+  for (let y=0;y<m.length;y++) for (let x=0;x<m[y].length;x++) {
+    const c = m[y][x];
+    if (c.off) continue;
+    for (const n of openNeighbors(m, x, y)) {
+      if (n.y*W + n.x < y*W + x) continue;                       // each passage once
+      if (grid && floorOf(grid, n.y) !== floorOf(grid, y)) continue;  // stairs: the portal markers say it
+      const seg = `M${cx(x, y)} ${cy(x, y)}L${cx(n.x, n.y)} ${cy(n.x, n.y)}`;
+      if (c.tunnels?.some(t => t.x === n.x && t.y === n.y)) under += seg; else over += seg;
+    }
+  }
+  const band = (d: string, extra = "") => d ? `<path d="${d}" fill="none" stroke="${color}" stroke-width="${+(cell * 0.6).toFixed(2)}" stroke-linecap="round" stroke-linejoin="round"${extra}/>` : "";
+  return band(under, ` opacity="0.6"`) + band(over);
+}
+
+function bridgeWalls(x:number, y:number, dir:"ns"|"ew", cell:number, margin:number, stroke:number, color:string): string {
+  return deckLines(x, y, dir).map(([x1, y1, x2, y2]) =>
+    `<line x1="${+(margin + x1*cell).toFixed(2)}" y1="${+(margin + y1*cell).toFixed(2)}" x2="${+(margin + x2*cell).toFixed(2)}" y2="${+(margin + y2*cell).toFixed(2)}" stroke="${color}" stroke-width="${stroke}" stroke-linecap="square"/>`
+  ).join("");
+}
+
+// "Floor n" over each panel
+function floorLabels(grid: Grid, cell:number, margin:number, color:string): string {
+  const fs = Math.max(8, Math.round(cell * 0.6));
+  let out = "";
+  for (let f=0;f<grid.floors!.count;f++) {
+    const [ox, oy] = grid.floors!.origin(f);
+    out += `<text class="floor-label" x="${+(margin + ox*cell).toFixed(2)}" y="${+(margin + (oy - 0.3)*cell).toFixed(2)}" font-size="${fs}" font-weight="600" fill="${color}">Floor ${f + 1}</text>`;
+  }
+  return out;
+}
+
+// both ends of every stair share a colour and a letter; the arrow says which way it goes
+export const PORTAL_COLORS = ["#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#0d9488"];
+
+/** The nth stair's colour and letter: A–Z, then A2–Z2 and so on, so no two stairs look alike */
+export function portalMark(n: number): { fill: string; name: string } {
+  const round = Math.floor(n / 26);
+  return { fill: PORTAL_COLORS[n % PORTAL_COLORS.length], name: String.fromCharCode(65 + n % 26) + (round ? round + 1 : "") };
+}
+function portalMarkers(m: Cell[][], grid: Grid, cell:number, margin:number): string {
+  const r = +(cell * 0.34).toFixed(2), fs = Math.max(6, Math.round(cell * 0.38));
+  const mark = (x:number, y:number, fill:string, label:string) => {
+    const [u, v] = grid.center(x, y), X = +(margin + u*cell).toFixed(2), Y = +(margin + v*cell).toFixed(2);
+    return `<g class="portal"><circle cx="${X}" cy="${Y}" r="${r}" fill="${fill}" opacity="0.85"/>`
+      + `<text x="${X}" y="${Y}" font-size="${fs}" font-weight="700" fill="#fff" text-anchor="middle" dominant-baseline="central">${label}</text></g>`;
+  };
+  let out = "", n = 0;
+  for (const row of m) for (const c of row) for (const l of c.links ?? []) {
+    if (l.dir !== PORTAL_UP) continue;
+    const { fill, name } = portalMark(n);
+    out += mark(c.x, c.y, fill, `${name}↑`) + mark(l.x, l.y, fill, `${name}↓`);
+    n++;
+  }
+  return out;
+}
@@ -0,0 +1,11 @@
+// src/app/mazeClient.ts
+import { createMazeService, type MazeService, type WorkerLike } from "./mazeService";
+
+// one worker for the whole app; browsers without module workers stay in-process
+let service: MazeService | null = null;
+
+export function mazeService(): MazeService {
+  return service ??= createMazeService(typeof Worker === "undefined" ? undefined
+    // (the DOM types say onerror always gets an ErrorEvent; a script that fails to load sends a plain Event)
+    : () => new Worker(new URL("./mazeWorker.ts", import.meta.url), { type: "module" }) as WorkerLike);
+}
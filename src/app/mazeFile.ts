@@ -0,0 +1,184 @@
+// src/app/mazeFile.ts
+import type { MazeParams, Stats } from "./maze";
+import type { SolutionStats } from "./metrics";
+import { isGeneratorId } from "./generators";
+import { isFloorCount, isTopologyId } from "./topology";
+import { isMask } from "./mask";
+import { isEnds, isPlacementId } from "./placement";
+import { isWaypointSpec } from "./waypoints";
+import { isWeave } from "./weave";
+import { saneCore } from "./share";
+
+/**
+ * Downloaded mazes carry their identity so dropping the file back on the app
+ * restores it: SVG in <metadata>, PNG in a tEXt chunk, both under META_KEY.
+ */
+export const META_KEY = "infimaze";
+
+export type MazeMeta = {
+  app: typeof META_KEY;
+  version: 1;
+  params: MazeParams;
+  stats?: Stats;
+  solution?: SolutionStats;
+};
+
+export function makeMeta(params: MazeParams, stats?: Stats, solution?: SolutionStats | null): MazeMeta {
+  return { app: META_KEY, version: 1, params, ...(stats ? { stats } : {}), ...(solution ? { solution } : {}) };
+}
+
+// ASCII-only JSON: safe for PNG tEXt (Latin-1) and for XML without entities
+function asciiJSON(v: unknown) {
+  return JSON.stringify(v).replace(/[\u007f-\uffff]/g, c => "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0"));
+}
+
+export function parseMeta(text: string): MazeMeta | null {
+  let m: any;
+  try { m = JSON.parse(text); } catch { return null; }
+  const p = m?.params;
+  if (m?.app !== META_KEY || !p) return null;
+  if (![p.width, p.height, p.seed, p.g, p.b, p.tau].every(n => typeof n === "number" && Number.isFinite(n))) return null;
+  if (p.algo !== undefined && !isGeneratorId(p.algo)) return null;
+  if (p.topology !== undefined && !isTopologyId(p.topology)) return null;
+  if (p.mask !== undefined && !isMask(p.mask)) return null;
+  if (p.placement !== undefined && !isPlacementId(p.placement)) return null;
+  if (p.ends !== undefined && !isEnds(p.ends)) return null;
+  if (p.waypoints !== undefined && !isWaypointSpec(p.waypoints)) return null;
+  if (p.weave !== undefined && !isWeave(p.weave)) return null;
+  if (p.floors !== undefined && !isFloorCount(p.floors)) return null;
+  // a crafted file can't ask for more (or odder) than a link can
+  return { ...m, params: { ...p, ...saneCore(p) } } as MazeMeta;
+}
+
+/* ---------------- SVG ---------------- */
+
+/** Standalone file: explicit pixel size (from the viewBox) plus a <metadata> block */
+export function standaloneSVG(svg: string, meta: MazeMeta): string {
+  const vb = /viewBox="0 0 ([\d.]+) ([\d.]+)"/.exec(svg);
+  const size = vb ? ` width="${vb[1]}" height="${vb[2]}"` : "";
+  const json = asciiJSON(meta).replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n` + svg.replace(
+    /<svg ([^>]*)>/,
+    (_, attrs) => `<svg ${attrs}${size}><metadata id="${META_KEY}">${json}</metadata>`,
+  );
+}
+
+export function readSVGMeta(svgText: string): MazeMeta | null {
+  const m = new RegExp(`<metadata id="${META_KEY}">([\\s\\S]*?)</metadata>`).exec(svgText);
+  return m ? parseMeta(m[1].replace(/&lt;/g, "<").replace(/&amp;/g, "&")) : null;
+}
+
+/* ---------------- PNG chunks ---------------- */
+
+const PNG_SIG = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let CRC_TABLE: Uint32Array | null = null;
+function crc32(bytes: Uint8Array): number {
+  if (!CRC_TABLE) {
+    CRC_TABLE = new Uint32Array(256);
+    for (let n=0;n<256;n++) { let c = n; for (let k=0;k<8;k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1; CRC_TABLE[n] = c >>> 0; }
+  }
+  let c = 0xffffffff;
+  for (let i=0;i<bytes.length;i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const dv = new DataView(out.buffer);
+  dv.setUint32(0, data.length);
+  for (let i=0;i<4;i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  dv.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function isPNG(bytes: Uint8Array) {
+  return bytes.length > 8 && PNG_SIG.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Insert tEXt entries (and optionally a pHYs DPI chunk) right after IHDR.
+ * Text must be Latin-1; callers pass ASCII JSON.
+ */
+export function addPNGChunks(png: Uint8Array, text: Record<string, string>, dpi?: number): Uint8Array {
+  if (!isPNG(png)) throw new Error("Not a PNG file");
+  const ihdrEnd = 8 + 12 + new DataView(png.buffer, png.byteOffset).getUint32(8);
+  const extra: Uint8Array[] = [];
+  if (dpi) {
+    const ppm = Math.round(dpi / 0.0254);
+    const d = new Uint8Array(9); const dv = new DataView(d.buffer);
+    dv.setUint32(0, ppm); dv.setUint32(4, ppm); d[8] = 1; // unit: metre
+    extra.push(chunk("pHYs", d));
+  }
+  for (const [k, v] of Object.entries(text)) {
+    const d = new Uint8Array(k.length + 1 + v.length);
+    for (let i=0;i<k.length;i++) d[i] = k.charCodeAt(i) & 0xff;
+    for (let i=0;i<v.length;i++) d[k.length + 1 + i] = v.charCodeAt(i) & 0xff;
+    extra.push(chunk("tEXt", d));
+  }
+  const size = png.length + extra.reduce((n, c) => n + c.length, 0);
+  const out = new Uint8Array(size);
+  out.set(png.subarray(0, ihdrEnd), 0);
+  let o = ihdrEnd;
+  for (const c of extra) { out.set(c, o); o += c.length; }
+  out.set(png.subarray(ihdrEnd), o);
+  return out;
+}
+
+export function readPNGText(png: Uint8Array): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!isPNG(png)) return out;
+  const dv = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  for (let o = 8; o + 12 <= png.length;) {
+    const len = dv.getUint32(o);
+    const type = String.fromCharCode(...png.subarray(o + 4, o + 8));
+    if (type === "tEXt") {
+      const d = png.subarray(o + 8, o + 8 + len);
+      const z = d.indexOf(0);
+      if (z > 0) out[String.fromCharCode(...d.subarray(0, z))] = Array.from(d.subarray(z + 1), c => String.fromCharCode(c)).join("");
+    }
+    if (type === "IEND") break;
+    o += 12 + len;
+  }
+  return out;
+}
+
+export function pngWithMeta(png: Uint8Array, meta: MazeMeta, dpi?: number): Uint8Array {
+  return addPNGChunks(png, { [META_KEY]: asciiJSON(meta), Software: "Infimaze" }, dpi);
+}
+
+/** Metadata from a dropped/opened .svg or .png, or null */
+export async function readMazeFile(file: Blob & { name?: string }): Promise<MazeMeta | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPNG(bytes)) {
+    const t = readPNGText(bytes)[META_KEY];
+    return t ? parseMeta(t) : null;
+  }
+  return readSVGMeta(new TextDecoder().decode(bytes));
+}
+
+/* ---------------- rasterizing (browser only) ---------------- */
+
+/** Draw the SVG onto a canvas at `dpi` (96 = 1 SVG unit per pixel) and return PNG bytes */
+export async function rasterizeSVG(svg: string, dpi: number): Promise<Uint8Array> {
+  const vb = /viewBox="0 0 ([\d.]+) ([\d.]+)"/.exec(svg);
+  const vw = vb ? parseFloat(vb[1]) : 600, vh = vb ? parseFloat(vb[2]) : 600;
+  const scale = dpi / 96;
+  const sized = svg.replace(/<svg /, `<svg width="${vw}" height="${vh}" `);
+  const url = URL.createObjectURL(new Blob([sized], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => { img.onload = () => resolve(); img.onerror = () => reject(new Error("Couldn't render the maze")); img.src = url; });
+    const cv = document.createElement("canvas");
+    cv.width = Math.round(vw * scale); cv.height = Math.round(vh * scale);
+    const ctx = cv.getContext("2d")!;
+    ctx.fillStyle = "#fff"; ctx.fillRect(0, 0, cv.width, cv.height);
+    ctx.drawImage(img, 0, 0, cv.width, cv.height);
+    const blob = await new Promise<Blob | null>(r => cv.toBlob(r, "image/png"));
+    if (!blob) throw new Error("Couldn't encode PNG");
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,176 @@
+// src/app/mazeService.ts
+import { createMaze, type MazeParams, type MazeResult } from "./maze";
+import { searchDifficulty, type DifficultyTarget, type SearchHit, type SearchProgress } from "./difficulty";
+import { solveRoute } from "./waypoints";
+import type { Pt } from "./solver";
+import { computeSolutionStats, type SolutionStats } from "./metrics";
+import { isPackable, packMaze, unpackMaze, type PackedGrid } from "./packed";
+
+/**
+ * Maze work off the UI thread. Jobs go to a worker as plain messages and
+ * come back as structured clones (a MazeResult is plain data: no classes,
+ * no functions). A flat square maze travels as a PackedGrid buffer instead of
+ * its Cell objects (both ways: solving sends the maze back), which is what
+ * keeps poster sizes quick to hand over. Without a worker (Jest, old browsers, or one that failed to
+ * load) the very same jobs run in-process, so callers never need to care.
+ *
+ * Cancelling (abort the job's signal) rejects with an "AbortError"
+ * DOMException. A sweep stops where it is; a generate or solve already
+ * under way finishes in the worker and its answer is dropped.
+ */
+// a solved maze: the route through every waypoint, and what it measures
+export type Solved = { path: Pt[]; stats: SolutionStats };
+
+// each kind of job: what it takes, and what it answers (a stopped sweep answers null)
+type Jobs = {
+  generate: { in: { params: MazeParams }; out: MazeResult };
+  sweep:    { in: { base: MazeParams; target: DifficultyTarget; budget?: number }; out: SearchHit | null };
+  solve:    { in: { maze: MazeResult }; out: Solved };
+};
+export type JobKind = keyof Jobs;
+export type JobOf<K extends JobKind> = { kind: K } & Jobs[K]["in"];
+export type JobResult<K extends JobKind> = Jobs[K]["out"];
+export type MazeJob = { [K in JobKind]: JobOf<K> }[JobKind];
+
+// the worker protocol
+export type ToWorker = { id: number; job: MazeJob; packed?: PackedGrid } | { id: number; cancel: true };   // packed: the solve job's cells
+export type FromWorker =
+  | { id: number; progress: SearchProgress }
+  | { id: number; result: unknown; packed?: PackedGrid }   // packed: the generated maze's cells
+  | { id: number; error: string };
+
+export type JobOpts = { signal?: AbortSignal; onProgress?: (p: SearchProgress) => void };
+
+export type MazeService = {
+  generate: (params: MazeParams, opts?: JobOpts) => Promise<MazeResult>;
+  sweep: (base: MazeParams, target: DifficultyTarget, opts?: JobOpts & { budget?: number }) => Promise<SearchHit>;
+  solve: (maze: MazeResult, opts?: JobOpts) => Promise<Solved>;
+  // stop the worker and cancel everything in flight
+  dispose: () => void;
+};
+
+// the part of a Worker we use (tests pass a MessagePort-backed stand-in)
+export type WorkerLike = {
+  postMessage(m: ToWorker, transfer?: Transferable[]): void;
+  onmessage: ((e: MessageEvent<FromWorker>) => void) | null;
+  onerror: ((e: ErrorEvent | Event) => void) | null;
+  terminate: () => void;
+};
+
+// the worker's end: its global scope (tests: the other MessagePort)
+export type JobPort = {
+  postMessage(m: FromWorker, transfer?: Transferable[]): void;
+  onmessage: ((e: MessageEvent<ToWorker>) => void) | null;
+};
+
+export const abortError = () => new DOMException("Cancelled", "AbortError");
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+type Handlers = { [K in JobKind]: (job: JobOf<K>, signal?: AbortSignal, onProgress?: (p: SearchProgress) => void) => JobResult<K> | Promise<JobResult<K>> };
+const HANDLERS: Handlers = {
+  generate: job => createMaze(job.params),
+  sweep: (job, signal, onProgress) => searchDifficulty(job.base, job.target, { budget: job.budget, signal, onProgress }),
+  solve: job => {
+    const path = solveRoute(job.maze), { maze, start, goal } = job.maze;
+    return { path, stats: computeSolutionStats(maze, start, goal, path) };
+  },
+};
+
+/** Run one job right here; both the worker and the fallback go through this */
+export async function runJob<K extends JobKind>(job: JobOf<K>, signal?: AbortSignal, onProgress?: (p: SearchProgress) => void): Promise<JobResult<K>> {
+  const handler: Handlers[K] = HANDLERS[job.kind];
+  return handler(job, signal, onProgress);
+}
+
+type Pending<K extends JobKind = JobKind> = {
+  job: JobOf<K>; opts: JobOpts;
+  resolve(v: JobResult<K>): void; reject(e: unknown): void; done(): void;
+};
+
+/** `spawn` makes the worker; leave it out (or let it throw) to stay in-process */
+export function createMazeService(spawn?: () => WorkerLike): MazeService {
+  let worker: WorkerLike | null = null, broken = !spawn, nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  const local = async <K extends JobKind>(job: JobOf<K>, opts: JobOpts) => {
+    const result = await runJob(job, opts.signal, opts.onProgress);
+    if (opts.signal?.aborted) throw abortError();
+    return result;
+  };
+
+  const ensureWorker = (): WorkerLike | null => {
+    if (broken) return null;
+    if (worker) return worker;
+    try { worker = spawn!(); } catch { broken = true; return null; }
+    worker.onmessage = (e) => {
+      const msg = e.data, p = pending.get(msg.id);
+      if (!p) return;                                   // cancelled meanwhile
+      if ("progress" in msg) { p.opts.onProgress?.(msg.progress); return; }
+      pending.delete(msg.id); p.done();
+      if ("error" in msg) p.reject(new Error(msg.error));
+      // the wire is untyped: the worker answered the job this id was sent with
+      else p.resolve((msg.packed ? { ...(msg.result as MazeResult), maze: unpackMaze(msg.packed) } : msg.result) as JobResult<JobKind>);
+    };
+    // couldn't load, or crashed: finish what's queued (and everything after) in-process
+    worker.onerror = () => {
+      broken = true; worker?.terminate(); worker = null;
+      for (const [id, p] of pending) { pending.delete(id); p.done(); local(p.job, p.opts).then(p.resolve, p.reject); }
+    };
+    return worker;
+  };
+
+  const run = <K extends JobKind>(job: JobOf<K>, opts: JobOpts = {}): Promise<JobResult<K>> => {
+    if (opts.signal?.aborted) return Promise.reject(abortError());
+    const w = ensureWorker();
+    if (!w) return local(job, opts);
+    const id = nextId++;
+    return new Promise<JobResult<K>>((resolve, reject) => {
+      const onAbort = () => { pending.delete(id); w.postMessage({ id, cancel: true }); reject(abortError()); };
+      opts.signal?.addEventListener("abort", onAbort, { once: true });
+      pending.set(id, { job, opts, resolve, reject, done: () => opts.signal?.removeEventListener("abort", onAbort) });
+      const sent = job as MazeJob;
+      if (sent.kind === "solve" && isPackable(sent.maze)) {
+        const packed = packMaze(sent.maze.maze);
+        w.postMessage({ id, job: { ...sent, maze: { ...sent.maze, maze: [] } }, packed }, [packed.bits.buffer]);
+      } else w.postMessage({ id, job: sent });
+    });
+  };
+
+  return {
+    generate: (params, opts) => run({ kind: "generate", params }, opts),
+    sweep: (base, target, opts = {}) => run({ kind: "sweep", base, target, budget: opts.budget }, opts).then(hit => {
+      // the search only comes back empty when it was stopped
+      if (!hit) throw abortError();
+      return hit;
+    }),
+    solve: (maze, opts) => run({ kind: "solve", maze }, opts),
+    dispose: () => {
+      worker?.terminate(); worker = null;
+      for (const [id, p] of pending) { pending.delete(id); p.done(); p.reject(abortError()); }
+    },
+  };
+}
+
+/** Worker side: answer the jobs createMazeService posts */
+export function serveMazeJobs(scope: JobPort) {
+  const running = new Map<number, AbortController>();
+  scope.onmessage = async (e) => {
+    const msg = e.data;
+    if ("cancel" in msg) { running.get(msg.id)?.abort(); return; }
+    const ctl = new AbortController();
+    running.set(msg.id, ctl);
+    try {
+      const job = msg.packed && msg.job.kind === "solve" ? { ...msg.job, maze: { ...msg.job.maze, maze: unpackMaze(msg.packed) } } : msg.job;
+      const result = await runJob(job, ctl.signal, progress => scope.postMessage({ id: msg.id, progress }));
+      if (ctl.signal.aborted) return;
+      if (msg.job.kind === "generate" && isPackable(result as MazeResult)) {
+        const packed = packMaze((result as MazeResult).maze);
+        scope.postMessage({ id: msg.id, result: { ...(result as MazeResult), maze: [] }, packed }, [packed.bits.buffer]);
+      } else scope.postMessage({ id: msg.id, result });
+    } catch (err) {
+      scope.postMessage({ id: msg.id, error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      running.delete(msg.id);
+    }
+  };
+}
@@ -0,0 +1,5 @@
+// src/app/mazeWorker.ts
+import { serveMazeJobs, type JobPort } from "./mazeService";
+
+// the worker's global scope is the message port (the DOM lib types `self` as a window)
+serveMazeJobs(self as unknown as JobPort);
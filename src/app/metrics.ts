@@ -0,0 +1,131 @@
+// src/app/metrics.ts
+import type { Cell } from "./maze";
+import { openNeighbors, solveMaze, type Pt } from "./solver";
+import { PORTAL_UP, gridWidth, stepDir } from "./topology";
+
+/**
+ * Solver-side metrics, measured on the final braided grid (unlike `Stats`,
+ * which only looks at the carve tree).
+ *  S  – solution length (cells on the shortest route, inclusive; with
+ *       waypoints, pass the whole tour as `path` and S is its length)
+ *  ST – turns along the solution
+ *  DP – decision points: solution cells offering more than one way onward
+ *  BD – deepest side branch (steps away from the solution)
+ *  R  – distinct simple start→goal routes (capped at ROUTES_CAP)
+ *  OFF – share of cells not on the solution (0..1)
+ *  FX – floor changes along the solution (multi-floor mazes only)
+ *  Ds – solution difficulty score
+ */
+export type SolutionStats = { S:number; ST:number; DP:number; BD:number; R:number; OFF:number; FX?:number; Ds:number };
+
+/** Dead ends on the maze as built: cells with one way out (braids included, unlike Stats.E) */
+export function countDeadEnds(maze: Cell[][]): number {
+  let n = 0;
+  for (const row of maze) for (const c of row) if (!c.off && openNeighbors(maze, c.x, c.y).length === 1) n++;
+  return n;
+}
+
+export const ROUTES_CAP = 100;
+// DFS expansions we allow while counting routes; keeps big braided grids bounded
+const ROUTE_BUDGET = 200_000;
+
+export function computeSolutionStats(maze: Cell[][], start: Pt, goal: Pt, path?: Pt[]): SolutionStats {
+  const H = maze.length, W = gridWidth(maze);
+  const N = maze.reduce((n, row) => n + row.filter(c => !c.off).length, 0);
+  const sol = path ?? solveMaze(maze, start, goal);
+  if (sol.length === 0) return { S:0, ST:0, DP:0, BD:0, R:0, OFF:1, Ds:0 };
+
+  const S = sol.length;
+
+  // turns along the route, and trips up / down the stairs
+  let ST = 0, FX = 0;
+  for (let i=1;i<S;i++) {
+    const d = stepDir(maze, sol[i-1], sol[i]);
+    if (d >= PORTAL_UP) FX++;
+    if (i > 1 && stepDir(maze, sol[i-2], sol[i-1]) !== d) ST++;
+  }
+
+  // decision points: more than one exit besides the way we came in
+  let DP = 0;
+  for (let i=0;i<S-1;i++) {
+    const exits = openNeighbors(maze, sol[i].x, sol[i].y).length - (i > 0 ? 1 : 0);
+    if (exits > 1) DP++;
+  }
+
+  // branch depth: multi-source BFS outward from every solution cell
+  const dist = new Int32Array(W*H).fill(-1);
+  const queue: number[] = [];
+  for (const p of sol) { const i = p.y*W + p.x; dist[i] = 0; queue.push(i); }
+  let BD = 0;
+  for (let head=0; head<queue.length; head++) {
+    const i = queue[head];
+    for (const n of openNeighbors(maze, i % W, (i / W)|0)) {
+      const j = n.y*W + n.x;
+      if (dist[j] !== -1) continue;
+      dist[j] = dist[i] + 1; BD = Math.max(BD, dist[j]); queue.push(j);
+    }
+  }
+
+  const R = countRoutes(maze, start, goal);
+  // a tour can cross its own cells; count each once
+  const onSol = new Set(sol.map(p => p.y*W + p.x)).size;
+  const OFF = (N - onSol) / Math.max(1, N);
+
+  // Longer, twistier routes with more choices and deeper traps score higher;
+  // every extra route to the goal makes it a little easier.
+  const Ds = 0.7 * Math.log2(Math.max(2, S))
+    + 0.8 * (ST / S)
+    + 1.5 * (DP / S)
+    + 0.3 * Math.log2(1 + BD)
+    + 0.5 * OFF
+    - 0.25 * Math.log2(Math.max(1, R))
+    + 0.4 * FX;
+
+  return { S, ST, DP, BD, R, OFF: +OFF.toFixed(3), ...(FX ? { FX } : {}), Ds: +Ds.toFixed(3) };
+}
+
+/**
+ * Count simple start→goal routes, stopping at ROUTES_CAP (or when the budget
+ * runs out: then it's a lower bound, and never 0 for a maze that can be solved)
+ */
+export function countRoutes(maze: Cell[][], start: Pt, goal: Pt): number {
+  const H = maze.length, W = gridWidth(maze);
+  const s = start.y*W + start.x, t = goal.y*W + goal.x;
+
+  // dead-end trees can never be part of a route: peel them off first
+  const adj: number[][] = [];
+  for (let i=0;i<W*H;i++) adj.push(openNeighbors(maze, i % W, (i / W)|0).map(n => n.y*W + n.x));
+  const removed = new Uint8Array(W*H);
+  const deg = adj.map(a => a.length);
+  const peel: number[] = [];
+  for (let i=0;i<W*H;i++) if (deg[i] <= 1 && i !== s && i !== t) peel.push(i);
+  while (peel.length) {
+    const i = peel.pop()!;
+    if (removed[i]) continue;
+    removed[i] = 1;
+    for (const j of adj[i]) if (!removed[j] && --deg[j] <= 1 && j !== s && j !== t) peel.push(j);
+  }
+
+  // depth-first with an explicit stack (routes on a 501×501 grid run far deeper than the JS stack);
+  // next[i] is the neighbour of i to try when we're back at it
+  const onPath = new Uint8Array(W*H), next = new Int32Array(W*H);
+  const stack: number[] = [];
+  let count = 0, budget = ROUTE_BUDGET;
+  const enter = (i:number) => {
+    if (i === t) { count++; return; }
+    onPath[i] = 1; next[i] = 0; stack.push(i);
+  };
+  budget--; enter(s);
+  while (stack.length && count < ROUTES_CAP && budget > 0) {
+    const i = stack[stack.length - 1];
+    if (next[i] < adj[i].length) {
+      const j = adj[i][next[i]++];
+      if (!removed[j] && !onPath[j]) { budget--; enter(j); }
+    } else {
+      onPath[i] = 0; stack.pop();
+    }
+  }
+  // out of budget before the first route: it's there if the solver finds it
+  if (count === 0 && budget <= 0 && solveMaze(maze, start, goal).length) return 1;
+  return count;
+}
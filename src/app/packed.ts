@@ -0,0 +1,96 @@
+// src/app/packed.ts
+import type { Cell, MazeResult } from "./maze";
+import type { Pt } from "./solver";
+
+/**
+ * Flat square mazes packed one byte per cell, row-major: the low four bits
+ * are the walls still standing, then the mask and crossing flags. A 500×500
+ * poster is 250 kB in one buffer instead of a quarter-million objects, so it
+ * crosses a worker boundary as a transfer and the renderers walk it directly.
+ * Tunnels aren't stored: they always run under a deck, so unpacking rebuilds
+ * them from the deck flags.
+ */
+export const WALL_N = 1, WALL_E = 2, WALL_S = 4, WALL_W = 8, OFF = 16, DECK_NS = 32, DECK_EW = 64;
+
+export type PackedGrid = { W: number; H: number; bits: Uint8Array };
+
+/** Square, single layer, no graph links: the grids a PackedGrid can hold */
+export function isPackable(r: MazeResult): boolean {
+  return !r.topology && !r.floors && !r.maze[0]?.[0]?.links;
+}
+
+export function packMaze(m: Cell[][]): PackedGrid {
+  const H = m.length, W = m[0]?.length ?? 0, bits = new Uint8Array(W * H);
+  for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
+    const c = m[y][x];
+    bits[y*W + x] = (c.n ? WALL_N : 0) | (c.e ? WALL_E : 0) | (c.s ? WALL_S : 0) | (c.w ? WALL_W : 0)
+      | (c.off ? OFF : 0) | (c.bridge === "ns" ? DECK_NS : c.bridge === "ew" ? DECK_EW : 0);
+  }
+  return { W, H, bits };
+}
+
+export function unpackMaze({ W, H, bits }: PackedGrid): Cell[][] {
+  const m: Cell[][] = Array.from({ length: H }, (_, y) => Array.from({ length: W }, (_, x) => {
+    const v = bits[y*W + x];
+    const c: Cell = { x, y, n: v & WALL_N ? 1 : 0, s: v & WALL_S ? 1 : 0, e: v & WALL_E ? 1 : 0, w: v & WALL_W ? 1 : 0 };
+    if (v & OFF) c.off = true;
+    if (v & (DECK_NS | DECK_EW)) c.bridge = v & DECK_NS ? "ns" : "ew";
+    return c;
+  }));
+  // same scan order as weaveTree, so every tunnel list comes back in order
+  const tunnel = (a: Pt, b: Pt) => { const A = m[a.y][a.x]; A.tunnels = [...(A.tunnels ?? []), b]; };
+  for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
+    const d = m[y][x].bridge;
+    if (!d) continue;
+    const a = d === "ns" ? { x: x-1, y } : { x, y: y-1 }, b = d === "ns" ? { x: x+1, y } : { x, y: y+1 };
+    tunnel(a, b); tunnel(b, a);
+  }
+  return m;
+}
+
+/**
+ * Every wall as maximal straight runs, in cell units: horizontal runs first
+ * (row by row), then vertical ones. Masked-out cells draw nothing (their on
+ * neighbours close the outline) and a deck's sides are left to deckLines.
+ */
+export function wallRuns({ W, H, bits }: PackedGrid, emit: (x1: number, y1: number, x2: number, y2: number) => void) {
+  const at = (x: number, y: number) => x < 0 || y < 0 || x >= W || y >= H ? OFF : bits[y*W + x];
+  // the wall along the top of (x, y), drawn by whichever side is on
+  const top = (x: number, y: number) => {
+    const c = at(x, y), u = at(x, y-1);
+    if (!(c & OFF)) return !!(c & WALL_N) && !((c | u) & DECK_EW);
+    return !(u & OFF) && !!(u & WALL_S);
+  };
+  const left = (x: number, y: number) => {
+    const c = at(x, y), l = at(x-1, y);
+    if (!(c & OFF)) return !!(c & WALL_W) && !((c | l) & DECK_NS);
+    return !(l & OFF) && !!(l & WALL_E);
+  };
+  for (let y=0;y<=H;y++) for (let x=0;x<W;) {
+    if (!top(x, y)) { x++; continue; }
+    const x0 = x; while (x < W && top(x, y)) x++;
+    emit(x0, y, x, y);
+  }
+  for (let x=0;x<=W;x++) for (let y=0;y<H;) {
+    if (!left(x, y)) { y++; continue; }
+    const y0 = y; while (y < H && left(x, y)) y++;
+    emit(x, y0, x, y);
+  }
+}
+
+// a crossing: the deck narrows to rails, and the tunnel's walls stop short on
+// both sides of it, leaving the gap the under-pass shows through
+export const DECK_INSET = 0.2;
+
+/** The segments (cell units) drawn for a deck at (x, y) */
+export function deckLines(x: number, y: number, dir: "ns" | "ew"): [number, number, number, number][] {
+  const i = DECK_INSET, segs = [
+    // rails along the deck
+    [i, 0, i, 1], [1-i, 0, 1-i, 1],
+    // tunnel wall stubs up to the rails
+    [0, 0, i, 0], [1-i, 0, 1, 0], [0, 1, i, 1], [1-i, 1, 1, 1],
+  ];
+  // an east-west deck is the same picture turned on its side
+  const P = (u: number, v: number) => dir === "ns" ? [x + u, y + v] : [x + v, y + u];
+  return segs.map(([u1, v1, u2, v2]) => [...P(u1, v1), ...P(u2, v2)] as [number, number, number, number]);
+}
@@ -0,0 +1,83 @@
+// src/app/placement.ts
+import { cellNear, nearestCell, type Grid } from "./topology";
+import type { Pt } from "./solver";
+
+/**
+ * Where start and goal go. Start is also the root the generators grow from,
+ * so it changes the maze itself (and the carve animation), not just the
+ * markers. Random modes draw from the maze's seeded stream, so a seed and a
+ * mode always give the same pair.
+ */
+export type PlacementId = "edges" | "corners" | "random-edges" | "center" | "farthest" | "manual";
+
+export const PLACEMENTS: Record<PlacementId, { label: string }> = {
+  "edges":        { label: "Middle of the side edges" },
+  "corners":      { label: "Opposite corners" },
+  "random-edges": { label: "Opposite edges, random spots" },
+  "center":       { label: "Centre out to the edge" },
+  "farthest":     { label: "Farthest pair" },
+  "manual":       { label: "Tap to place" },
+};
+
+export const PLACEMENT_IDS = Object.keys(PLACEMENTS) as PlacementId[];
+
+export function isPlacementId(x: unknown): x is PlacementId {
+  return typeof x === "string" && x in PLACEMENTS;
+}
+
+export type Ends = { start: Pt; goal: Pt };
+
+export function isEnds(x: any): x is Ends {
+  const pt = (p: any) => p && Number.isInteger(p.x) && Number.isInteger(p.y) && p.x >= 0 && p.y >= 0;
+  return !!x && typeof x === "object" && pt(x.start) && pt(x.goal);
+}
+
+/** Key suffix for maze identities: "" for the default layout, manual adds the tapped cells */
+export function placementKey(p: { placement?: PlacementId; ends?: Ends }): string {
+  if (!p.placement || p.placement === "edges") return "";
+  const e = p.placement === "manual" && p.ends ? `@${p.ends.start.x}.${p.ends.start.y}-${p.ends.goal.x}.${p.ends.goal.y}` : "";
+  return `|p${p.placement}${e}`;
+}
+
+/**
+ * Start and goal on `grid` (masked-out cells never qualify). For "farthest"
+ * the goal is provisional: createMaze swaps in the cell farthest from start
+ * once the maze exists. "manual" without `ends` behaves like "edges".
+ */
+export function placeEnds(grid: Grid, p: { placement?: PlacementId; ends?: Ends }, rnd: () => number): Ends {
+  const { w, h } = grid.size;
+  // a point on the bounding box, in fractions of its width / height
+  const at = (u:number, v:number) => cellNear(grid, u * w, v * h);
+  // side 0..3 = top, right, bottom, left
+  const edge = (side:number, t:number) => side === 0 ? at(t, 0) : side === 1 ? at(1, t) : side === 2 ? at(t, 1) : at(0, t);
+
+  switch (p.placement ?? "edges") {
+    case "corners":
+      return { start: at(0, 0), goal: at(1, 1) };
+    case "random-edges": {
+      const across = rnd() < 0.5, a = rnd(), b = rnd();
+      return across ? { start: edge(3, a), goal: edge(1, b) } : { start: edge(0, a), goal: edge(2, b) };
+    }
+    case "center": {
+      const side = Math.floor(rnd() * 4), t = rnd();
+      return { start: at(0.5, 0.5), goal: edge(side, t) };
+    }
+    case "manual":
+      if (p.ends) return { start: nearestCell(grid, p.ends.start), goal: nearestCell(grid, p.ends.goal) };
+  }
+  return defaultEnds(grid);
+}
+
+// the original layout: mid-row of the left and right edges (theta: rim → centre).
+// Stacked floors: start on the first floor, goal on the last.
+function defaultEnds(grid: Grid): Ends {
+  if (grid.floors) {
+    const { start, goal } = defaultEnds(grid.floors.base), top = (grid.floors.count - 1) * grid.floors.base.rows;
+    return { start, goal: nearestCell(grid, { x: goal.x, y: goal.y + top }) };
+  }
+  if (grid.topology === "theta") {
+    return { start: nearestCell(grid, { x: 0, y: grid.rows - 1 }), goal: nearestCell(grid, { x: 0, y: 0 }) };
+  }
+  const y = Math.floor(grid.rows / 2);
+  return { start: nearestCell(grid, { x: 0, y }), goal: nearestCell(grid, { x: grid.rowLength(y) - 1, y }) };
+}
@@ -0,0 +1,140 @@
+// src/app/play.ts
+import type { Cell } from "./maze";
+import type { Pt } from "./solver";
+import type { Waypoints } from "./waypoints";
+
+export type Dir = "n" | "s" | "e" | "w";
+
+export type PlayState = {
+  // cells visited in order; last entry is the token
+  trail: Pt[];
+  moves: number;
+  startedAt: number | null;   // first move (ms)
+  finishedAt: number | null;  // reached goal, or ran out of time (ms)
+  bumps: number;              // moves a wall blocked
+  timedOut: boolean;
+  got: number[];              // waypoints reached, as indexes into their cells
+};
+
+const STEP: Record<Dir, { dx:number; dy:number }> = {
+  n: { dx: 0, dy:-1 }, s: { dx: 0, dy: 1 }, e: { dx: 1, dy: 0 }, w: { dx:-1, dy: 0 },
+};
+
+export const KEY_DIRS: Record<string, Dir> = {
+  ArrowUp: "n", ArrowDown: "s", ArrowRight: "e", ArrowLeft: "w",
+  w: "n", s: "s", d: "e", a: "w", W: "n", S: "s", D: "e", A: "w",
+};
+
+export function newPlay(start: Pt): PlayState {
+  return { trail: [start], moves: 0, startedAt: null, finishedAt: null, bumps: 0, timedOut: false, got: [] };
+}
+
+export const tokenOf = (st: PlayState): Pt => st.trail[st.trail.length - 1];
+
+/**
+ * Where one move in `dir` lands: the next cell through an open wall, the far
+ * side of a bridge through its tunnel, or null when a wall blocks.
+ */
+export function nextCell(maze: Cell[][], p: Pt, dir: Dir): Pt | null {
+  const c = maze[p.y]?.[p.x];
+  if (!c) return null;
+  const { dx, dy } = STEP[dir];
+  if (!c[dir]) return maze[p.y + dy]?.[p.x + dx] ? { x: p.x + dx, y: p.y + dy } : null;
+  return c.tunnels?.find(t => t.x === p.x + 2*dx && t.y === p.y + 2*dy) ?? null;
+}
+
+/** Walls from Cell.n/s/e/w block the move (tunnels lead under bridges) */
+export function canMove(maze: Cell[][], p: Pt, dir: Dir): boolean {
+  return nextCell(maze, p, dir) !== null;
+}
+
+/** Direction from a to b, adjacent or two cells straight on (a tunnel); null otherwise */
+export function dirBetween(a: Pt, b: Pt): Dir | null {
+  for (const d of Object.keys(STEP) as Dir[]) {
+    for (const k of [1, 2]) if (a.x + k*STEP[d].dx === b.x && a.y + k*STEP[d].dy === b.y) return d;
+  }
+  return null;
+}
+
+/** Waypoints still to reach before the goal counts */
+export const stopsLeft = (st: PlayState, stops?: Waypoints | null) => (stops?.cells.length ?? 0) - st.got.length;
+
+// landing on a waypoint picks it up: checkpoints only the next one in order, treasures any not yet taken
+function collect(got: number[], p: Pt, stops?: Waypoints | null): number[] {
+  const i = stops ? stops.cells.findIndex((c, i) => c.x === p.x && c.y === p.y && !got.includes(i)) : -1;
+  if (i < 0 || (stops!.kind === "checkpoints" && i !== got.length)) return got;
+  return [...got, i];
+}
+
+/**
+ * One cell in `dir`. Stepping back onto the previous trail cell retraces
+ * (shortens the trail) instead of growing it; waypoints once reached stay
+ * reached. The goal only finishes the game once every waypoint is in.
+ * Finished games don't move.
+ */
+export function move(st: PlayState, maze: Cell[][], goal: Pt, dir: Dir, now: number, stops?: Waypoints | null): PlayState {
+  if (st.finishedAt !== null) return st;
+  const cur = tokenOf(st);
+  const next = nextCell(maze, cur, dir);
+  if (!next) return st;
+
+  const back = st.trail[st.trail.length - 2];
+  const trail = back && back.x === next.x && back.y === next.y
+    ? st.trail.slice(0, -1)
+    : [...st.trail, next];
+
+  const got = collect(st.got, next, stops);
+  const reached = next.x === goal.x && next.y === goal.y && got.length === (stops?.cells.length ?? 0);
+  return {
+    ...st,
+    trail,
+    got,
+    moves: st.moves + 1,
+    startedAt: st.startedAt ?? now,
+    finishedAt: reached ? now : null,
+  };
+}
+
+/** A move into a wall: counted (and starts the clock), the token stays put */
+export function bump(st: PlayState, now: number): PlayState {
+  if (st.finishedAt !== null) return st;
+  return { ...st, bumps: st.bumps + 1, startedAt: st.startedAt ?? now };
+}
+
+/** The countdown ran out: the game ends where it stands */
+export function timeUp(st: PlayState, now: number): PlayState {
+  if (st.finishedAt !== null) return st;
+  return { ...st, finishedAt: now, timedOut: true };
+}
+
+/** Swipe: keep going while we're in a plain corridor (stop at junctions, dead ends and goal) */
+export function slide(st: PlayState, maze: Cell[][], goal: Pt, dir: Dir, now: number, stops?: Waypoints | null): PlayState {
+  let cur = move(st, maze, goal, dir, now, stops);
+  if (cur === st) return st;
+  let heading = dir;
+  for (let guard = maze.length * (maze[0]?.length ?? 0); guard > 0; guard--) {
+    if (cur.finishedAt !== null) break;
+    const p = tokenOf(cur);
+    const exits = (Object.keys(STEP) as Dir[]).filter(d => canMove(maze, p, d) && d !== OPP[heading]);
+    if (openCount(maze, p) !== 2 || exits.length !== 1) break;
+    heading = exits[0];
+    cur = move(cur, maze, goal, heading, now, stops);
+  }
+  return cur;
+}
+
+/** Back one cell along the trail (no-op at start or after finishing) */
+export function undo(st: PlayState): PlayState {
+  if (st.trail.length < 2 || st.finishedAt !== null) return st;
+  return { ...st, trail: st.trail.slice(0, -1) };
+}
+
+export function formatElapsed(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+const OPP: Record<Dir, Dir> = { n: "s", s: "n", e: "w", w: "e" };
+function openCount(maze: Cell[][], p: Pt) {
+  return (Object.keys(STEP) as Dir[]).filter(d => canMove(maze, p, d)).length;
+}
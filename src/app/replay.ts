@@ -0,0 +1,99 @@
+// src/app/replay.ts
+import type { CarveStep, MazeResult } from "./maze";
+import { exploreMaze, solveMaze, type Pt } from "./solver";
+
+/**
+ * A maze's history as one timeline for the visualizer: the carve (with the
+ * backtracker's pops, when the generator works like one), then optionally
+ * the braid edits and the solver's BFS from start to goal, ending on the
+ * route it found. Any frame can be rebuilt from scratch (frameAt), so the
+ * player can scrub both ways without keeping state.
+ */
+export type ReplayEvent =
+  | { kind: "carve"; step: CarveStep }
+  | { kind: "backtrack"; cell: Pt }
+  | { kind: "braid"; step: CarveStep }
+  | { kind: "explore"; cell: Pt; queued: Pt[] }
+  | { kind: "route"; path: Pt[] };
+
+export type ReplayOpts = { braids?: boolean; solver?: boolean };
+
+// stack: whether backtrack events are in the carve (see stackEvents)
+export type Timeline = { events: ReplayEvent[]; stack: boolean };
+
+export type ReplayFrame = {
+  live: CarveStep[];        // carved, far cell still on the stack (every carve without a stack)
+  popped: CarveStep[];      // carved, far cell since backtracked out of
+  stack: Pt[];              // bottom first
+  braids: CarveStep[];
+  visited: Pt[];            // taken off the solver's queue
+  frontier: Pt[];           // waiting on it
+  route: Pt[];
+  last?: ReplayEvent;       // the event that made this frame
+};
+
+const same = (a: Pt, b: Pt) => a.x === b.x && a.y === b.y;
+const key = (p: Pt) => `${p.x},${p.y}`;
+
+export function buildTimeline(r: MazeResult, opts: ReplayOpts = {}): Timeline {
+  const carve = stackEvents(r.treeSteps);
+  const events: ReplayEvent[] = carve ?? r.treeSteps.map(step => ({ kind: "carve" as const, step }));
+  if (opts.braids) for (const step of r.braidEdits) events.push({ kind: "braid", step });
+  if (opts.solver) {
+    for (const e of exploreMaze(r.maze, r.start, r.goal)) events.push({ kind: "explore", ...e });
+    const path = solveMaze(r.maze, r.start, r.goal, "bfs");
+    if (path.length) events.push({ kind: "route", path });
+  }
+  return { events, stack: !!carve };
+}
+
+/**
+ * The carve as a recursive backtracker would have done it: every step leaves
+ * from the top of the stack, after popping back to it. Null when the order
+ * doesn't fit that picture (Kruskal, Wilson, a woven tree, …); those replay
+ * as plain carves.
+ */
+function stackEvents(steps: CarveStep[]): ReplayEvent[] | null {
+  if (!steps.length) return null;
+  const out: ReplayEvent[] = [], stack: Pt[] = [], on = new Set<string>();
+  const push = (p: Pt) => { stack.push(p); on.add(key(p)); };
+  const pop = () => { const p = stack.pop()!; on.delete(key(p)); out.push({ kind: "backtrack", cell: p }); };
+  push({ x: steps[0].x, y: steps[0].y });
+  for (const step of steps) {
+    const from = { x: step.x, y: step.y };
+    if (!on.has(key(from))) return null;
+    while (!same(stack[stack.length - 1], from)) pop();
+    out.push({ kind: "carve", step });
+    push({ x: step.nx, y: step.ny });
+  }
+  while (stack.length) pop();
+  return out;
+}
+
+/** State after the first `i` events */
+export function frameAt(t: Timeline, i: number): ReplayFrame {
+  const n = Math.max(0, Math.min(t.events.length, i));
+  const stack: Pt[] = [], poppedCells = new Set<string>(), carves: CarveStep[] = [], braids: CarveStep[] = [];
+  const visited: Pt[] = [], queued = new Map<string, Pt>();
+  let route: Pt[] = [];
+  for (let k=0;k<n;k++) {
+    const e = t.events[k];
+    switch (e.kind) {
+      case "carve":
+        if (t.stack && !stack.length) stack.push({ x: e.step.x, y: e.step.y });
+        carves.push(e.step);
+        if (t.stack) stack.push({ x: e.step.nx, y: e.step.ny });
+        break;
+      case "backtrack": stack.pop(); poppedCells.add(key(e.cell)); break;
+      case "braid": braids.push(e.step); break;
+      case "explore":
+        visited.push(e.cell); queued.delete(key(e.cell));
+        for (const q of e.queued) queued.set(key(q), q);
+        break;
+      case "route": route = e.path; break;
+    }
+  }
+  const live: CarveStep[] = [], popped: CarveStep[] = [];
+  for (const s of carves) (poppedCells.has(`${s.nx},${s.ny}`) ? popped : live).push(s);
+  return { live, popped, stack, braids, visited, frontier: [...queued.values()], route, ...(n ? { last: t.events[n - 1] } : {}) };
+}
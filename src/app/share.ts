@@ -0,0 +1,116 @@
+// src/app/share.ts
+import { isGeneratorId, type GeneratorId } from "./generators";
+import { MAX_SIZE, MIN_SIZE, isFloorCount, isTopologyId, type TopologyId } from "./topology";
+import { isMask, type Mask } from "./mask";
+import { isEnds, isPlacementId, type Ends, type PlacementId } from "./placement";
+import { isWaypointSpec, type WaypointSpec } from "./waypoints";
+import { MAX_WEAVE } from "./weave";
+import { isThemeChoice, type ThemeChoice } from "./theme";
+import { isWorldId, type WorldId } from "./worlds";
+
+/**
+ * Everything needed to reproduce what's on screen, packed into the URL hash
+ * (`#w=19&h=19&s=42…`). Hash, not query: it never reaches the server, so the
+ * installed PWA's precached shell serves shared links offline.
+ */
+export type ShareState = {
+  width:number; height:number; seed:number; g:number; b:number; tau:number; algo:GeneratorId;
+  topology?:TopologyId;
+  mask?:Mask;
+  placement?:PlacementId; ends?:Ends;
+  waypoints?:WaypointSpec;
+  weave?:number;
+  floors?:number;
+  // emoji only — data-URL images are far too big for a link
+  startIcon?:string|null; goalIcon?:string|null; waypointIcon?:string|null;
+  animateDFS?:boolean; dfsSegMs?:number; lingerMs?:number; hideWallsDuringAnim?:boolean;
+  theme?:ThemeChoice;
+  world?:WorldId|null;
+};
+
+const clamp = (n:number, lo:number, hi:number) => Math.max(lo, Math.min(hi, n));
+
+export function encodeShare(s: ShareState): string {
+  const q = new URLSearchParams();
+  q.set("w", String(s.width)); q.set("h", String(s.height)); q.set("s", String(s.seed));
+  q.set("g", String(s.g)); q.set("b", String(s.b)); q.set("t", String(s.tau));
+  if (s.algo !== "dfs") q.set("a", s.algo);
+  if (s.topology && s.topology !== "square") q.set("tp", s.topology);
+  if (s.mask) q.set("mk", `${s.mask.w}.${s.mask.h}.${s.mask.data}`);
+  if (s.placement && s.placement !== "edges") q.set("pl", s.placement);
+  if (s.placement === "manual" && s.ends) q.set("se", [s.ends.start.x, s.ends.start.y, s.ends.goal.x, s.ends.goal.y].join("."));
+  if (s.waypoints) q.set("wp", `${s.waypoints.kind === "checkpoints" ? "c" : "t"}.${s.waypoints.count}.${s.waypoints.spacing}`);
+  if (s.weave) q.set("wv", String(s.weave));
+  if (s.floors && s.floors > 1) q.set("fl", String(s.floors));
+  if (s.startIcon && !s.startIcon.startsWith("data:")) q.set("si", s.startIcon);
+  if (s.goalIcon && !s.goalIcon.startsWith("data:")) q.set("gi", s.goalIcon);
+  if (s.waypointIcon && !s.waypointIcon.startsWith("data:")) q.set("wi", s.waypointIcon);
+  if (s.animateDFS !== undefined) q.set("an", s.animateDFS ? "1" : "0");
+  if (s.dfsSegMs !== undefined) q.set("sm", String(s.dfsSegMs));
+  if (s.lingerMs !== undefined) q.set("lm", String(s.lingerMs));
+  if (s.hideWallsDuringAnim !== undefined) q.set("hw", s.hideWallsDuringAnim ? "1" : "0");
+  if (s.theme && s.theme !== "auto") q.set("th", s.theme);
+  if (s.world) q.set("wo", s.world);
+  return q.toString();
+}
+
+type Core = { width:number; height:number; seed:number; g:number; b:number; tau:number };
+
+/**
+ * Size, seed and knobs pulled into what the app can build: odd sizes within
+ * MIN_SIZE..MAX_SIZE, a 32-bit integer seed, g / b / tau in range. Links,
+ * opened files and library imports all come through here.
+ */
+export function saneCore(p: Core): Core {
+  const odd = (n:number) => { const r = clamp(Math.round(n), MIN_SIZE, MAX_SIZE); return r % 2 ? r : r + 1; };
+  return {
+    width: odd(p.width), height: odd(p.height), seed: Math.trunc(p.seed) >>> 0,
+    g: clamp(p.g, 0, 1), b: clamp(p.b, 0, 0.5), tau: clamp(p.tau, 0, 1),
+  };
+}
+
+/** Parse a hash/query string; null unless it carries a complete, sane maze identity */
+export function decodeShare(hash: string): ShareState | null {
+  const q = new URLSearchParams(hash.replace(/^[#?]/, ""));
+  const num = (k:string) => { const v = q.get(k); const n = v === null || v === "" ? NaN : Number(v); return Number.isFinite(n) ? n : null; };
+  const bool = (k:string) => q.has(k) ? q.get(k) === "1" : undefined;
+
+  const width = num("w"), height = num("h"), seed = num("s"), g = num("g"), b = num("b"), tau = num("t");
+  if (width === null || height === null || seed === null || g === null || b === null || tau === null) return null;
+  const a = q.get("a"), tp = q.get("tp");
+
+  const out: ShareState = { ...saneCore({ width, height, seed, g, b, tau }), algo: isGeneratorId(a) ? a : "dfs" };
+  if (isTopologyId(tp) && tp !== "square") out.topology = tp;
+  const [mw, mh, md] = (q.get("mk") ?? "").split(".");
+  const mask = { w: Number(mw), h: Number(mh), data: md };
+  if (isMask(mask)) out.mask = mask;
+  const pl = q.get("pl"), [sx, sy, gx, gy] = (q.get("se") ?? "").split(".").map(v => v === "" ? NaN : Number(v));
+  const ends = { start: { x: sx, y: sy }, goal: { x: gx, y: gy } };
+  if (isPlacementId(pl) && pl !== "edges") out.placement = pl;
+  if (pl === "manual" && isEnds(ends)) out.ends = ends;
+  const [wk, wc, ws] = (q.get("wp") ?? "").split(".");
+  const waypoints = { kind: wk === "c" ? "checkpoints" : wk === "t" ? "treasures" : "", count: Number(wc), spacing: Number(ws) };
+  if (isWaypointSpec(waypoints)) out.waypoints = waypoints;
+  const wv = num("wv"), fl = num("fl");
+  if (wv !== null && wv > 0) out.weave = clamp(wv, 0, MAX_WEAVE);
+  if (isFloorCount(fl) && fl > 1) out.floors = fl;
+  const si = q.get("si"), gi = q.get("gi"), wi = q.get("wi");
+  if (si && !si.startsWith("data:")) out.startIcon = si;
+  if (gi && !gi.startsWith("data:")) out.goalIcon = gi;
+  if (wi && !wi.startsWith("data:")) out.waypointIcon = wi;
+  const an = bool("an"), hw = bool("hw"), sm = num("sm"), lm = num("lm");
+  if (an !== undefined) out.animateDFS = an;
+  if (hw !== undefined) out.hideWallsDuringAnim = hw;
+  if (sm !== null) out.dfsSegMs = clamp(sm, 10, 150);
+  if (lm !== null) out.lingerMs = clamp(lm, 0, 10000);
+  const th = q.get("th");
+  if (isThemeChoice(th)) out.theme = th;
+  const wo = q.get("wo");
+  if (isWorldId(wo)) out.world = wo;
+  return out;
+}
+
+/** Absolute link to this app with the state in the hash */
+export function shareURL(s: ShareState, loc: { origin:string; pathname:string } = window.location): string {
+  return `${loc.origin}${loc.pathname}#${encodeShare(s)}`;
+}
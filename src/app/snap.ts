@@ -0,0 +1,47 @@
+// src/app/snap.ts
+import type { Cell } from "./maze";
+import type { Pt } from "./solver";
+import { dirBetween, nextCell, type Dir } from "./play";
+
+/**
+ * Grow `path` toward `target` one legal cell-to-cell move at a time.
+ * Stepping back onto the previous cell retraces, but never below `floor`
+ * cells (so a stroke can't eat earlier segments). Stops at walls.
+ */
+export function snapTo(maze: Cell[][], path: Pt[], target: Pt, floor = 1): Pt[] {
+  const out = path.slice();
+  for (let guard = maze.length * (maze[0]?.length ?? 0); guard > 0; guard--) {
+    const last = out[out.length - 1];
+    const dx = target.x - last.x, dy = target.y - last.y;
+    if (!dx && !dy) break;
+
+    // try the dominant axis first, then the other one
+    const h: Dir | null = dx > 0 ? "e" : dx < 0 ? "w" : null;
+    const v: Dir | null = dy > 0 ? "s" : dy < 0 ? "n" : null;
+    const order = Math.abs(dx) >= Math.abs(dy) ? [h, v] : [v, h];
+    const dir = order.find((d): d is Dir => !!d && !!nextCell(maze, last, d));
+    if (!dir) break;
+
+    const next = nextCell(maze, last, dir)!;
+    const prev = out[out.length - 2];
+    if (prev && prev.x === next.x && prev.y === next.y) {
+      if (out.length <= floor) break;
+      out.pop();
+    } else {
+      out.push(next);
+    }
+  }
+  return out;
+}
+
+/** A drawn path is correct when it runs start→goal through open walls only */
+export function isSolved(maze: Cell[][], path: Pt[], start: Pt, goal: Pt): boolean {
+  if (path.length < 2) return false;
+  const first = path[0], last = path[path.length - 1];
+  if (first.x !== start.x || first.y !== start.y || last.x !== goal.x || last.y !== goal.y) return false;
+  for (let i=1;i<path.length;i++) {
+    const d = dirBetween(path[i-1], path[i]), n = d && nextCell(maze, path[i-1], d);
+    if (!n || n.x !== path[i].x || n.y !== path[i].y) return false;
+  }
+  return true;
+}
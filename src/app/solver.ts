@@ -0,0 +1,237 @@
+// src/app/solver.ts
+import type { Cell } from "./maze";
+import { gridWidth } from "./topology";
+
+export type Pt = { x:number; y:number };
+export type SolveMethod = "bfs" | "astar" | "auto";
+
+// grids above this many cells switch to A* when method is "auto"
+const ASTAR_MIN_CELLS = 40 * 40;
+
+/** Open neighbors of (x,y) in the final (braided) grid */
+export function openNeighbors(maze: Cell[][], x:number, y:number): Pt[] {
+  const c = maze[y]?.[x], out: Pt[] = [];
+  if (!c) return out;
+  if (c.links) return c.links;
+  if (!c.n && y > 0)                   out.push({ x, y:y-1 });
+  if (!c.s && y < maze.length-1)       out.push({ x, y:y+1 });
+  if (!c.e && x < maze[0].length-1)    out.push({ x:x+1, y });
+  if (!c.w && x > 0)                   out.push({ x:x-1, y });
+  if (c.tunnels) out.push(...c.tunnels);
+  return out;
+}
+
+/**
+ * Shortest start→goal path over the braided grid, inclusive of both ends.
+ * Braids add loops, so we search the graph rather than walk the tree.
+ * Returns [] when goal is unreachable. Non-square and woven grids always use BFS
+ * (Manhattan distance isn't a safe A* heuristic there).
+ */
+export function solveMaze(maze: Cell[][], start: Pt, goal: Pt, method: SolveMethod = "auto"): Pt[] {
+  const H = maze.length, W = gridWidth(maze);
+  if (!W || !H) return [];
+  // a tunnel covers two cells in one step, which Manhattan distance would overestimate
+  const square = !maze[0][0]?.links && !maze.some(row => row.some(c => c.tunnels));
+  const useAStar = square && (method === "astar" || (method === "auto" && W*H >= ASTAR_MIN_CELLS));
+  const prev = useAStar ? aStar(maze, start, goal) : bfs(maze, start, goal);
+  return walkBack(prev, W, start, goal);
+}
+
+/** The reachable cell with the longest shortest path from `from` (BFS order breaks ties) */
+export function farthestCell(maze: Cell[][], from: Pt): Pt {
+  const W = gridWidth(maze);
+  const seen = new Uint8Array(W*maze.length);
+  const queue = new Int32Array(W*maze.length);
+  let head = 0, tail = 0;
+  seen[queue[tail++] = from.y*W + from.x] = 1;
+  // BFS dequeues by distance, so the last cell queued is a farthest one
+  while (head < tail) {
+    const i = queue[head++];
+    for (const n of openNeighbors(maze, i % W, (i / W)|0)) {
+      const j = n.y*W + n.x;
+      if (seen[j]) continue;
+      seen[j] = 1; queue[tail++] = j;
+    }
+  }
+  const last = queue[tail - 1];
+  return { x: last % W, y: (last / W)|0 };
+}
+
+/** Steps from `from` to every cell over open passages (-1 = unreachable), index y*width + x */
+export function distancesFrom(maze: Cell[][], from: Pt): Int32Array {
+  const W = gridWidth(maze);
+  const dist = new Int32Array(W*maze.length).fill(-1);
+  const queue = new Int32Array(W*maze.length);
+  let head = 0, tail = 0;
+  dist[queue[tail++] = from.y*W + from.x] = 0;
+  while (head < tail) {
+    const i = queue[head++];
+    for (const n of openNeighbors(maze, i % W, (i / W)|0)) {
+      const j = n.y*W + n.x;
+      if (dist[j] !== -1) continue;
+      dist[j] = dist[i] + 1; queue[tail++] = j;
+    }
+  }
+  return dist;
+}
+
+/**
+ * Shortest start→goal walk through every stop: in the given order when
+ * `ordered` (checkpoints), else in whichever order is shortest (collectibles;
+ * brute force, so keep stops to a handful). Cells repeat where legs double
+ * back; [] when any stop is unreachable.
+ */
+export function solveTour(maze: Cell[][], start: Pt, goal: Pt, stops: Pt[], ordered: boolean): Pt[] {
+  if (!stops.length) return solveMaze(maze, start, goal);
+  const order = ordered ? stops : shortestOrder(maze, start, goal, stops);
+  const pts = [start, ...order, goal];
+  const path: Pt[] = [start];
+  for (let i=1;i<pts.length;i++) {
+    const leg = solveMaze(maze, pts[i-1], pts[i]);
+    if (!leg.length) return [];
+    path.push(...leg.slice(1));
+  }
+  return path;
+}
+
+/**
+ * The BFS the solver runs, step by step (for replays): each cell as it's
+ * taken off the queue, with the neighbours it adds. Stops at the goal.
+ */
+export function exploreMaze(maze: Cell[][], start: Pt, goal: Pt): { cell: Pt; queued: Pt[] }[] {
+  const W = gridWidth(maze), H = maze.length;
+  if (!W || !H) return [];
+  const seen = new Uint8Array(W*H), queue = new Int32Array(W*H), out: { cell: Pt; queued: Pt[] }[] = [];
+  let head = 0, tail = 0;
+  seen[queue[tail++] = start.y*W + start.x] = 1;
+  while (head < tail) {
+    const i = queue[head++], cell = { x: i % W, y: (i / W)|0 }, queued: Pt[] = [];
+    out.push({ cell, queued });
+    if (cell.x === goal.x && cell.y === goal.y) break;
+    for (const n of openNeighbors(maze, cell.x, cell.y)) {
+      const j = n.y*W + n.x;
+      if (seen[j]) continue;
+      seen[j] = 1; queue[tail++] = j; queued.push({ x: n.x, y: n.y });
+    }
+  }
+  return out;
+}
+
+function shortestOrder(maze: Cell[][], start: Pt, goal: Pt, stops: Pt[]): Pt[] {
+  const W = gridWidth(maze), n = stops.length;
+  const at = (d: Int32Array, p: Pt) => d[p.y*W + p.x] < 0 ? Infinity : d[p.y*W + p.x];
+  const fromStart = distancesFrom(maze, start);
+  const fromStop = stops.map(p => distancesFrom(maze, p));
+  let best = Infinity, bestOrder = stops.map((_, i) => i);
+  const used = new Uint8Array(n), cur: number[] = [];
+  const walk = (last: number, len: number) => {
+    if (len >= best) return;
+    if (cur.length === n) {
+      const total = len + at(fromStop[last], goal);
+      if (total < best) { best = total; bestOrder = cur.slice(); }
+      return;
+    }
+    for (let i=0;i<n;i++) {
+      if (used[i]) continue;
+      used[i] = 1; cur.push(i);
+      walk(i, len + (last < 0 ? at(fromStart, stops[i]) : at(fromStop[last], stops[i])));
+      used[i] = 0; cur.pop();
+    }
+  };
+  walk(-1, 0);
+  return bestOrder.map(i => stops[i]);
+}
+
+function bfs(maze: Cell[][], start: Pt, goal: Pt): Int32Array {
+  const W = gridWidth(maze), H = maze.length;
+  const prev = new Int32Array(W*H).fill(-1);
+  const s = start.y*W + start.x, t = goal.y*W + goal.x;
+  prev[s] = s;
+
+  const queue = new Int32Array(W*H);
+  let head = 0, tail = 0;
+  queue[tail++] = s;
+  while (head < tail) {
+    const i = queue[head++];
+    if (i === t) break;
+    for (const n of openNeighbors(maze, i % W, (i / W)|0)) {
+      const j = n.y*W + n.x;
+      if (prev[j] !== -1) continue;
+      prev[j] = i; queue[tail++] = j;
+    }
+  }
+  return prev;
+}
+
+// A* with the Manhattan heuristic (admissible on a 4-connected grid → still shortest)
+function aStar(maze: Cell[][], start: Pt, goal: Pt): Int32Array {
+  const W = maze[0].length, H = maze.length;
+  const prev = new Int32Array(W*H).fill(-1);
+  const dist = new Int32Array(W*H).fill(0x7fffffff);
+  const closed = new Uint8Array(W*H);
+  const s = start.y*W + start.x, t = goal.y*W + goal.x;
+  const h = (i:number) => Math.abs((i % W) - goal.x) + Math.abs(((i / W)|0) - goal.y);
+
+  const heap = new MinHeap();
+  prev[s] = s; dist[s] = 0;
+  heap.push(s, h(s));
+  while (heap.size) {
+    const i = heap.pop();
+    if (closed[i]) continue;
+    if (i === t) break;
+    closed[i] = 1;
+    for (const n of openNeighbors(maze, i % W, (i / W)|0)) {
+      const j = n.y*W + n.x, d = dist[i] + 1;
+      if (d >= dist[j]) continue;
+      dist[j] = d; prev[j] = i;
+      heap.push(j, d + h(j));
+    }
+  }
+  return prev;
+}
+
+function walkBack(prev: Int32Array, W:number, start: Pt, goal: Pt): Pt[] {
+  const s = start.y*W + start.x;
+  let i = goal.y*W + goal.x;
+  if (prev[i] === -1) return [];
+  const path: Pt[] = [];
+  for (;;) {
+    path.push({ x: i % W, y: (i / W)|0 });
+    if (i === s) break;
+    i = prev[i];
+  }
+  return path.reverse();
+}
+
+// binary heap keyed by priority; ties resolve by insertion order
+class MinHeap {
+  private items: { v:number; p:number; k:number }[] = [];
+  private counter = 0;
+  get size() { return this.items.length; }
+  push(v:number, p:number) {
+    const a = this.items; a.push({ v, p, k: this.counter++ });
+    let i = a.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(a[i], a[parent])) break;
+      [a[i], a[parent]] = [a[parent], a[i]]; i = parent;
+    }
+  }
+  pop(): number {
+    const a = this.items, top = a[0], last = a.pop()!;
+    if (a.length) {
+      a[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2*i + 1, r = l + 1;
+        let m = i;
+        if (l < a.length && this.less(a[l], a[m])) m = l;
+        if (r < a.length && this.less(a[r], a[m])) m = r;
+        if (m === i) break;
+        [a[i], a[m]] = [a[m], a[i]]; i = m;
+      }
+    }
+    return top.v;
+  }
+  private less(A:{p:number;k:number}, B:{p:number;k:number}) { return A.p < B.p || (A.p === B.p && A.k < B.k); }
+}
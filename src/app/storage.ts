@@ -0,0 +1,197 @@
+// src/app/storage.ts
+import type { SavedMaze } from "./library";
+import type { Pt } from "./solver";
+import type { Player, Score } from "./challenge";
+
+/**
+ * Persistence layer. App code talks to `MazeStorage`; the bytes live in a
+ * `StorageBackend` — IndexedDB in the browser, an in-memory fake in tests.
+ *
+ *   settings  "current"        → persisted Settings
+ *   mazes     <SavedMaze.id>   → SavedMaze
+ *   images    "marker:start"   → data URL of an uploaded marker (start, goal, waypoint)
+ *   paths     <maze params key> → snap-mode segments drawn on that maze
+ *   players   <Player.id>      → race-mode profile
+ *   scores    <maze params key> → that maze's leaderboard, best first
+ */
+export type StoreName = "settings" | "mazes" | "images" | "paths" | "players" | "scores";
+export const STORES: StoreName[] = ["settings", "mazes", "images", "paths", "players", "scores"];
+
+export interface StorageBackend {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+}
+
+/** Thrown by MazeStorage; `quota` is set when the browser refused for space */
+export class StorageError extends Error {
+  quota: boolean;
+  constructor(message: string, quota: boolean, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "StorageError";
+    this.quota = quota;
+  }
+}
+
+// localStorage keys from before IndexedDB; read once by migrate()
+export const LEGACY_SETTINGS_KEY = "maze:settings:v1";
+export const LEGACY_MAZES_KEY = "savedMazes:v1";
+const MIGRATED_KEY = "migrated:localStorage";
+
+const DB_NAME = "infimaze";
+const DB_VERSION = 2;   // 2: players, scores
+
+export type MarkerSlot = "start" | "goal" | "waypoint";
+
+export type MazeStorage = ReturnType<typeof createStorage>;
+
+export function createStorage(backend: StorageBackend) {
+  // wrap every write so callers see one error type
+  const write = async (what: string, fn: () => Promise<void>) => {
+    try { await fn(); }
+    catch (e) {
+      const quota = isQuotaError(e);
+      throw new StorageError(quota ? `Out of storage space while saving ${what}.` : `Couldn't save ${what}.`, quota, { cause: e });
+    }
+  };
+
+  return {
+    async loadSettings<T extends object>(): Promise<Partial<T> | null> {
+      return (await backend.get<Partial<T>>("settings", "current")) ?? null;
+    },
+    saveSettings<T extends object>(s: T) {
+      return write("settings", () => backend.put("settings", "current", s));
+    },
+
+    async loadMazes(): Promise<SavedMaze[]> {
+      const list = await backend.getAll<SavedMaze>("mazes");
+      return list.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    putMaze(m: SavedMaze) {
+      return write(`"${m.name}"`, () => backend.put("mazes", m.id, m));
+    },
+    deleteMaze(id: string) {
+      return write("the library", () => backend.delete("mazes", id));
+    },
+    replaceMazes(list: SavedMaze[]) {
+      return write("the library", async () => {
+        await backend.clear("mazes");
+        for (const m of list) await backend.put("mazes", m.id, m);
+      });
+    },
+
+    loadMarker(slot: MarkerSlot) {
+      return backend.get<string>("images", `marker:${slot}`);
+    },
+    /** Keep an uploaded data-URL marker; anything else clears the slot */
+    saveMarker(slot: MarkerSlot, icon: string | null) {
+      return write("the marker image", () => icon?.startsWith("data:")
+        ? backend.put("images", `marker:${slot}`, icon)
+        : backend.delete("images", `marker:${slot}`));
+    },
+
+    loadPath(mazeKey: string) {
+      return backend.get<Pt[][]>("paths", mazeKey);
+    },
+    savePath(mazeKey: string, segments: Pt[][]) {
+      return write("the drawn path", () => segments.length
+        ? backend.put("paths", mazeKey, segments)
+        : backend.delete("paths", mazeKey));
+    },
+
+    async loadPlayers(): Promise<Player[]> {
+      const list = await backend.getAll<Player>("players");
+      return list.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    putPlayer(p: Player) {
+      return write(`"${p.name}"`, () => backend.put("players", p.id, p));
+    },
+    deletePlayer(id: string) {
+      return write("the players", () => backend.delete("players", id));
+    },
+
+    async loadScores(mazeKey: string): Promise<Score[]> {
+      return (await backend.get<Score[]>("scores", mazeKey)) ?? [];
+    },
+    saveScores(mazeKey: string, list: Score[]) {
+      return write("the leaderboard", () => list.length
+        ? backend.put("scores", mazeKey, list)
+        : backend.delete("scores", mazeKey));
+    },
+
+    /**
+     * One-time copy of the old localStorage keys. Marked done in the
+     * settings store so it never runs twice; the old keys are left alone.
+     */
+    async migrate(ls: Pick<Storage, "getItem"> | null): Promise<boolean> {
+      if (!ls || await backend.get<boolean>("settings", MIGRATED_KEY)) return false;
+      const parse = (k: string) => { try { return JSON.parse(ls.getItem(k) || "null"); } catch { return null; } };
+      const settings = parse(LEGACY_SETTINGS_KEY);
+      const mazes = parse(LEGACY_MAZES_KEY);
+      await write("migrated data", async () => {
+        if (settings && typeof settings === "object") await backend.put("settings", "current", settings);
+        if (Array.isArray(mazes)) for (const m of mazes) if (m && typeof m.id === "string") await backend.put("mazes", m.id, m);
+        await backend.put("settings", MIGRATED_KEY, true);
+      });
+      return true;
+    },
+  };
+}
+
+export function isQuotaError(e: unknown): boolean {
+  const name = (e as { name?: string } | null)?.name;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+/* ---------------- backends ---------------- */
+
+export function createIDBBackend(dbName = DB_NAME): StorageBackend {
+  let dbp: Promise<IDBDatabase> | null = null;
+  const open = () => dbp ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(dbName, DB_VERSION);
+    req.onupgradeneeded = () => {
+      for (const s of STORES) if (!req.result.objectStoreNames.contains(s)) req.result.createObjectStore(s);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+  // one request per transaction; resolve on commit so quota aborts surface
+  const run = <T>(store: StoreName, mode: IDBTransactionMode, fn: (os: IDBObjectStore) => IDBRequest) =>
+    open().then(db => new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const req = fn(tx.objectStore(store));
+      tx.oncomplete = () => resolve(req.result as T);
+      tx.onabort = tx.onerror = () => reject(tx.error ?? req.error);
+    }));
+
+  return {
+    get: (store, key) => run(store, "readonly", os => os.get(key)),
+    getAll: (store) => run(store, "readonly", os => os.getAll()),
+    put: (store, key, value) => run(store, "readwrite", os => os.put(value, key)).then(() => {}),
+    delete: (store, key) => run(store, "readwrite", os => os.delete(key)).then(() => {}),
+    clear: (store) => run(store, "readwrite", os => os.clear()).then(() => {}),
+  };
+}
+
+/** In-memory backend: tests, and browsers without IndexedDB (nothing persists) */
+export function createMemoryBackend(): StorageBackend {
+  const data = new Map<StoreName, Map<string, unknown>>(STORES.map(s => [s, new Map()]));
+  // structured clone so callers can't mutate what's "on disk"
+  const copy = <T>(v: T): T => v === undefined ? v : structuredClone(v);
+  const rows = <T>(store: StoreName) => data.get(store) as Map<string, T>;
+  return {
+    get: async <T>(store: StoreName, key: string) => copy(rows<T>(store).get(key)),
+    getAll: async <T>(store: StoreName) => { const m = rows<T>(store); return [...m.keys()].sort().map(k => copy(m.get(k)!)); },
+    put: async (store, key, value) => { data.get(store)!.set(key, copy(value)); },
+    delete: async (store, key) => { data.get(store)!.delete(key); },
+    clear: async (store) => { data.get(store)!.clear(); },
+  };
+}
+
+export function createDefaultStorage(): { storage: MazeStorage; persistent: boolean } {
+  const persistent = typeof indexedDB !== "undefined";
+  return { storage: createStorage(persistent ? createIDBBackend() : createMemoryBackend()), persistent };
+}
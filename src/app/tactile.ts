@@ -0,0 +1,205 @@
+// src/app/tactile.ts
+import { toSVG, type MazeResult } from "./maze";
+import type { Pt } from "./solver";
+import { THEMES, type MazeTheme } from "./theme";
+import { gridOf } from "./topology";
+import { PAPER, worksheetHTML, type Paper } from "./worksheet";
+
+/**
+ * Tactile / large-print export: one maze per page at an exact paper size,
+ * walls a fixed thickness in millimetres, cells never smaller than a set
+ * minimum, and solid start / goal shapes instead of emoji (they survive swell
+ * paper and embossers; colour and fine detail don't).
+ *
+ * Optionally a Braille-ready grid description follows: the maze as rows of
+ * North American ASCII Braille ("=" is the full cell, dots 1–6, for walls;
+ * blanks are passages), downloadable as a .brf for an embosser and printed in
+ * large type for whoever transcribes it. Flat square grids only.
+ */
+export type TactileProfile = {
+  paper: Paper;
+  minCellMm: number;   // refuse to shrink cells below this
+  wallMm: number;      // wall thickness
+  braille: boolean;    // add the grid description
+};
+
+export type TactileOpts = TactileProfile & { title?: string; solution?: Pt[] };
+
+// what Print does: the maze as on screen, or this profile
+export type PrintMode = "screen" | "tactile";
+export const isPrintMode = (x: unknown): x is PrintMode => x === "screen" || x === "tactile";
+
+export const DEFAULT_TACTILE: TactileProfile = { paper: "a4", minCellMm: 12, wallMm: 2.5, braille: false };
+export const MIN_CELL_MM = { min: 8, max: 30 };
+export const WALL_MM = { min: 1, max: 5 };
+
+// everything one ink on white; the profile sets the stroke, so the theme's weight is 1
+export const TACTILE_THEME: MazeTheme = {
+  ...THEMES["high-contrast"], label: "Tactile", wall: "#000", wallWidth: 1, style: "square", floor: "#fff", text: "#000",
+};
+
+const PAGE_MARGIN = 12;   // mm
+const HEADER_H = 18;      // mm: title and legend
+const FOOTER_H = 8;       // mm
+const MAX_CELL_MM = 40;   // tiny mazes stop growing here
+
+// an embosser line and page, in Braille cells
+export const BRF_LINE = 40;
+export const BRF_PAGE = 25;
+
+const clamp = (n:number, lo:number, hi:number) => Math.max(lo, Math.min(hi, n));
+
+/** Stored or hand-edited values back into range */
+export function normalizeTactile(x: Partial<TactileProfile> | null | undefined, fallback = DEFAULT_TACTILE): TactileProfile {
+  const num = (v: unknown, d: number, r: { min:number; max:number }) => typeof v === "number" && isFinite(v) ? clamp(v, r.min, r.max) : d;
+  return {
+    paper: x?.paper && x.paper in PAPER ? x.paper : fallback.paper,
+    minCellMm: num(x?.minCellMm, fallback.minCellMm, MIN_CELL_MM),
+    wallMm: num(x?.wallMm, fallback.wallMm, WALL_MM),
+    braille: typeof x?.braille === "boolean" ? x.braille : fallback.braille,
+  };
+}
+
+export type TactileLayout = {
+  cellMm: number;               // the cell size the page uses
+  fits: boolean;                // false: even minCellMm overflows the page
+  maxCols: number; maxRows: number;   // square cells that fit at minCellMm
+};
+
+/** Biggest cell (to 0.5 mm) that puts the whole maze on the page */
+export function tactileLayout(r: MazeResult, o: Pick<TactileProfile, "paper" | "minCellMm" | "wallMm">): TactileLayout {
+  const { w, h } = area(o.paper, o.wallMm);
+  const { size } = gridOf(r.maze, r.topology, r.floors);
+  const best = Math.floor(Math.min(w / size.w, h / size.h, MAX_CELL_MM) * 2) / 2;
+  return {
+    cellMm: Math.max(best, o.minCellMm),
+    fits: best >= o.minCellMm,
+    maxCols: Math.floor(w / o.minCellMm), maxRows: Math.floor(h / o.minCellMm),
+  };
+}
+
+// room for the maze itself; the walls' own margin comes out of it
+function area(paper: Paper, wallMm: number) {
+  const { w, h } = PAPER[paper];
+  return { w: w - PAGE_MARGIN * 2 - wallMm * 2, h: h - PAGE_MARGIN * 2 - HEADER_H - FOOTER_H - wallMm * 2 };
+}
+
+/** The maze page: an SVG in millimetres at the paper's exact size */
+export function tactilePage(r: MazeResult, o: TactileOpts): string {
+  const { w: PW, h: PH } = PAPER[o.paper];
+  const { cellMm } = tactileLayout(r, o);
+  const inner = toSVG(r, {
+    cell: cellMm, margin: o.wallMm, stroke: o.wallMm, theme: TACTILE_THEME, glyphs: true,
+    solution: o.solution, solutionColor: "#000",
+  });
+  const { size } = gridOf(r.maze, r.topology, r.floors);
+  const mw = size.w * cellMm + o.wallMm * 2, mh = size.h * cellMm + o.wallMm * 2;
+  const top = PAGE_MARGIN + HEADER_H, availH = PH - top - PAGE_MARGIN - FOOTER_H;
+  const mx = (PW - mw) / 2, my = top + Math.max(0, (availH - mh) / 2);
+
+  let svg = open(PW, PH);
+  svg += `<text x="${PAGE_MARGIN}" y="${PAGE_MARGIN + 7}" font-size="8" font-weight="700">${esc(o.title || "Maze")}</text>`;
+  svg += legend(PAGE_MARGIN, PAGE_MARGIN + 15, r);
+  svg += inner.replace("<svg ", `<svg x="${+mx.toFixed(2)}" y="${+my.toFixed(2)}" width="${+mw.toFixed(2)}" height="${+mh.toFixed(2)}" `);
+  svg += `<text x="${PW / 2}" y="${PH - PAGE_MARGIN}" font-size="4.5" text-anchor="middle">${cellMm} mm cells · ${o.wallMm} mm walls${o.solution ? " · answer key" : ""}</text>`;
+  return svg + `</svg>`;
+}
+
+// the glyphs, drawn as they are in the maze, with their names
+function legend(x: number, y: number, r: MazeResult): string {
+  const k = 2.4, wp = r.waypoints?.cells.length ? r.waypoints.kind : null;
+  const items: [string, string][] = [
+    [`<circle cx="${k}" cy="0" r="${k}"/>`, "Start"],
+    [`<rect x="0" y="${-k}" width="${k * 2}" height="${k * 2}"/>`, "Goal"],
+  ];
+  if (wp === "treasures") items.push([`<path d="M${k} ${-k}l${k} ${k}l${-k} ${k}l${-k} ${-k}Z"/>`, "Treasure"]);
+  if (wp === "checkpoints") items.push([`<circle cx="${k}" cy="0" r="${k * 0.85}" fill="#fff" stroke="#000" stroke-width="0.7"/>`, "Checkpoints, in order"]);
+  return items.map(([shape, label], i) => `<g transform="translate(${x + i * 32} ${y})">${shape}`
+    + `<text x="${k * 2 + 1.5}" y="0" font-size="5.5" dominant-baseline="central">${label}</text></g>`).join("");
+}
+
+/**
+ * The maze as ASCII Braille rows: 2W+1 characters by 2H+1 lines, "=" for
+ * walls and posts, blanks for passages, S and G at the ends, checkpoint
+ * numbers 1–9 ("*" past nine, and for treasures). Crossings read as the
+ * upper deck. Null for shapes without a square grid.
+ */
+export function brailleGrid(r: MazeResult): string[] | null {
+  if ((r.topology ?? "square") !== "square" || (r.floors ?? 1) > 1) return null;
+  const m = r.maze, H = m.length, W = m[0]?.length ?? 0;
+  const marks = new Map<string, string>([[`${r.start.x},${r.start.y}`, "S"], [`${r.goal.x},${r.goal.y}`, "G"]]);
+  r.waypoints?.cells.forEach((p, i) =>
+    marks.set(`${p.x},${p.y}`, r.waypoints!.kind === "checkpoints" && i < 9 ? String(i + 1) : "*"));
+
+  const rows: string[] = [];
+  for (let y=0;y<H;y++) {
+    let top = "", mid = "";
+    for (let x=0;x<W;x++) {
+      const c = m[y][x];
+      top += "=" + (c.n ? "=" : " ");
+      mid += (c.w ? "=" : " ") + (c.off ? "=" : marks.get(`${x},${y}`) ?? " ");
+    }
+    rows.push(top + "=", mid + (m[y][W - 1].e ? "=" : " "));
+  }
+  rows.push("=".repeat(W * 2 + 1));
+  return rows;
+}
+
+// what each grid symbol means, for the key lines
+function brailleKey(r: MazeResult): string[] {
+  const key = ["S START G GOAL", "= WALL BLANK PATH"];
+  if (r.waypoints?.cells.length) key.push(r.waypoints.kind === "checkpoints" ? "1 TO 9 CHECKPOINTS IN ORDER" : "* TREASURE");
+  return key;
+}
+
+// ASCII Braille: letters only in capitals, numbers as a number sign then A–J, no punctuation
+const brfText = (s: string) => s.toUpperCase()
+  .replace(/[^A-Z0-9 ]/g, " ").replace(/\d+/g, d => "#" + [...d].map(c => "JABCDEFGHI"[+c]).join(""))
+  .replace(/ +/g, " ").trim().slice(0, BRF_LINE);
+
+/** A .brf for an embosser: title and key, then the grid, BRF_PAGE lines to a page (null: no square grid) */
+export function brailleFile(r: MazeResult, title: string): string | null {
+  const rows = brailleGrid(r);
+  if (!rows) return null;
+  const lines = [brfText(title), ...brailleKey(r), "", ...rows];
+  const pages: string[] = [];
+  for (let i=0;i<lines.length;i+=BRF_PAGE) pages.push(lines.slice(i, i + BRF_PAGE).join("\r\n"));
+  return pages.join("\r\n\f") + "\r\n";
+}
+
+/** The same rows in large monospace type, a page at a time */
+export function braillePages(r: MazeResult, rows: string[], paper: Paper, title: string): string[] {
+  const { w: PW, h: PH } = PAPER[paper];
+  const cols = rows[0]?.length ?? 1;
+  // monospace advances 0.6 em; stay large print (≥ 4 mm) even if that means a wide grid runs off
+  const fs = +clamp((PW - PAGE_MARGIN * 2) / (cols * 0.6), 4, 9).toFixed(2), lh = +(fs * 1.05).toFixed(2);
+  const perPage = Math.max(1, Math.floor((PH - PAGE_MARGIN * 2 - HEADER_H) / lh));
+  const pages: string[] = [];
+  for (let i=0;i<rows.length;i+=perPage) {
+    let svg = open(PW, PH);
+    svg += `<text x="${PAGE_MARGIN}" y="${PAGE_MARGIN + 7}" font-size="8" font-weight="700">${esc(title)} — Braille grid</text>`;
+    svg += `<text x="${PAGE_MARGIN}" y="${PAGE_MARGIN + 15}" font-size="5">${esc(brailleKey(r).join(" · ").toLowerCase())}</text>`;
+    rows.slice(i, i + perPage).forEach((row, j) => {
+      svg += `<text x="${PAGE_MARGIN}" y="${+(PAGE_MARGIN + HEADER_H + lh * (j + 1)).toFixed(2)}" font-size="${fs}" font-family="ui-monospace, Menlo, Consolas, monospace" xml:space="preserve">${esc(row)}</text>`;
+    });
+    pages.push(svg + `</svg>`);
+  }
+  return pages;
+}
+
+/** Printable document: the maze page, then the Braille grid pages if asked for */
+export function tactileHTML(r: MazeResult, o: TactileOpts): string {
+  const title = o.title || "Maze";
+  const pages = [tactilePage(r, o)];
+  const rows = o.braille ? brailleGrid(r) : null;
+  if (rows) pages.push(...braillePages(r, rows, o.paper, title));
+  return worksheetHTML(pages, o.paper, title);
+}
+
+const open = (PW: number, PH: number) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${PW}mm" height="${PH}mm" viewBox="0 0 ${PW} ${PH}" font-family="system-ui, sans-serif">`
+  + `<rect width="${PW}" height="${PH}" fill="#fff"/>`;
+
+function esc(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
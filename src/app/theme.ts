@@ -0,0 +1,99 @@
+// src/app/theme.ts
+
+/**
+ * How a maze looks, separate from what it is: wall colour, weight and
+ * stroke style, the floor behind it, marker fallbacks and overlay colours.
+ * toSVG, the canvas view and the overlays all read the same object, and
+ * "classic" draws exactly what the app always drew.
+ *
+ * Wall styles: "square" / "round" (line caps and joins), "sketchy" (wobbly
+ * hand-drawn strokes, the same wobble every time for a given maze) and
+ * "corridor" (no walls at all: the passages are painted as broad bands on
+ * the floor colour).
+ */
+export type WallStyle = "square" | "round" | "sketchy" | "corridor";
+
+export type MazeTheme = {
+  label: string;
+  wall: string;
+  wallWidth: number;            // × the stroke the cell size asks for
+  style: WallStyle;
+  floor: string | null;         // backdrop; null = transparent
+  corridor: string;             // passage colour for the "corridor" style
+  text: string;                 // floor labels
+  start: string; goal: string;  // dots when there's no icon
+  checkpoint: string; treasure: string;
+  solution: string;
+  replay: { live: string; popped: string; braid: string; head: string; visited: string; frontier: string; route: string };
+};
+
+export type ThemeId = "classic" | "high-contrast" | "print" | "blueprint" | "sketch" | "garden" | "dark";
+// "auto": classic, or dark when the OS asks for it
+export type ThemeChoice = ThemeId | "auto";
+
+const REPLAY = { live: "#3b82f6", popped: "#c7d2fe", braid: "#10b981", head: "#f97316", visited: "#fde68a", frontier: "#fb923c", route: "#f59e0b" };
+const CLASSIC: MazeTheme = {
+  label: "Classic", wall: "#111", wallWidth: 1, style: "square", floor: null, corridor: "#fff", text: "#586174",
+  start: "limegreen", goal: "crimson", checkpoint: "#2563eb", treasure: "#f59e0b", solution: "#f59e0b", replay: REPLAY,
+};
+
+export const THEMES: Record<ThemeId, MazeTheme> = {
+  classic: CLASSIC,
+  "high-contrast": {
+    ...CLASSIC, label: "High contrast", wall: "#000", wallWidth: 1.8, floor: "#fff", text: "#000",
+    start: "#008000", goal: "#c00000", checkpoint: "#0000c0", treasure: "#b35900", solution: "#d000d0",
+    replay: { ...REPLAY, live: "#0050ff", popped: "#9ab4ff", braid: "#007a3d", head: "#ff5a00" },
+  },
+  // thin grey lines and outline-friendly markers: light on toner, clear on paper
+  print: {
+    ...CLASSIC, label: "Printer-friendly", wall: "#444", wallWidth: 0.75, floor: null, text: "#444",
+    start: "#777", goal: "#222", checkpoint: "#555", treasure: "#999", solution: "#888",
+  },
+  blueprint: {
+    ...CLASSIC, label: "Blueprint", wall: "#e0f2fe", style: "round", floor: "#1e3a8a", text: "#bfdbfe",
+    start: "#86efac", goal: "#fca5a5", checkpoint: "#fde047", treasure: "#fdba74", solution: "#fde047",
+    replay: { ...REPLAY, live: "#38bdf8", popped: "#1e40af", head: "#fde047" },
+  },
+  sketch: {
+    ...CLASSIC, label: "Hand-drawn", wall: "#374151", wallWidth: 1.1, style: "sketchy", floor: "#fffbeb", text: "#6b7280",
+  },
+  garden: {
+    ...CLASSIC, label: "Garden paths", wall: "#166534", style: "corridor", floor: "#4d7c0f", corridor: "#fef3c7", text: "#ecfccb",
+    start: "#2563eb", goal: "#dc2626", solution: "#ea580c",
+  },
+  dark: {
+    ...CLASSIC, label: "Dark", wall: "#e5e7eb", style: "round", floor: "#111827", corridor: "#1f2937", text: "#9ca3af",
+    start: "#4ade80", goal: "#f87171", checkpoint: "#60a5fa", treasure: "#fbbf24", solution: "#fbbf24",
+    replay: { live: "#2563eb", popped: "#334155", braid: "#059669", head: "#fb923c", visited: "#854d0e", frontier: "#f97316", route: "#fbbf24" },
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export function isThemeChoice(x: unknown): x is ThemeChoice {
+  return x === "auto" || (typeof x === "string" && x in THEMES);
+}
+
+export function resolveTheme(choice: ThemeChoice, prefersDark: boolean): MazeTheme {
+  return THEMES[choice === "auto" ? (prefersDark ? "dark" : "classic") : choice];
+}
+
+/** A stable wobble in [-1, 1] for a point, so sketchy walls don't shimmer between renders */
+export function wobble(x: number, y: number, k = 0): number {
+  let h = Math.imul(Math.round(x * 64) ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(Math.round(y * 64) + k, 0xc2b2ae35);
+  h ^= h >>> 15; h = Math.imul(h, 0x2c1b3c6d); h ^= h >>> 12;
+  return ((h >>> 0) / 4294967295) * 2 - 1;
+}
+
+/**
+ * SVG path data for a hand-drawn line from (x1, y1) to (x2, y2): a slight
+ * overshoot at both ends and a bowed middle, scaled to the segment.
+ */
+export function sketchSegment(x1: number, y1: number, x2: number, y2: number, amp: number): string {
+  const dx = x2 - x1, dy = y2 - y1, len = Math.hypot(dx, dy) || 1;
+  const nx = -dy / len, ny = dx / len, o = amp * 0.6;
+  const a = wobble(x1, y1, 1) * o, b = wobble(x2, y2, 2) * o, m = wobble(x1 + x2, y1 + y2, 3) * amp;
+  const r = (n: number) => +n.toFixed(2);
+  return `M${r(x1 - dx/len*o + nx*a)} ${r(y1 - dy/len*o + ny*a)}`
+    + `Q${r((x1 + x2)/2 + nx*m)} ${r((y1 + y2)/2 + ny*m)} ${r(x2 + dx/len*o + nx*b)} ${r(y2 + dy/len*o + ny*b)}`;
+}
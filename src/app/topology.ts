@@ -0,0 +1,299 @@
+// src/app/topology.ts
+import type { Cell } from "./maze";
+import type { Pt } from "./solver";
+
+/**
+ * Grid shapes. Every topology addresses cells as (x, y): `y` is the row
+ * (the ring, for theta) and `x` the position along it, so rows may differ in
+ * length. Geometry is in cell units (a square cell is 1×1, origin top-left);
+ * renderers multiply by `cell` and add `margin`.
+ */
+export type TopologyId = "square" | "hex" | "triangle" | "theta";
+
+export const TOPOLOGIES: Record<TopologyId, { label: string }> = {
+  square:   { label: "Square" },
+  hex:      { label: "Hexagonal" },
+  triangle: { label: "Triangular" },
+  theta:    { label: "Circular (theta)" },
+};
+
+export const TOPOLOGY_IDS = Object.keys(TOPOLOGIES) as TopologyId[];
+
+export function isTopologyId(x: unknown): x is TopologyId {
+  return typeof x === "string" && x in TOPOLOGIES;
+}
+
+// a straight wall, or (with r) a clockwise arc of radius r around the grid centre
+export type Wall = { x1:number; y1:number; x2:number; y2:number; r?:number };
+
+// one side of a cell: who is across it (null on the border) and its heading.
+// `dir` is stable per heading, so equal dirs on consecutive steps = straight on.
+// Portal sides (stairs between floors) have no wall to draw.
+export type Side = { nb: Pt | null; dir: number; wall: Wall; portal?: true };
+
+export type Grid = {
+  topology: TopologyId;
+  rows: number;
+  rowLength: (y:number) => number;
+  width: number;                         // longest row; index stride is y*width + x
+  size: { w:number; h:number };          // bounding box in cell units
+  center: (x:number, y:number) => [number, number];
+  sides: (x:number, y:number) => Side[];
+  // false for cells a mask removed (see restrictGrid)
+  has: (x:number, y:number) => boolean;
+  // stacked floors (see stackFloors): row y is row y % base.rows of floor y / base.rows
+  floors?: { count:number; base:Grid; origin:(f:number) => [number, number] };
+};
+
+/** A passage out of a non-square cell, tagged with the side's heading */
+export type Link = Pt & { dir:number };
+
+// width / height slider range (odd sizes; the big end is poster territory)
+export const MIN_SIZE = 7, MAX_SIZE = 501;
+
+/** Grid rows/columns for the width×height sliders (theta: rings across the diameter) */
+export function gridDims(topology: TopologyId, width: number, height: number) {
+  return topology === "theta"
+    ? { cols: 1, rows: Math.max(2, Math.ceil(height / 2)) }
+    : { cols: width, rows: height };
+}
+
+export function gridForParams(p: { width:number; height:number; topology?:TopologyId; floors?:number }): Grid {
+  const t = p.topology ?? "square";
+  const { cols, rows } = gridDims(t, p.width, p.height);
+  return stackFloors(createGrid(t, cols, rows), p.floors ?? 1);
+}
+
+/** The grid a built maze lives on */
+export function gridOf(maze: Cell[][], topology: TopologyId = "square", floors = 1): Grid {
+  return stackFloors(createGrid(topology, gridWidth(maze), maze.length / floors), floors);
+}
+
+export function gridWidth(maze: Cell[][]): number {
+  let w = 0;
+  for (const row of maze) w = Math.max(w, row.length);
+  return w;
+}
+
+/** Heading of the step a→b: the link's dir, or an encoded dx/dy on square grids (tunnels go straight on) */
+export function stepDir(maze: Cell[][], a: Pt, b: Pt): number {
+  const l = maze[a.y]?.[a.x]?.links?.find(l => l.x === b.x && l.y === b.y);
+  return l ? l.dir : Math.sign(b.x - a.x) * 3 + Math.sign(b.y - a.y);
+}
+
+export function createGrid(topology: TopologyId, cols: number, rows: number): Grid {
+  const g = topology === "hex" ? hexGrid(cols, rows)
+    : topology === "triangle" ? triangleGrid(cols, rows)
+    : topology === "theta" ? thetaGrid(rows)
+    : squareGrid(cols, rows);
+  return { ...g, has: (x, y) => y >= 0 && y < g.rows && x >= 0 && x < g.rowLength(y) };
+}
+
+/** Same grid with only the cells `keep` allows; sides toward removed cells become borders */
+export function restrictGrid(grid: Grid, keep: (x:number, y:number) => boolean): Grid {
+  const has = (x:number, y:number) => grid.has(x, y) && keep(x, y);
+  return {
+    ...grid, has,
+    sides: (x, y) => grid.sides(x, y).map(s => s.nb && !has(s.nb.x, s.nb.y) ? { ...s, nb: null } : s),
+  };
+}
+
+/** `p` if the grid has it, else the existing cell whose centre is closest */
+export function nearestCell(grid: Grid, p: Pt): Pt {
+  if (grid.has(p.x, p.y)) return p;
+  const y = Math.max(0, Math.min(p.y, grid.rows - 1));
+  return cellNear(grid, ...grid.center(Math.max(0, Math.min(p.x, grid.rowLength(y) - 1)), y));
+}
+
+/** The existing cell whose centre is closest to (u, v), in grid units */
+export function cellNear(grid: Grid, u: number, v: number): Pt {
+  let best = { x: 0, y: 0 }, bd = Infinity;
+  for (let y=0;y<grid.rows;y++) for (let x=0;x<grid.rowLength(y);x++) {
+    if (!grid.has(x, y)) continue;
+    const [cx, cy] = grid.center(x, y), d = (cx - u) ** 2 + (cy - v) ** 2;
+    if (d < bd) { bd = d; best = { x, y }; }
+  }
+  return best;
+}
+
+// a topology's raw geometry; createGrid adds `has`
+type Shape = Omit<Grid, "has">;
+
+/* ---------------- square ---------------- */
+
+function squareGrid(W: number, H: number): Shape {
+  const inb = (x:number, y:number) => x>=0 && x<W && y>=0 && y<H;
+  const at = (x:number, y:number) => inb(x, y) ? { x, y } : null;
+  return {
+    topology: "square", rows: H, rowLength: () => W, width: W,
+    size: { w: W, h: H },
+    center: (x, y) => [x + 0.5, y + 0.5],
+    sides: (x, y) => [
+      { nb: at(x, y-1), dir: 0, wall: { x1:x,   y1:y,   x2:x+1, y2:y } },
+      { nb: at(x+1, y), dir: 1, wall: { x1:x+1, y1:y,   x2:x+1, y2:y+1 } },
+      { nb: at(x, y+1), dir: 2, wall: { x1:x+1, y1:y+1, x2:x,   y2:y+1 } },
+      { nb: at(x-1, y), dir: 3, wall: { x1:x,   y1:y+1, x2:x,   y2:y } },
+    ],
+  };
+}
+
+/* ---------------- hex (pointy-top, odd rows shifted right) ---------------- */
+
+function hexGrid(W: number, H: number): Shape {
+  const R = 1 / Math.sqrt(3);             // corner radius for a hex 1 unit wide
+  const inb = (x:number, y:number) => x>=0 && x<W && y>=0 && y<H;
+  const center = (x:number, y:number): [number, number] => [x + 0.5 * (y & 1) + 0.5, R + y * 1.5 * R];
+  const corner = (c:[number, number], k:number): [number, number] => {
+    const a = (Math.PI / 180) * (60 * k - 90);
+    return [c[0] + R * Math.cos(a), c[1] + R * Math.sin(a)];
+  };
+  return {
+    topology: "hex", rows: H, rowLength: () => W, width: W,
+    size: { w: W + (H > 1 ? 0.5 : 0), h: 2 * R + (H - 1) * 1.5 * R },
+    center,
+    sides: (x, y) => {
+      const o = y & 1, c = center(x, y);
+      // side k runs corner k → k+1: NE, E, SE, SW, W, NW
+      const offs: [number, number][] = [[o, -1], [1, 0], [o, 1], [o - 1, 1], [-1, 0], [o - 1, -1]];
+      return offs.map(([dx, dy], k) => {
+        const [x1, y1] = corner(c, k), [x2, y2] = corner(c, k + 1);
+        return { nb: inb(x + dx, y + dy) ? { x: x + dx, y: y + dy } : null, dir: k, wall: { x1, y1, x2, y2 } };
+      });
+    },
+  };
+}
+
+/* ---------------- triangle (alternating up/down) ---------------- */
+
+function triangleGrid(W: number, H: number): Shape {
+  const h = Math.sqrt(3) / 2;
+  const inb = (x:number, y:number) => x>=0 && x<W && y>=0 && y<H;
+  const up = (x:number, y:number) => (x + y) % 2 === 0;
+  return {
+    topology: "triangle", rows: H, rowLength: () => W, width: W,
+    size: { w: (W + 1) / 2, h: H * h },
+    center: (x, y) => [x / 2 + 0.5, y * h + (up(x, y) ? 2 * h / 3 : h / 3)],
+    sides: (x, y) => {
+      const l = x / 2, top = y * h, bot = (y + 1) * h;
+      const nb = (dx:number, dy:number) => inb(x + dx, y + dy) ? { x: x + dx, y: y + dy } : null;
+      // dir 0 = left, 1 = right, 2 = across the flat edge
+      return up(x, y) ? [
+        { nb: nb(-1, 0), dir: 0, wall: { x1:l,   y1:bot, x2:l+.5, y2:top } },
+        { nb: nb(1, 0),  dir: 1, wall: { x1:l+.5, y1:top, x2:l+1, y2:bot } },
+        { nb: nb(0, 1),  dir: 2, wall: { x1:l+1, y1:bot, x2:l,   y2:bot } },
+      ] : [
+        { nb: nb(-1, 0), dir: 0, wall: { x1:l+.5, y1:bot, x2:l,   y2:top } },
+        { nb: nb(1, 0),  dir: 1, wall: { x1:l+1, y1:top, x2:l+.5, y2:bot } },
+        { nb: nb(0, -1), dir: 2, wall: { x1:l,   y1:top, x2:l+1, y2:top } },
+      ];
+    },
+  };
+}
+
+/* ---------------- theta (concentric rings) ---------------- */
+
+/** Cells per ring: one in the middle, then split whenever cells get twice as wide as tall */
+export function thetaRingCounts(rings: number): number[] {
+  const n = [1];
+  for (let r=1;r<rings;r++) n.push(n[r-1] * Math.max(1, Math.round(2 * Math.PI * r / n[r-1])));
+  return n;
+}
+
+function thetaGrid(rings: number): Shape {
+  const n = thetaRingCounts(rings);
+  const O = rings;                                    // centre of the disc
+  const ang = (x:number, r:number) => 2 * Math.PI * x / n[r] - Math.PI / 2;
+  const at = (rho:number, a:number): [number, number] => [O + rho * Math.cos(a), O + rho * Math.sin(a)];
+  const arc = (rho:number, a0:number, a1:number): Wall => {
+    const [x1, y1] = at(rho, a0), [x2, y2] = at(rho, a1);
+    return { x1, y1, x2, y2, r: rho };
+  };
+  const ray = (a:number, r0:number, r1:number): Wall => {
+    const [x1, y1] = at(r0, a), [x2, y2] = at(r1, a);
+    return { x1, y1, x2, y2 };
+  };
+
+  return {
+    topology: "theta", rows: rings, rowLength: (y) => n[y] ?? 0, width: n[rings - 1],
+    size: { w: 2 * rings, h: 2 * rings },
+    center: (x, r) => r === 0 ? [O, O] : at(r + 0.5, ang(x + 0.5, r)),
+    sides: (x, r) => {
+      const out: Side[] = [];
+      const a0 = ang(x, r), a1 = ang(x + 1, r);
+      // dir 0 = inward, 1 = clockwise, 2 = counter-clockwise, 3 = outward
+      if (r > 0) {
+        out.push({ nb: { x: Math.floor(x * n[r-1] / n[r]), y: r - 1 }, dir: 0, wall: arc(r, a0, a1) });
+        out.push({ nb: { x: (x + 1) % n[r], y: r }, dir: 1, wall: ray(a1, r, r + 1) });
+        out.push({ nb: { x: (x - 1 + n[r]) % n[r], y: r }, dir: 2, wall: ray(a0, r, r + 1) });
+      }
+      if (r < rings - 1) {
+        const k = n[r+1] / n[r];
+        for (let i=0;i<k;i++) {
+          const cx = x * k + i;
+          out.push({ nb: { x: cx, y: r + 1 }, dir: 3, wall: arc(r + 1, ang(cx, r + 1), ang(cx + 1, r + 1)) });
+        }
+      } else {
+        out.push({ nb: null, dir: 3, wall: arc(r + 1, a0, a1) });
+      }
+      return out;
+    },
+  };
+}
+
+/* ---------------- floors (stacked copies of any grid) ---------------- */
+
+export const MAX_FLOORS = 4;
+// link dirs for stairs; no base topology uses these
+export const PORTAL_UP = 8, PORTAL_DOWN = 9;
+// room above each floor for its label, and between panels (cell units)
+const FLOOR_LABEL = 1, FLOOR_GAP = 1;
+
+/**
+ * `count` copies of `base` laid out as panels (side by side; four make a 2×2
+ * sheet). Row y of the result is row y % base.rows on floor y / base.rows.
+ * `stairs[f]` lists the base cells joined to the same cell one floor up;
+ * geometry-only grids (rendering, overlays) pass none.
+ */
+export function stackFloors(base: Grid, count: number, stairs: Pt[][] = []): Grid {
+  if (count <= 1) return base;
+  const R = base.rows, { w, h } = base.size;
+  const cols = count === 4 ? 2 : count, panelRows = Math.ceil(count / cols);
+  const origin = (f:number): [number, number] =>
+    [(f % cols) * (w + FLOOR_GAP), FLOOR_LABEL + Math.floor(f / cols) * (h + FLOOR_LABEL + FLOOR_GAP)];
+  const up = stairs.map(list => new Set(list.map(p => p.y*base.width + p.x)));
+  const shift = (wl: Wall, ox:number, oy:number): Wall => ({ ...wl, x1: wl.x1 + ox, y1: wl.y1 + oy, x2: wl.x2 + ox, y2: wl.y2 + oy });
+
+  const center = (x:number, y:number): [number, number] => {
+    const f = Math.floor(y / R), [ox, oy] = origin(f), [cx, cy] = base.center(x, y % R);
+    return [ox + cx, oy + cy];
+  };
+  return {
+    topology: base.topology, rows: R * count, rowLength: (y) => base.rowLength(y % R), width: base.width,
+    size: { w: cols * w + (cols - 1) * FLOOR_GAP, h: panelRows * (h + FLOOR_LABEL) + (panelRows - 1) * FLOOR_GAP },
+    center,
+    sides: (x, y) => {
+      const f = Math.floor(y / R), r = y % R, [ox, oy] = origin(f), k = r*base.width + x;
+      const out: Side[] = base.sides(x, r).map(s => ({ ...s, nb: s.nb && { x: s.nb.x, y: f*R + s.nb.y }, wall: shift(s.wall, ox, oy) }));
+      const [cx, cy] = center(x, y), dot = { x1: cx, y1: cy, x2: cx, y2: cy };
+      if (up[f]?.has(k))     out.push({ nb: { x, y: y + R }, dir: PORTAL_UP,   wall: dot, portal: true });
+      if (up[f - 1]?.has(k)) out.push({ nb: { x, y: y - R }, dir: PORTAL_DOWN, wall: dot, portal: true });
+      return out;
+    },
+    has: (x, y) => y >= 0 && y < R * count && base.has(x, y % R),
+    floors: { count, base, origin },
+  };
+}
+
+export function isFloorCount(x: unknown): x is number {
+  return Number.isInteger(x) && (x as number) >= 1 && (x as number) <= MAX_FLOORS;
+}
+
+/** Key suffix for maze identities ("" for a single floor) */
+export function floorsKey(n?: number): string {
+  return n && n > 1 ? `|f${n}` : "";
+}
+
+/** Which floor row y is on (0 without floors) */
+export function floorOf(grid: Grid, y: number): number {
+  return grid.floors ? Math.floor(y / grid.floors.base.rows) : 0;
+}
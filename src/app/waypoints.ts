@@ -0,0 +1,67 @@
+// src/app/waypoints.ts
+import type { Cell, MazeResult } from "./maze";
+import { distancesFrom, solveTour, type Pt } from "./solver";
+import { gridWidth } from "./topology";
+
+/**
+ * Extra marked cells between start and goal. Checkpoints are numbered and
+ * visited in order; treasures are collected in any order before the exit.
+ * `spacing` is the fewest steps wanted between any two marked cells (start
+ * and goal included); when the maze can't fit that many, the rest go as far
+ * apart as they can.
+ */
+export type WaypointKind = "checkpoints" | "treasures";
+export type WaypointSpec = { kind: WaypointKind; count: number; spacing: number };
+export type Waypoints = { kind: WaypointKind; cells: Pt[] };
+
+export const WAYPOINT_KINDS: Record<WaypointKind, { label: string }> = {
+  checkpoints: { label: "Checkpoints (in order)" },
+  treasures:   { label: "Treasures (any order)" },
+};
+
+// shortest-order search for treasures is brute force
+export const MAX_WAYPOINTS = 8;
+
+export function isWaypointSpec(x: any): x is WaypointSpec {
+  return !!x && typeof x === "object" && typeof x.kind === "string" && x.kind in WAYPOINT_KINDS
+    && Number.isInteger(x.count) && x.count >= 1 && x.count <= MAX_WAYPOINTS
+    && Number.isInteger(x.spacing) && x.spacing >= 1;
+}
+
+/** Key suffix for maze identities ("" without waypoints) */
+export function waypointsKey(w?: WaypointSpec): string {
+  return w ? `|w${w.kind === "checkpoints" ? "c" : "t"}${w.count}.${w.spacing}` : "";
+}
+
+/** Pick reachable cells for the stops (checkpoints numbered outward from start) */
+export function placeWaypoints(maze: Cell[][], start: Pt, goal: Pt, spec: WaypointSpec, rnd: () => number): Waypoints {
+  const W = gridWidth(maze);
+  const fromStart = distancesFrom(maze, start);
+  // distance to the nearest marked cell so far
+  const near = Int32Array.from(fromStart);
+  const mark = (p: Pt) => { const d = distancesFrom(maze, p); for (let i=0;i<near.length;i++) if (d[i] >= 0 && d[i] < near[i]) near[i] = d[i]; };
+  mark(goal);
+
+  const cells: Pt[] = [];
+  for (let k=0;k<spec.count;k++) {
+    const spaced: number[] = [];
+    let best = -1;
+    for (let i=0;i<near.length;i++) {
+      if (near[i] <= 0) continue;            // unreachable, or already marked
+      if (near[i] >= spec.spacing) spaced.push(i);
+      if (best < 0 || near[i] > near[best]) best = i;
+    }
+    const i = spaced.length ? spaced[Math.floor(rnd() * spaced.length)] : best;
+    if (i < 0) break;
+    const p = { x: i % W, y: (i / W)|0 };
+    cells.push(p); mark(p);
+  }
+  if (spec.kind === "checkpoints") cells.sort((a, b) => fromStart[a.y*W + a.x] - fromStart[b.y*W + b.x]);
+  return { kind: spec.kind, cells };
+}
+
+/** Full solution for a built maze: start → every stop → goal */
+export function solveRoute(r: MazeResult): Pt[] {
+  const wp = r.waypoints;
+  return solveTour(r.maze, r.start, r.goal, wp?.cells ?? [], wp?.kind !== "treasures");
+}
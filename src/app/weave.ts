@@ -0,0 +1,123 @@
+// src/app/weave.ts
+import type { CarveStep, Cell } from "./maze";
+import { openNeighbors, type Pt } from "./solver";
+
+/**
+ * Over/under crossings for square mazes. A straight corridor cell becomes a
+ * bridge (its deck keeps the corridor) and the two cells either side of it
+ * are joined by a tunnel running underneath. Each tunnel closes a loop in the
+ * tree, so one other passage on that loop is walled up again: the maze stays
+ * perfect, and `b` alone still decides how many loops there are.
+ *
+ * `weave` is the chance that an eligible corridor cell gets a crossing.
+ */
+export const MAX_WEAVE = 0.5;
+
+export function isWeave(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x) && x >= 0 && x <= MAX_WEAVE;
+}
+
+/** Key suffix for maze identities ("" without crossings) */
+export function weaveKey(w?: number): string {
+  return w ? `|v${w}` : "";
+}
+
+/**
+ * Add crossings to a freshly carved square tree, keeping `steps` in sync (tunnels go last).
+ * The tree is kept as parent pointers, so each candidate's loop is found by climbing
+ * from both ends (no search over the whole grid) and each crossing re-hangs only the
+ * cells on that loop.
+ */
+export function weaveTree(tree: Cell[][], steps: CarveStep[], weave: number, rnd: () => number) {
+  const H = tree.length, W = tree[0]?.length ?? 0;
+  const wall = (p: Pt, q: Pt, v: 0 | 1) => {
+    const [a, b] = q.x > p.x ? ["e", "w"] : q.x < p.x ? ["w", "e"] : q.y > p.y ? ["s", "n"] : ["n", "s"];
+    (tree[p.y][p.x] as any)[a] = v; (tree[q.y][q.x] as any)[b] = v;
+  };
+  // a deck's own passages and tunnels never get walled up
+  const fixed = (p: Pt) => !!tree[p.y][p.x].bridge;
+  const at = (i: number): Pt => ({ x: i % W, y: (i / W)|0 });
+
+  // parent pointers for every component (a mask can leave more than one); roots point at -1
+  const parent = new Int32Array(W*H).fill(-1), seen = new Uint8Array(W*H);
+  for (let r=0;r<W*H;r++) {
+    if (seen[r] || tree[(r / W)|0][r % W].off) continue;
+    seen[r] = 1;
+    for (const queue = [r]; queue.length;) {
+      const i = queue.pop()!;
+      for (const n of openNeighbors(tree, i % W, (i / W)|0)) {
+        const j = n.y*W + n.x;
+        if (!seen[j]) { seen[j] = 1; parent[j] = i; queue.push(j); }
+      }
+    }
+  }
+
+  // the tree path a→b: climb from both ends in turn until one reaches a cell the other passed
+  const markA = new Int32Array(W*H), markB = new Int32Array(W*H);
+  let stamp = 0;
+  const treePath = (a: number, b: number): { path: number[]; top: number } | null => {
+    stamp++;
+    const upA = [a], upB = [b];
+    markA[a] = stamp; markB[b] = stamp;
+    let meet = a === b ? a : -1;
+    while (meet < 0) {
+      const i = upA[upA.length - 1], j = upB[upB.length - 1];
+      if (parent[i] < 0 && parent[j] < 0) return null;                   // different components
+      if (parent[i] >= 0) { const k = parent[i]; upA.push(k); markA[k] = stamp; if (markB[k] === stamp) { meet = k; break; } }
+      if (parent[j] >= 0) { const k = parent[j]; upB.push(k); markB[k] = stamp; if (markA[k] === stamp) meet = k; }
+    }
+    const top = upA.indexOf(meet);
+    return { path: [...upA.slice(0, top + 1), ...upB.slice(0, upB.indexOf(meet)).reverse()], top };
+  };
+
+  const key = (i: number, j: number) => Math.min(i, j) * W*H + Math.max(i, j);
+  const walled = new Set<number>();
+
+  for (let y=1;y<H-1;y++) for (let x=1;x<W-1;x++) {
+    const c = tree[y][x];
+    if (c.off || c.tunnels) continue;
+    const ns = !c.n && !c.s && c.e && c.w, ew = !c.e && !c.w && c.n && c.s;
+    if (!(ns || ew) || rnd() >= weave) continue;
+    const a = ns ? { x: x-1, y } : { x, y: y-1 }, b = ns ? { x: x+1, y } : { x, y: y+1 };
+    const A = tree[a.y][a.x], B = tree[b.y][b.x];
+    if (A.off || B.off || A.bridge || B.bridge) continue;
+
+    // the tree path a→b plus the tunnel is a loop: give up one plain step on it
+    const ia = a.y*W + a.x, ib = b.y*W + b.x;
+    const found = treePath(ia, ib);
+    const loop = found ? found.path.map(at) : [];
+    const cut: number[] = [];
+    for (let i=1;i<loop.length;i++) {
+      const p = loop[i-1], q = loop[i];
+      if (Math.abs(p.x - q.x) + Math.abs(p.y - q.y) !== 1) continue;      // another tunnel
+      if (fixed(p) || fixed(q) || (p.x === x && p.y === y) || (q.x === x && q.y === y)) continue;
+      cut.push(i);
+    }
+    if (!found || !cut.length) continue;
+    const i = cut[Math.floor(rnd() * cut.length)], p = loop[i-1], q = loop[i];
+    wall(p, q, 1);
+    walled.add(key(found.path[i-1], found.path[i]));
+
+    // the cut hangs one end's side off the tunnel instead: reverse the pointers from that end up to the cut
+    const onA = i <= found.top;
+    const lower = found.path[onA ? i-1 : i];
+    for (let prev = onA ? ib : ia, k = onA ? ia : ib;;) {
+      const up = parent[k];
+      parent[k] = prev;
+      if (k === lower) break;
+      prev = k; k = up;
+    }
+
+    c.bridge = ns ? "ns" : "ew";
+    A.tunnels = [...(A.tunnels ?? []), b];
+    B.tunnels = [...(B.tunnels ?? []), a];
+    steps.push({ x: a.x, y: a.y, nx: b.x, ny: b.y });
+  }
+
+  // the walled-up steps leave the carve order in one pass
+  if (walled.size) {
+    let n = 0;
+    for (const s of steps) if (!walled.has(key(s.y*W + s.x, s.ny*W + s.nx))) steps[n++] = s;
+    steps.length = n;
+  }
+}
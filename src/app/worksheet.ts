@@ -0,0 +1,166 @@
+// src/app/worksheet.ts
+import { createMaze, mulberry32, toSVG, type MazeParams, type MazeResult } from "./maze";
+import { solveRoute } from "./waypoints";
+import { gridForParams } from "./topology";
+import type { Pt } from "./solver";
+import type { MazeService } from "./mazeService";
+
+export type PerPage = 1 | 2 | 4 | 6;
+export type Paper = "letter" | "a4";
+
+export type WorksheetOpts = {
+  title: string;
+  perPage: PerPage;
+  pages: number;
+  seedMode: "sequential" | "random";
+  baseSeed: number;
+  // "ramp" eases in from RAMP_EASY up to `params` across the sheet
+  difficulty: "fixed" | "ramp";
+  params: Omit<MazeParams, "seed">;
+  answerKey: boolean;
+  paper: Paper;
+  startIcon?: string; goalIcon?: string; waypointIcon?: string;
+};
+
+export type WorksheetItem = { n:number; params: MazeParams };
+// a slot's maze, made ahead of time (solution only when there's an answer key)
+export type WorksheetMaze = { maze: MazeResult; solution?: Pt[] };
+
+// physical page sizes (mm)
+export const PAPER: Record<Paper, { w:number; h:number; label:string }> = {
+  letter: { w: 215.9, h: 279.4, label: "Letter" },
+  a4:     { w: 210,   h: 297,   label: "A4" },
+};
+
+const GRID: Record<PerPage, { cols:number; rows:number }> = {
+  1: { cols:1, rows:1 }, 2: { cols:1, rows:2 }, 4: { cols:2, rows:2 }, 6: { cols:2, rows:3 },
+};
+
+// first maze of a ramp: small, goal-biased, loopy, long corridors
+export const RAMP_EASY = { width: 7, height: 7, g: 0.8, b: 0.3, tau: 0.8 };
+
+const PAGE_MARGIN = 12;  // mm
+const GAP = 8;           // mm between slots
+const TITLE_H = 8;       // mm band above each maze
+const SEED_H = 5;        // mm band below each maze
+
+/** Deterministic list of mazes for the sheet (same opts → same worksheet) */
+export function planWorksheet(o: WorksheetOpts): WorksheetItem[] {
+  const count = Math.max(1, o.perPage * Math.max(1, o.pages));
+  const rnd = mulberry32(o.baseSeed);
+  const odd = (n:number) => { const r = Math.round(n); return r % 2 ? r : r + 1; };
+  const lerp = (a:number, b:number, t:number) => a + (b - a) * t;
+
+  return Array.from({ length: count }, (_, i) => {
+    const seed = o.seedMode === "sequential" ? o.baseSeed + i : (rnd() * 0xffffffff) >>> 0;
+    if (o.difficulty === "fixed") return { n: i + 1, params: { ...o.params, seed } };
+    const t = count === 1 ? 1 : i / (count - 1);
+    return {
+      n: i + 1,
+      params: {
+        ...o.params, seed,
+        width:  odd(lerp(Math.min(RAMP_EASY.width,  o.params.width),  o.params.width,  t)),
+        height: odd(lerp(Math.min(RAMP_EASY.height, o.params.height), o.params.height, t)),
+        g:   +lerp(RAMP_EASY.g,   o.params.g,   t).toFixed(2),
+        b:   +lerp(RAMP_EASY.b,   o.params.b,   t).toFixed(2),
+        tau: +lerp(RAMP_EASY.tau, o.params.tau, t).toFixed(2),
+      },
+    };
+  });
+}
+
+/**
+ * Make every slot's maze (and its answer) through the maze service, one at a
+ * time, so a big sheet stays off the UI thread and can report and be cancelled.
+ */
+export async function buildWorksheetMazes(
+  o: WorksheetOpts, svc: Pick<MazeService, "generate" | "solve">,
+  opts: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {},
+): Promise<WorksheetMaze[]> {
+  const items = planWorksheet(o), out: WorksheetMaze[] = [];
+  opts.onProgress?.(0, items.length);
+  for (const it of items) {
+    const maze = await svc.generate(it.params, { signal: opts.signal });
+    const solution = o.answerKey ? (await svc.solve(maze, { signal: opts.signal })).path : undefined;
+    out.push({ maze, solution });
+    opts.onProgress?.(out.length, items.length);
+  }
+  return out;
+}
+
+/**
+ * One SVG string per physical page: maze pages, then answer-key pages if asked.
+ * `built` comes from buildWorksheetMazes; without it each slot is made right here.
+ */
+export function buildWorksheetPages(o: WorksheetOpts, built?: WorksheetMaze[]): string[] {
+  const slots: Slot[] = planWorksheet(o).map((it, i) => ({ it, m: built?.[i] ?? { maze: createMaze(it.params) } }));
+  const pages: string[] = [];
+  const chunks: Slot[][] = [];
+  for (let i=0;i<slots.length;i+=o.perPage) chunks.push(slots.slice(i, i + o.perPage));
+
+  const total = chunks.length * (o.answerKey ? 2 : 1);
+  chunks.forEach((c, i) => pages.push(page(o, c, false, i + 1, total)));
+  if (o.answerKey) chunks.forEach((c, i) => pages.push(page(o, c, true, chunks.length + i + 1, total)));
+  return pages;
+}
+
+type Slot = { it: WorksheetItem; m: WorksheetMaze };
+
+function page(o: WorksheetOpts, slots: Slot[], key: boolean, pageNo: number, pageCount: number): string {
+  const { w: PW, h: PH } = PAPER[o.paper];
+  const { cols, rows } = GRID[o.perPage];
+  const slotW = (PW - PAGE_MARGIN * 2 - GAP * (cols - 1)) / cols;
+  const slotH = (PH - PAGE_MARGIN * 2 - GAP * (rows - 1)) / rows;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${PW}mm" height="${PH}mm" viewBox="0 0 ${PW} ${PH}" font-family="system-ui, sans-serif">`;
+  svg += `<rect width="${PW}" height="${PH}" fill="#fff"/>`;
+
+  slots.forEach(({ it, m }, i) => {
+    const x0 = PAGE_MARGIN + (i % cols) * (slotW + GAP);
+    const y0 = PAGE_MARGIN + Math.floor(i / cols) * (slotH + GAP);
+    const label = `${o.title || "Maze"} #${it.n}${key ? " — answer" : ""}`;
+
+    // title / name line
+    svg += `<text x="${x0}" y="${y0 + 5}" font-size="4.2" font-weight="700">${esc(label)}</text>`;
+    if (!key) svg += `<text x="${x0 + slotW}" y="${y0 + 5}" font-size="3.2" text-anchor="end">Name ____________</text>`;
+
+    // maze, fit inside the slot keeping its aspect
+    const r = m.maze;
+    const cell = 10, margin = 5;
+    const { size } = gridForParams(it.params);
+    const mw = size.w * cell + margin * 2, mh = size.h * cell + margin * 2;
+    const availH = slotH - TITLE_H - SEED_H;
+    const k = Math.min(slotW / mw, availH / mh);
+    const w = mw * k, h = mh * k;
+    const mx = x0 + (slotW - w) / 2, my = y0 + TITLE_H + (availH - h) / 2;
+    const inner = toSVG(r, {
+      cell, margin, stroke: 2,
+      showStartGoal: true, startIcon: o.startIcon, goalIcon: o.goalIcon, waypointIcon: o.waypointIcon, iconScale: 0.7,
+      solution: key ? m.solution ?? solveRoute(r) : undefined,
+    });
+    svg += inner.replace("<svg ", `<svg x="${mx.toFixed(2)}" y="${my.toFixed(2)}" width="${w.toFixed(2)}" height="${h.toFixed(2)}" `);
+
+    // seed, small
+    const p = it.params;
+    svg += `<text x="${x0 + slotW / 2}" y="${y0 + slotH - 1.5}" font-size="2.5" fill="#6b7280" text-anchor="middle">seed ${p.seed} · ${p.width}×${p.height} · g ${p.g} b ${p.b}${p.weave ? ` weave ${p.weave}` : ""} τ ${p.tau}${p.algo && p.algo !== "dfs" ? ` · ${p.algo}` : ""}${p.topology && p.topology !== "square" ? ` · ${p.topology}` : ""}${p.floors && p.floors > 1 ? ` · ${p.floors} floors` : ""}</text>`;
+  });
+
+  svg += `<text x="${PW / 2}" y="${PH - 5}" font-size="2.8" fill="#6b7280" text-anchor="middle">${key ? "Answer key · " : ""}page ${pageNo} / ${pageCount}</text>`;
+  svg += `</svg>`;
+  return svg;
+}
+
+/** Printable / downloadable HTML document, one sheet per page at exact paper size */
+export function worksheetHTML(pages: string[], paper: Paper, title = "Maze worksheet"): string {
+  const { w, h } = PAPER[paper];
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"/><meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${esc(title)}</title>
+<style>html,body{margin:0;background:#e5e7eb} .sheet{width:${w}mm;height:${h}mm;margin:8mm auto;background:#fff;box-shadow:0 2px 8px rgba(0,0,0,.15)}
+.sheet svg{display:block;width:100%;height:100%} @page{size:${w}mm ${h}mm;margin:0}
+@media print{html,body{background:#fff} .sheet{margin:0;box-shadow:none;page-break-after:always;break-after:page}}</style></head>
+<body>${pages.map(p => `<div class="sheet">${p}</div>`).join("\n")}</body></html>`;
+}
+
+function esc(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
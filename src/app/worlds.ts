@@ -0,0 +1,146 @@
+// src/app/worlds.ts
+import { wallRuns, type PackedGrid } from "./packed";
+import { THEMES, type MazeTheme } from "./theme";
+
+/**
+ * Maze "worlds": walls built from sprite tiles instead of lines, over a
+ * patterned floor, with start and goal characters to match. The art is inline
+ * SVG (the asset pack ships in the bundle, so it works offline and prints).
+ *
+ * Autotiling: every unit wall gets the world's segment tile, and every grid
+ * corner a junction tile picked by which of its four arms carry a wall (end,
+ * straight, corner, tee or cross), rotated to fit. Junction tiles are a hub
+ * drawn over one arm per wall, so hedges, panels and stonework run on through
+ * the corners. Square single-floor grids only; other shapes, and grids past
+ * MAX_TILED_CELLS, keep line walls in the world's colours.
+ */
+export type WorldId = "forest" | "space" | "castle";
+
+export type JunctionShape = "end" | "straight" | "corner" | "tee" | "cross";
+
+export type World = {
+  label: string;
+  start: string; goal: string;      // characters for the markers
+  theme: MazeTheme;                 // overlays, and line walls where tiles don't apply
+  floor: string;                    // <pattern> body (userSpace units)
+  floorSize: number;
+  segment: string;                  // one cell of wall, east-west, in a 10×3 box
+  arm: string;                      // one arm of a junction, centre → east, in a 10×10 box
+  hub: string;                      // drawn over the arms
+  hubs?: Partial<Record<JunctionShape, string>>;
+};
+
+// wall thickness, and junction size, as fractions of a cell
+export const TILE_THICKNESS = 0.3;
+const POST = 1.5;
+// past this many cells it's tens of thousands of <use>s: line walls instead
+export const MAX_TILED_CELLS = 10_000;
+
+// a 10×10 junction box at POST × thickness: the arm's band is 10/POST tall
+const ARM = (fill: string) => `<rect x="5" y="1.67" width="5.01" height="6.67" fill="${fill}"/>`;
+
+export const WORLDS: Record<WorldId, World> = {
+  forest: {
+    label: "Forest hedges", start: "🦊", goal: "🏡",
+    theme: { ...THEMES.classic, label: "Forest", wall: "#2e7d32", wallWidth: 1.6, style: "round", floor: "#bfe3a0", text: "#14532d", solution: "#ea580c" },
+    floorSize: 20,
+    floor: `<rect width="20" height="20" fill="#bfe3a0"/><path d="M4 7l1-2.5 1 2.5M14 16l1-2.5 1 2.5" stroke="#8cc66b" stroke-width="0.8" fill="none"/>`,
+    segment: `<rect width="10" height="3" rx="1" fill="#2e7d32"/><circle cx="1.8" cy="1.2" r="1.1" fill="#43a047"/>`
+      + `<circle cx="5" cy="1.7" r="1.2" fill="#388e3c"/><circle cx="8.2" cy="1.2" r="1" fill="#4caf50"/>`,
+    arm: ARM("#2e7d32"),
+    hub: `<circle cx="5" cy="5" r="4.6" fill="#1b5e20"/><circle cx="4" cy="4" r="2.2" fill="#43a047"/>`,
+    hubs: { end: `<circle cx="5" cy="5" r="3.6" fill="#2e7d32"/><circle cx="5" cy="5" r="1.3" fill="#f472b6"/><circle cx="5" cy="5" r="0.5" fill="#fde047"/>` },
+  },
+  space: {
+    label: "Space station", start: "🧑‍🚀", goal: "🚀",
+    theme: {
+      ...THEMES.dark, label: "Space station", wall: "#94a3b8", wallWidth: 1.6, style: "square", floor: "#0b1026", text: "#93c5fd",
+    },
+    floorSize: 40,
+    floor: `<rect width="40" height="40" fill="#0b1026"/><circle cx="7" cy="9" r="0.8" fill="#e2e8f0"/>`
+      + `<circle cx="29" cy="22" r="0.6" fill="#93c5fd"/><circle cx="17" cy="34" r="0.5" fill="#fde68a"/>`,
+    segment: `<rect width="10" height="3" fill="#94a3b8"/><rect width="10" height="0.4" fill="#cbd5e1"/>`
+      + `<rect y="1.15" width="10" height="0.7" fill="#22d3ee"/><path d="M5 0V3" stroke="#64748b" stroke-width="0.3"/>`,
+    arm: ARM("#94a3b8") + `<rect x="5" y="4.2" width="5.01" height="1.6" fill="#22d3ee"/>`,
+    hub: `<rect x="1.5" y="1.5" width="7" height="7" rx="1.5" fill="#475569"/><circle cx="5" cy="5" r="1.8" fill="#22d3ee"/>`,
+    hubs: { end: `<rect x="1.5" y="1.5" width="7" height="7" rx="1.5" fill="#475569"/><circle cx="5" cy="5" r="1.8" fill="#f43f5e"/>` },
+  },
+  castle: {
+    label: "Castle dungeon", start: "🤴", goal: "👑",
+    theme: { ...THEMES.classic, label: "Castle dungeon", wall: "#78716c", wallWidth: 1.6, floor: "#d6d3d1", text: "#44403c", solution: "#dc2626" },
+    floorSize: 24,
+    floor: `<rect width="24" height="24" fill="#d6d3d1"/><path d="M0 12H24M12 0V12M6 12V24M18 12V24" stroke="#a8a29e" stroke-width="0.8"/>`,
+    segment: `<rect width="10" height="3" fill="#78716c"/><path d="M0 1.5H10M2.5 0V1.5M7.5 0V1.5M5 1.5V3" stroke="#44403c" stroke-width="0.25" fill="none"/>`,
+    arm: ARM("#78716c"),
+    hub: `<circle cx="5" cy="5" r="4.6" fill="#57534e" stroke="#292524" stroke-width="0.6"/><circle cx="5" cy="5" r="2.4" fill="#a8a29e"/>`,
+    hubs: { end: `<circle cx="5" cy="5" r="3.4" fill="#57534e"/><circle cx="5" cy="5" r="1.6" fill="#f97316"/><circle cx="5" cy="5" r="0.8" fill="#fde047"/>` },
+  },
+};
+
+export const WORLD_IDS = Object.keys(WORLDS) as WorldId[];
+
+export function isWorldId(x: unknown): x is WorldId {
+  return typeof x === "string" && x in WORLDS;
+}
+
+// arms out of a grid corner
+export const ARM_N = 1, ARM_E = 2, ARM_S = 4, ARM_W = 8;
+
+// each shape drawn with these arms; a quarter turn clockwise takes N→E→S→W→N
+const CANON: Record<JunctionShape, number> = {
+  end: ARM_E, straight: ARM_E | ARM_W, corner: ARM_E | ARM_S, tee: ARM_E | ARM_S | ARM_W, cross: 15,
+};
+const turn = (m: number) => ((m << 1) | (m >> 3)) & 15;
+const JUNCTIONS: ({ shape: JunctionShape; deg: number } | null)[] = Array(16).fill(null);
+for (const shape of Object.keys(CANON) as JunctionShape[]) {
+  let m = CANON[shape];
+  for (let k=0;k<4;k++, m = turn(m)) JUNCTIONS[m] ??= { shape, deg: 90 * k };
+}
+
+/** The junction tile for a corner with these arms (null: no walls meet here) */
+export const junctionFor = (arms: number) => JUNCTIONS[arms & 15];
+
+const tileId = (id: WorldId, part: string) => `w-${id}-${part}`;
+
+/** <defs> content for a world: floor pattern, segment and the five junctions */
+export function worldDefs(id: WorldId): string {
+  const w = WORLDS[id];
+  let defs = `<pattern id="${tileId(id, "floor")}" width="${w.floorSize}" height="${w.floorSize}" patternUnits="userSpaceOnUse">${w.floor}</pattern>`
+    + `<symbol id="${tileId(id, "seg")}" viewBox="0 0 10 3" preserveAspectRatio="none">${w.segment}</symbol>`;
+  for (const shape of Object.keys(CANON) as JunctionShape[]) {
+    let arms = "";
+    for (let k=0;k<4;k++) if (CANON[shape] & [ARM_E, ARM_S, ARM_W, ARM_N][k]) arms += k ? `<g transform="rotate(${90*k} 5 5)">${w.arm}</g>` : w.arm;
+    defs += `<symbol id="${tileId(id, shape)}" viewBox="0 0 10 10">${arms}${w.hubs?.[shape] ?? w.hub}</symbol>`;
+  }
+  return defs;
+}
+
+/** Fill for the floor backdrop (needs worldDefs in the same SVG) */
+export const worldFloor = (id: WorldId) => `url(#${tileId(id, "floor")})`;
+
+/** The walls of a packed maze as world tiles (needs worldDefs in the same SVG) */
+export function tileWalls(p: PackedGrid, cell: number, margin: number, id: WorldId): string {
+  const V = p.W + 1, arms = new Uint8Array(V * (p.H + 1));
+  const t = cell * TILE_THICKNESS, j = t * POST, P = (u: number) => +(margin + u*cell).toFixed(2);
+  const seg = tileId(id, "seg");
+  let out = "";
+  wallRuns(p, (x1, y1, x2, y2) => {
+    const h = y1 === y2;
+    for (let k=0;k<x2-x1+y2-y1;k++) {
+      const x = h ? x1 + k : x1, y = h ? y1 : y1 + k;
+      arms[y*V + x] |= h ? ARM_E : ARM_S;
+      arms[(h ? y : y + 1)*V + (h ? x + 1 : x)] |= h ? ARM_W : ARM_N;
+      // vertical walls are the segment tile turned a quarter about its start
+      out += `<use href="#${seg}" x="${P(x)}" y="${+(P(y) - t/2).toFixed(2)}" width="${cell}" height="${+t.toFixed(2)}"`
+        + (h ? "/>" : ` transform="rotate(90 ${P(x)} ${P(y)})"/>`);
+    }
+  });
+  for (let y=0;y<=p.H;y++) for (let x=0;x<=p.W;x++) {
+    const jt = junctionFor(arms[y*V + x]);
+    if (!jt) continue;
+    const X = P(x), Y = P(y), o = +(j/2).toFixed(2);
+    out += `<use href="#${tileId(id, jt.shape)}" x="${+(X - o).toFixed(2)}" y="${+(Y - o).toFixed(2)}" width="${+j.toFixed(2)}" height="${+j.toFixed(2)}"`
+      + (jt.deg ? ` transform="rotate(${jt.deg} ${X} ${Y})"/>` : "/>");
+  }
+  return out;
+}
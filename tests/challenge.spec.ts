@@ -0,0 +1,78 @@
+// tests/challenge.spec.ts
+import {
+  DEFAULT_CHALLENGE, GUEST, MAX_SCORES, addScore, clockMs, formatRaceTime, isPlayer, makeScore, newPlayer, normalizeChallenge,
+  outOfTime, rankScores, starsFor, type RunResult,
+} from "@src/app/challenge";
+import { createMaze } from "@src/app/maze";
+import { dirBetween, move, newPlay, type PlayState } from "@src/app/play";
+import { solveMaze, type Pt } from "@src/app/solver";
+import { solveRoute } from "@src/app/waypoints";
+
+const run = (o: Partial<RunResult> = {}): RunResult => ({ moves: 20, ms: 10_000, bumps: 0, timedOut: false, shortest: 20, ...o });
+const ada = { id: "a", name: "Ada", avatar: "🐢" };
+
+test("stars compare moves with the shortest route", () => {
+  expect(starsFor(20, 20)).toBe(3);
+  expect(starsFor(22, 20)).toBe(3);
+  expect(starsFor(23, 20)).toBe(2);
+  expect(starsFor(30, 20)).toBe(2);
+  expect(starsFor(31, 20)).toBe(1);
+});
+
+test("bumps cost time on the stopwatch and eat into the countdown", () => {
+  const spec = { ...DEFAULT_CHALLENGE, penaltySec: 3 };
+  expect(clockMs(spec, 10_000, 2)).toBe(16_000);
+  const cd = { ...spec, clock: "countdown" as const, limitSec: 20 };
+  expect(clockMs(cd, 10_000, 2)).toBe(4_000);
+  expect(outOfTime(cd, 10_000, 2)).toBe(false);
+  expect(outOfTime(cd, 10_000, 4)).toBe(true);
+  expect(outOfTime(spec, 1e9, 99)).toBe(false);
+  expect(makeScore(run({ bumps: 2 }), ada, spec, "x", 5)).toMatchObject({ ms: 10_000, totalMs: 16_000, stars: 3, name: "Ada", at: 5 });
+});
+
+test("the board ranks by penalised time and keeps the best", () => {
+  const s = (id: string, ms: number, moves = 20, at = 0) => makeScore(run({ ms, moves }), ada, DEFAULT_CHALLENGE, id, at);
+  expect(rankScores([s("slow", 9000), s("fast", 5000), s("tie-early", 7000, 30, 1), s("tie-stars", 7000, 20, 2)]).map(x => x.id))
+    .toEqual(["fast", "tie-stars", "tie-early", "slow"]);
+  let list = Array.from({ length: MAX_SCORES }, (_, i) => s(`s${i}`, 1000 * (i + 1)));
+  const out = addScore(list, s("late", 1e6));
+  expect(out.rank).toBeNull();
+  expect(out.list).toHaveLength(MAX_SCORES);
+  ({ list } = addScore(list, s("best", 500)));
+  expect(list[0].id).toBe("best");
+  expect(list).toHaveLength(MAX_SCORES);
+  expect(list.some(x => x.id === `s${MAX_SCORES - 1}`)).toBe(false);
+});
+
+test("race times show tenths", () => {
+  expect(formatRaceTime(0)).toBe("0:00.0");
+  expect(formatRaceTime(62_349)).toBe("1:02.3");
+});
+
+test("players and settings come back sane", () => {
+  expect(newPlayer("  Sam  ", "🐸", "p", 0)).toEqual({ id: "p", name: "Sam", avatar: "🐸" });
+  expect(newPlayer("", "", "q", 2)).toEqual({ id: "q", name: "Player 3", avatar: GUEST.avatar });
+  expect(normalizeChallenge({ clock: "sundial" as never, limitSec: 5, penaltySec: 2.6 })).toEqual({ clock: "stopwatch", limitSec: 10, penaltySec: 3 });
+  expect(normalizeChallenge(null)).toEqual(DEFAULT_CHALLENGE);
+  expect([ada, null, "Ada", { ...ada, avatar: 3 }].filter(isPlayer)).toEqual([ada]);
+});
+
+test("skipping the waypoints neither finishes the race nor tops the board", () => {
+  const m = createMaze({ width:11, height:11, seed:3, g:0.3, b:0, tau:0.4, waypoints:{ kind:"checkpoints", count:3, spacing:4 } });
+  const walk = (path: Pt[]) => path.slice(1).reduce((st: PlayState, p, i) =>
+    move(st, m.maze, m.goal, dirBetween(path[i], p)!, 1000 * (i + 1), m.waypoints), newPlay(m.start));
+  const tour = solveRoute(m), shortest = tour.length - 1;
+  const direct = solveMaze(m.maze, m.start, m.goal);
+  expect(direct.length - 1).toBeLessThan(shortest);
+
+  // the short cut reaches the goal but the race goes on, so there's no run to score
+  expect(walk(direct).finishedAt).toBeNull();
+
+  const st = walk(tour);
+  const done: RunResult = { moves: st.moves, ms: st.finishedAt! - st.startedAt!, bumps: 0, timedOut: false, shortest };
+  const slow = makeScore({ ...done, moves: shortest * 2, ms: done.ms * 2 }, ada, DEFAULT_CHALLENGE, "slow");
+  const { list, rank } = addScore([slow], makeScore(done, GUEST, DEFAULT_CHALLENGE, "tour"));
+  expect(rank).toBe(1);
+  expect(list[0].stars).toBe(3);
+  expect(list[1].stars).toBe(1);
+});
@@ -0,0 +1,66 @@
+// tests/describe.spec.ts
+import { createMaze, type Cell } from "@src/app/maze";
+import { describeCell, dirOf, exitsOf, mazeSummary, startHeading, turnOf } from "@src/app/describe";
+import { bandOf } from "@src/app/difficulty";
+
+// 3×3, all walls, then the passages listed
+function grid(open: [number, number, number, number][]): Cell[][] {
+  const m = Array.from({ length:3 }, (_, y) => Array.from({ length:3 }, (_, x): Cell => ({ x, y, n:1, s:1, e:1, w:1 })));
+  for (const [x, y, nx, ny] of open) {
+    if (nx > x) { m[y][x].e = 0; m[ny][nx].w = 0; }
+    if (nx < x) { m[y][x].w = 0; m[ny][nx].e = 0; }
+    if (ny > y) { m[y][x].s = 0; m[ny][nx].n = 0; }
+    if (ny < y) { m[y][x].n = 0; m[ny][nx].s = 0; }
+  }
+  return m;
+}
+
+// a plus through the middle, and a bend from the top-left corner into it
+const plus = grid([[1,1,1,0], [1,1,2,1], [1,1,1,2], [1,1,0,1], [0,0,1,0]]);
+
+test("turns are relative to the way you face", () => {
+  expect(turnOf("n", "n")).toBe("forward");
+  expect(turnOf("n", "e")).toBe("right");
+  expect(turnOf("e", "n")).toBe("left");
+  expect(turnOf("w", "e")).toBe("back");
+  for (const h of ["n", "e", "s", "w"] as const) for (const d of ["n", "e", "s", "w"] as const) expect(dirOf(h, turnOf(h, d))).toBe(d);
+});
+
+test("cells read out as junctions, corridors, bends and dead ends", () => {
+  const mid = { x:1, y:1 };
+  expect(exitsOf(plus, mid)).toEqual(["n", "e", "s", "w"]);
+  // walking in from the west: everything but back
+  expect(describeCell(plus, mid, "e")).toBe("Junction: left, right, forward.");
+  // the top cell: came up from the middle, the bend goes off to the left
+  expect(describeCell(plus, { x:1, y:0 }, "n")).toBe("Bend: left.");
+  expect(describeCell(plus, { x:0, y:0 }, "w")).toBe("Dead end. Turn back.");
+  expect(describeCell(plus, { x:2, y:1 }, "e")).toBe("Dead end. Turn back.");
+  expect(describeCell(grid([[0,1,1,1], [1,1,2,1]]), { x:1, y:1 }, "e")).toBe("Corridor: forward.");
+  expect(describeCell(plus, { x:2, y:2 }, "n")).toBe("Walled in.");
+  expect(describeCell(plus, { x:1, y:2 }, "s", { x:1, y:2 })).toBe("Goal!");
+});
+
+test("a fresh walk faces the way out", () => {
+  expect(startHeading(plus, { x:2, y:1 })).toBe("w");
+  expect(startHeading(plus, { x:0, y:0 })).toBe("e");
+  expect(describeCell(plus, { x:2, y:1 }, startHeading(plus, { x:2, y:1 }))).toBe("Corridor: forward.");
+});
+
+test("the summary names the size, shape, difficulty and route", () => {
+  const r = createMaze({ width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4 });
+  const s = mazeSummary(r, 57);
+  expect(s).toMatch(/^Square maze, 19 by 19, \d+ cells\. /);
+  expect(s).toContain(`Difficulty ${bandOf(r.stats.D, r.stats.L)} (D ${r.stats.D.toFixed(2)})`);
+  expect(s).toContain(`${r.stats.E} dead ends`);
+  expect(s).toContain("The shortest way through is 57 cells.");
+  const hex = mazeSummary(createMaze({ width:9, height:9, seed:1, g:0.3, b:0.15, tau:0.4, topology:"hex", waypoints:{ kind:"treasures", count:2, spacing:2 } }));
+  expect(hex).toMatch(/^Hexagonal maze, 9 by 9/);
+  expect(hex).toContain("Collect 2 treasures.");
+});
+
+test("bands follow the generate-to-spec cut-offs", () => {
+  const base = 0.7 * Math.log2(361);
+  expect(bandOf(base + 0.2, 361)).toBe("easy");
+  expect(bandOf(base + 0.55, 361)).toBe("medium");
+  expect(bandOf(base + 0.9, 361)).toBe("hard");
+});
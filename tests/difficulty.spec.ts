@@ -0,0 +1,64 @@
+// tests/difficulty.spec.ts
+import { createMaze } from "@src/app/maze";
+import { solveRoute } from "@src/app/waypoints";
+import { countDeadEnds } from "@src/app/metrics";
+import { searchDifficulty, targetRange } from "@src/app/difficulty";
+
+const base = { width:15, height:15, seed:9, g:0.3, b:0.1, tau:0.4, algo:"dfs" as const };
+
+test("named bands scale with the maze size", () => {
+  const [lo, hi] = targetRange({ band:"medium" }, 225);
+  expect(lo).toBeCloseTo(0.7 * Math.log2(225) + 0.5, 6);
+  expect(hi).toBeGreaterThan(lo);
+  expect(targetRange({ band:"custom", min:5, max:6 }, 225)).toEqual([5, 6]);
+});
+
+test("a hit is the exact maze it scored", async () => {
+  const hit = (await searchDifficulty(base, { band:"hard" }))!;
+  expect(hit.matched).toBe(true);
+  const r = createMaze(hit.params);
+  expect(r.stats.D).toBe(hit.D);
+  const [lo] = targetRange({ band:"hard" }, r.stats.L);
+  expect(r.stats.D).toBeGreaterThanOrEqual(lo);
+  // only the knobs the search turns have moved
+  expect(hit.params).toMatchObject({ width:15, height:15, algo:"dfs" });
+});
+
+test("constraints on solution length and dead ends are honoured", async () => {
+  const target = { band:"custom" as const, min:0, max:99, minSolution:60, maxDeadEnds:40 };
+  const hit = (await searchDifficulty(base, target))!;
+  expect(hit.matched).toBe(true);
+  const r = createMaze(hit.params);
+  expect(solveRoute(r).length).toBeGreaterThanOrEqual(60);
+  expect(countDeadEnds(r.maze)).toBeLessThanOrEqual(40);
+});
+
+test("dead ends are counted on the braided maze, and only braiding targets move b", async () => {
+  const braided = { ...base, b:0.4 };
+  const r = createMaze(braided);
+  expect(countDeadEnds(r.maze)).toBeLessThan(r.stats.E);
+  // a cap the tree alone can't meet, but braids can
+  const cap = Math.floor(r.stats.E / 2);
+  const hit = (await searchDifficulty(braided, { band:"custom", min:0, max:99, maxDeadEnds:cap }))!;
+  expect(hit.matched).toBe(true);
+  expect(hit.E).toBe(countDeadEnds(createMaze(hit.params).maze));
+  expect(hit.E).toBeLessThanOrEqual(cap);
+
+  const plain = (await searchDifficulty(base, { band:"custom", min:50, max:60 }, { budget:20 }))!;
+  expect(plain.params.b).toBe(base.b);
+});
+
+test("impossible targets return the closest maze; progress is reported", async () => {
+  const seen: number[] = [];
+  const hit = (await searchDifficulty(base, { band:"custom", min:50, max:60 }, { budget:30, onProgress: p => seen.push(p.tried) }))!;
+  expect(hit.matched).toBe(false);
+  expect(hit.score).toBeGreaterThan(0);
+  expect(seen[seen.length - 1]).toBe(30);
+  expect(seen).toEqual([...seen].sort((a, b) => a - b));
+});
+
+test("cancel stops the search", async () => {
+  const ctl = new AbortController();
+  const run = searchDifficulty(base, { band:"custom", min:50, max:60 }, { budget:1000, signal: ctl.signal, onProgress: () => ctl.abort() });
+  await expect(run).resolves.toBeNull();
+});
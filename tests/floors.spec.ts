@@ -0,0 +1,83 @@
+// tests/floors.spec.ts
+import { createMaze, portalMark, toSVG } from "@src/app/maze";
+import { solveMaze } from "@src/app/solver";
+import { computeSolutionStats } from "@src/app/metrics";
+import { PORTAL_UP, floorOf, gridOf } from "@src/app/topology";
+import { paramsKey, validateSavedMaze } from "@src/app/library";
+import { decodeShare, encodeShare } from "@src/app/share";
+import { parseMeta, makeMeta } from "@src/app/mazeFile";
+
+const base = { width:11, height:11, seed:5, g:0.3, b:0.1, tau:0.4 };
+
+test("one spanning tree across every floor", () => {
+  const r = createMaze({ ...base, floors:3 });
+  expect(r.floors).toBe(3);
+  expect(r.maze).toHaveLength(33);
+  // a tree: every cell reached, cells - 1 edges
+  expect(r.treeSteps).toHaveLength(11 * 33 - 1);
+  const grid = gridOf(r.maze, r.topology, r.floors);
+  for (let f=0;f<2;f++) {
+    const stairs = r.treeSteps.filter(s => Math.min(floorOf(grid, s.y), floorOf(grid, s.ny)) === f && floorOf(grid, s.y) !== floorOf(grid, s.ny));
+    expect(stairs.length).toBeGreaterThanOrEqual(1);
+  }
+});
+
+test("start on the ground floor, goal on the top one, and the solver climbs", () => {
+  const r = createMaze({ ...base, floors:2 });
+  expect(r.start).toEqual({ x:0, y:5 });
+  expect(r.goal).toEqual({ x:10, y:16 });
+  const path = solveMaze(r.maze, r.start, r.goal);
+  expect(path.length).toBeGreaterThan(1);
+  expect(path.some((p, i) => i > 0 && Math.abs(p.y - path[i-1].y) === 11)).toBe(true);
+});
+
+test("stats count stairs and floor changes", () => {
+  const flat = createMaze(base), r = createMaze({ ...base, floors:2 });
+  expect(Object.keys(flat.stats).sort()).toEqual(["D", "E", "J", "L", "T"]);
+  expect(r.stats.F).toBeGreaterThanOrEqual(1);
+  const s = computeSolutionStats(r.maze, r.start, r.goal);
+  expect(s.FX).toBeGreaterThanOrEqual(1);
+  expect(computeSolutionStats(flat.maze, flat.start, flat.goal).FX).toBeUndefined();
+});
+
+test.each(["square", "hex", "theta"] as const)("%s floors build and stay seeded", (topology) => {
+  const p = { ...base, topology, floors:2 };
+  const r = createMaze(p);
+  expect(createMaze(p).treeSteps).toEqual(r.treeSteps);
+  expect(solveMaze(r.maze, r.start, r.goal).length).toBeGreaterThan(1);
+  expect(r.maze.flat().some(c => c.links!.some(l => l.dir === PORTAL_UP))).toBe(true);
+});
+
+test("SVG draws labelled panels with paired stair markers", () => {
+  const r = createMaze({ ...base, floors:4 });
+  const svg = toSVG(r, { cell:20, margin:10, solution: solveMaze(r.maze, r.start, r.goal) });
+  expect(svg).toContain("Floor 1");
+  expect(svg).toContain("Floor 4");
+  // 2×2 sheet: wider and taller than one floor
+  const [, , w, h] = svg.match(/viewBox="([^"]+)"/)![1].split(" ").map(Number);
+  expect(w).toBeGreaterThan(2 * 11 * 20);
+  expect(h).toBeGreaterThan(2 * 11 * 20);
+  expect(svg.match(/A↑/g)).toHaveLength(1);
+  expect(svg.match(/A↓/g)).toHaveLength(1);
+  // the route lifts the pen to change floors
+  expect(svg.match(/class="solution" d="([^"]+)"/)![1].slice(1)).toContain("M");
+});
+
+test("stair markers stay unique past Z", () => {
+  expect([0, 25, 26, 27, 52].map(n => portalMark(n).name)).toEqual(["A", "Z", "A2", "B2", "A3"]);
+  const r = createMaze({ ...base, width:41, height:41, floors:4 });
+  const ups = [...toSVG(r, { cell:10, margin:5 }).matchAll(/fill="(#\w+)" opacity="0.85"\/><text[^>]*>(\w+)↑</g)].map(m => m[1] + m[2]);
+  expect(ups.length).toBeGreaterThan(26);
+  expect(new Set(ups).size).toBe(ups.length);
+});
+
+test("floors survive save / share / file metadata", () => {
+  expect(paramsKey({ ...base, floors:2 })).not.toBe(paramsKey(base));
+  expect(paramsKey({ ...base, floors:1 })).toBe(paramsKey(base));
+  expect(validateSavedMaze({ name:"f", params:{ ...base, floors:3 } })?.params.floors).toBe(3);
+  expect(validateSavedMaze({ name:"f", params:{ ...base, floors:9 } })).toBeNull();
+  expect(decodeShare(encodeShare({ ...base, algo:"dfs", floors:4 }))?.floors).toBe(4);
+  expect(decodeShare(encodeShare({ ...base, algo:"dfs" }))?.floors).toBeUndefined();
+  expect(parseMeta(JSON.stringify(makeMeta({ ...base, floors:2 })))?.params.floors).toBe(2);
+  expect(parseMeta(JSON.stringify(makeMeta({ ...base, floors:1.5 })))).toBeNull();
+});
@@ -0,0 +1,41 @@
+// tests/generators.spec.ts
+import { createMaze } from "@src/app/maze";
+import { GENERATOR_IDS } from "@src/app/generators";
+
+// flood fill over open walls; a perfect maze reaches every cell
+function reachable(maze: ReturnType<typeof createMaze>["maze"]) {
+  const H = maze.length, W = maze[0].length;
+  const seen = new Set<string>(["0,0"]);
+  const todo = [{ x:0, y:0 }];
+  while (todo.length) {
+    const { x, y } = todo.pop()!;
+    const c = maze[y][x];
+    const next = [
+      !c.n && { x, y:y-1 }, !c.s && { x, y:y+1 }, !c.e && { x:x+1, y }, !c.w && { x:x-1, y },
+    ].filter(Boolean) as { x:number;y:number }[];
+    for (const n of next) {
+      if (n.x<0 || n.y<0 || n.x>=W || n.y>=H || seen.has(`${n.x},${n.y}`)) continue;
+      seen.add(`${n.x},${n.y}`); todo.push(n);
+    }
+  }
+  return seen.size;
+}
+
+describe.each(GENERATOR_IDS)("%s generator", (algo) => {
+  const params = { width:15, height:11, seed:7, g:0.3, b:0, tau:0.4, algo };
+
+  test("carves a spanning tree in step order", () => {
+    const { maze, treeSteps } = createMaze(params);
+    expect(treeSteps).toHaveLength(15*11 - 1);
+    expect(reachable(maze)).toBe(15*11);
+  });
+
+  test("is deterministic for a seed", () => {
+    expect(createMaze(params).treeSteps).toEqual(createMaze(params).treeSteps);
+  });
+});
+
+test("dfs stays the default generator", () => {
+  const base = { width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4 };
+  expect(createMaze(base).stats).toEqual(createMaze({ ...base, algo: "dfs" }).stats);
+});
@@ -0,0 +1,118 @@
+// tests/large.spec.ts
+import { createMaze, toSVG, type Cell } from "@src/app/maze";
+import { packMaze, unpackMaze, wallRuns, WALL_N, OFF } from "@src/app/packed";
+import { drawMaze, wantsCanvas, type Pen } from "@src/app/canvas";
+import { shapeMask } from "@src/app/mask";
+import { MAX_SIZE } from "@src/app/topology";
+import { solveRoute } from "@src/app/waypoints";
+import { computeSolutionStats, countRoutes } from "@src/app/metrics";
+
+const base = { width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4 };
+
+// a 2D context that only counts what it's asked to do
+function recorder() {
+  const calls: Record<string, number> = {};
+  const count = (k: string) => () => { calls[k] = (calls[k] ?? 0) + 1; };
+  const pen = {
+    beginPath: count("beginPath"), moveTo: count("moveTo"), lineTo: count("lineTo"), arc: count("arc"),
+    stroke: count("stroke"), fill: count("fill"), fillText: count("fillText"), drawImage: count("drawImage"), clearRect: count("clearRect"),
+  } as unknown as Pen;
+  return { pen, calls };
+}
+
+// unit wall segments the old one-<line>-per-wall renderer drew
+function unitWalls(m: Cell[][]) {
+  const H = m.length, W = m[0].length, deck = (x:number, y:number) => m[y]?.[x]?.bridge;
+  let n = 0;
+  for (let y=0;y<H;y++) for (let x=0;x<W;x++) {
+    const c = m[y][x];
+    if (c.off) continue;
+    const edgeS = y === H-1 || m[y+1][x].off, edgeE = x === W-1 || m[y][x+1].off;
+    if (c.n && deck(x, y) !== "ew" && deck(x, y-1) !== "ew") n++;
+    if (c.w && deck(x, y) !== "ns" && deck(x-1, y) !== "ns") n++;
+    if (edgeS && c.s) n++;
+    if (edgeE && c.e) n++;
+  }
+  return n;
+}
+
+test("packing keeps every wall, mask cell and crossing", () => {
+  for (const p of [base, { ...base, weave:0.5 }, { ...base, mask: shapeMask("circle") }]) {
+    const r = createMaze(p), packed = packMaze(r.maze);
+    expect(packed.bits).toHaveLength(19 * 19);
+    expect(unpackMaze(packed)).toEqual(r.maze);
+  }
+  const { bits } = packMaze(createMaze({ ...base, mask: shapeMask("circle") }).maze);
+  expect(bits[0] & OFF).toBe(OFF);
+  expect(bits[0] & WALL_N).toBe(WALL_N);
+});
+
+test("wall runs cover the same walls, merged", () => {
+  for (const p of [base, { ...base, weave:0.5 }, { ...base, mask: shapeMask("star") }]) {
+    const m = createMaze(p).maze;
+    let runs = 0, length = 0;
+    wallRuns(packMaze(m), (x1, y1, x2, y2) => {
+      expect(x1 === x2 || y1 === y2).toBe(true);
+      runs++; length += x2 - x1 + y2 - y1;
+    });
+    expect(length).toBe(unitWalls(m));
+    expect(runs).toBeLessThan(length);
+  }
+});
+
+test("the canvas draws one path of walls plus the markers", () => {
+  const r = createMaze({ ...base, weave:0.5 });
+  const { pen, calls } = recorder();
+  drawMaze(pen, r, { cell:10, margin:5, stroke:2 });
+  let runs = 0;
+  wallRuns(packMaze(r.maze), () => runs++);
+  const decks = r.maze.flat().filter(c => c.bridge).length;
+  expect(calls.moveTo).toBe(runs + decks * 6);
+  expect(calls.stroke).toBe(1);
+  expect(calls.fill).toBe(2);                                        // start and goal dots
+
+  const theta = recorder();
+  drawMaze(theta.pen, createMaze({ ...base, topology:"theta", waypoints:{ kind:"checkpoints", count:2, spacing:3 } }),
+           { cell:10, margin:5, stroke:2, startIcon:"🚀" });
+  expect(theta.calls.arc).toBeGreaterThan(4);                        // ring walls, then the dots
+  expect(theta.calls.fillText).toBe(3);                              // the rocket and two checkpoint numbers
+});
+
+test("only huge grids go to the canvas", () => {
+  expect(wantsCanvas(createMaze(base))).toBe(false);
+  expect(wantsCanvas(createMaze({ ...base, width:101, height:101 }))).toBe(true);
+});
+
+// Benchmarks. Budgets are loose (a slow CI box passes); they're here to catch a
+// return of quadratic work or per-wall markup, not to grade the machine.
+test("benchmark: 201×201 generates and serializes quickly", () => {
+  let t = performance.now();
+  const r = createMaze({ ...base, width:201, height:201 });
+  expect(performance.now() - t).toBeLessThan(5000);
+  t = performance.now();
+  const svg = toSVG(r, { cell:4, margin:2 });
+  expect(performance.now() - t).toBeLessThan(2000);
+  // merged runs: a few bytes a cell (one <line> per wall was ~90)
+  expect(svg.length / (201 * 201)).toBeLessThan(8);
+}, 20_000);
+
+test("benchmark: a 501×501 poster", () => {
+  const t = performance.now();
+  const r = createMaze({ ...base, width:501, height:501 });
+  expect(r.stats.L).toBe(501 * 501);
+  expect(performance.now() - t).toBeLessThan(15_000);
+  expect(packMaze(r.maze).bits.byteLength).toBe(501 * 501);
+}, 30_000);
+
+// what MazeView does with every maze it shows: solve it, then score it
+test("benchmark: the biggest maze the sliders allow still gets scored", () => {
+  const t = performance.now();
+  const r = createMaze({ ...base, width:MAX_SIZE, height:MAX_SIZE });
+  const sol = solveRoute(r);
+  expect(sol.length).toBeGreaterThan(1);
+  const stats = computeSolutionStats(r.maze, r.start, r.goal, sol);
+  expect(stats.S).toBe(sol.length);
+  expect(stats.R).toBeGreaterThanOrEqual(1);
+  expect(countRoutes(r.maze, r.start, r.goal)).toBe(stats.R);
+  expect(performance.now() - t).toBeLessThan(30_000);
+}, 60_000);
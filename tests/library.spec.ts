@@ -0,0 +1,55 @@
+// tests/library.spec.ts
+import { exportLibrary, mergeLibrary, parseLibrary, LIBRARY_VERSION, type SavedMaze } from "@src/app/library";
+
+const a: SavedMaze = { id:"a", name:"Easy", params:{ width:9, height:9, seed:1, g:0.3, b:0.1, tau:0.4 }, createdAt:1 };
+const b: SavedMaze = { id:"b", name:"Hard", params:{ width:41, height:41, seed:2, g:0, b:0, tau:1, algo:"wilson" }, createdAt:2,
+  path:[[{ x:1, y:20 }, { x:2, y:20 }]] };
+let n = 0;
+const uid = () => `new${++n}`;
+
+test("export → parse round-trips", () => {
+  const text = JSON.stringify(exportLibrary([a, b], 99));
+  expect(JSON.parse(text)).toMatchObject({ format:"infimaze-library", version:LIBRARY_VERSION, exportedAt:99 });
+  expect(parseLibrary(text)).toEqual({ mazes:[a, b], errors:[] });
+});
+
+test("bad entries are skipped and reported", () => {
+  const text = JSON.stringify(exportLibrary([a, { ...b, params:{ ...b.params, seed:"x" } } as any, { ...a, path:"nope" } as any]));
+  const { mazes, errors } = parseLibrary(text);
+  expect(mazes).toEqual([a]);
+  expect(errors).toHaveLength(2);
+});
+
+test("imported sizes and knobs are pulled into range", () => {
+  const entry = (params: object) => ({ ...a, params:{ ...a.params, ...params } });
+  const { mazes, errors } = parseLibrary(JSON.stringify(exportLibrary([
+    entry({ width:100000, height:3 }), entry({ width:20.4, height:20 }), entry({ g:7, b:-1, tau:2 }), entry({ seed:1.5 }),
+  ])));
+  expect(mazes.map(m => [m.params.width, m.params.height])).toEqual([[501, 7], [21, 21], [9, 9]]);
+  expect(mazes[2].params).toMatchObject({ g:1, b:0, tau:1 });
+  expect(errors).toEqual(["Entry 4 is invalid and was skipped."]);
+});
+
+test("rejects non-library files and newer versions", () => {
+  expect(parseLibrary("{").errors).toEqual(["Not a JSON file."]);
+  expect(parseLibrary(JSON.stringify({ hello:1 })).errors).toEqual(["Not a maze library export."]);
+  expect(parseLibrary(JSON.stringify({ ...exportLibrary([a]), version:LIBRARY_VERSION + 1 })).errors[0]).toMatch(/newer/);
+});
+
+test("accepts the raw savedMazes:v1 array", () => {
+  expect(parseLibrary(JSON.stringify([a])).mazes).toEqual([a]);
+});
+
+test("merge skips duplicate params and re-ids clashes", () => {
+  const clash = { ...b, id:"a" };
+  const dupe = { ...a, id:"zzz", name:"Same maze" };
+  const { list, added, duplicates } = mergeLibrary([a], [dupe, clash], "merge", uid);
+  expect(added).toBe(1);
+  expect(duplicates).toBe(1);
+  expect(list.map(m => m.id)).toEqual(["a", "new1"]);
+});
+
+test("replace drops the existing library", () => {
+  const { list } = mergeLibrary([a], [b], "replace", uid);
+  expect(list).toEqual([b]);
+});
@@ -0,0 +1,88 @@
+// tests/mask.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { createMask, isMask, maskCells, maskKey, maskPixels, shapeMask, textMask } from "@src/app/mask";
+import { createGrid } from "@src/app/topology";
+import { solveMaze } from "@src/app/solver";
+import { paramsKey, validateSavedMaze } from "@src/app/library";
+import { decodeShare, encodeShare } from "@src/app/share";
+
+const base = { width:21, height:21, seed:9, g:0.3, b:0, tau:0.4 };
+
+test("bitmaps pack and unpack", () => {
+  const m = createMask(5, 3, (x, y) => (x + y) % 2 === 0);
+  expect(isMask(m)).toBe(true);
+  expect(Array.from(maskPixels(m))).toEqual([1,0,1,0,1, 0,1,0,1,0, 1,0,1,0,1]);
+  expect(isMask({ ...m, data: "AAAA" })).toBe(false);
+  expect(isMask({ ...m, w: 0 })).toBe(false);
+});
+
+test("words use the pixel font", () => {
+  const m = textMask("hi!")!;
+  expect(m).toMatchObject({ w: 13, h: 9, label: "HI!" });
+  const px = maskPixels(m), at = (x:number, y:number) => px[y*m.w + x];
+  // H: both uprights, bar on the middle row
+  expect([1, 2, 3, 4, 5, 6, 7].every(y => at(1, y) && at(5, y))).toBe(true);
+  expect([2, 3, 4].map(x => at(x, 4))).toEqual([1, 1, 1]);
+  expect(at(3, 1)).toBe(0);
+  expect(textMask("  ")).toBeNull();
+});
+
+test("islands get bridged into one region", () => {
+  const grid = createGrid("square", 41, 41);
+  const on = maskCells(textMask("H I")!, grid)!;
+  // flood from any on cell reaches every on cell
+  const first = on.indexOf(1), seen = new Set([first]), todo = [first];
+  while (todo.length) {
+    const i = todo.pop()!;
+    for (const s of grid.sides(i % 41, (i / 41) | 0)) {
+      const j = s.nb ? s.nb.y*41 + s.nb.x : -1;
+      if (j >= 0 && on[j] && !seen.has(j)) { seen.add(j); todo.push(j); }
+    }
+  }
+  expect(seen.size).toBe(on.reduce((n, v) => n + v, 0));
+});
+
+test("a masked maze carves only inside the shape", () => {
+  const r = createMaze({ ...base, mask: shapeMask("heart") });
+  const cells = r.maze.flat(), on = cells.filter(c => !c.off);
+  expect(on.length).toBeLessThan(21*21);
+  expect(r.treeSteps).toHaveLength(on.length - 1);
+  for (const st of r.treeSteps) {
+    expect(r.maze[st.y][st.x].off).toBeUndefined();
+    expect(r.maze[st.ny][st.nx].off).toBeUndefined();
+  }
+  expect(cells.filter(c => c.off).every(c => c.n && c.s && c.e && c.w)).toBe(true);
+  const path = solveMaze(r.maze, r.start, r.goal);
+  expect(path[0]).toEqual(r.start);
+  expect(path[path.length - 1]).toEqual(r.goal);
+});
+
+test("masks work on other topologies and with braiding", () => {
+  const r = createMaze({ ...base, b:0.3, topology:"hex", algo:"wilson", mask: shapeMask("star") });
+  const on = r.maze.flat().filter(c => !c.off);
+  expect(r.treeSteps).toHaveLength(on.length - 1);
+  expect(r.maze.flat().filter(c => c.off).every(c => c.links!.length === 0)).toBe(true);
+  expect(solveMaze(r.maze, r.start, r.goal).length).toBeGreaterThan(1);
+});
+
+test("outline only: masked-out cells draw no walls", () => {
+  const full = toSVG(createMaze(base), { cell:10, margin:5 });
+  const masked = toSVG(createMaze({ ...base, mask: shapeMask("circle") }), { cell:10, margin:5 });
+  // total length of the merged wall runs
+  const length = (svg:string) => [...svg.matchAll(/M([\d.]+) ([\d.]+)([HV])([\d.]+)/g)]
+    .reduce((n, [, x, y, hv, to]) => n + Math.abs(Number(to) - Number(hv === "H" ? x : y)), 0);
+  expect(length(masked)).toBeGreaterThan(0);
+  expect(length(masked)).toBeLessThan(length(full));
+  // top-left corner is outside the circle
+  expect(masked).not.toMatch(/M5 5H/);
+});
+
+test("mask is part of the maze identity and survives save / share", () => {
+  const mask = shapeMask("star");
+  expect(paramsKey({ ...base, mask })).not.toBe(paramsKey(base));
+  expect(paramsKey({ ...base, mask })).toContain(maskKey(mask));
+  expect(validateSavedMaze({ name:"s", params:{ ...base, mask } })?.params.mask).toEqual(mask);
+  expect(validateSavedMaze({ name:"s", params:{ ...base, mask:{ w:2, h:2, data:"!!" } } })).toBeNull();
+  const hash = encodeShare({ ...base, algo:"dfs", mask });
+  expect(decodeShare(hash)?.mask).toEqual({ w:mask.w, h:mask.h, data:mask.data });
+});
@@ -0,0 +1,47 @@
+// tests/mazeFile.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { addPNGChunks, makeMeta, parseMeta, pngWithMeta, readMazeFile, readPNGText, readSVGMeta, standaloneSVG } from "@src/app/mazeFile";
+
+// 1×1 transparent PNG
+const PNG_1PX = Uint8Array.from(Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==", "base64"));
+
+const params = { width:9, height:9, seed:77, g:0.3, b:0.1, tau:0.4, algo:"prim" as const };
+const r = createMaze(params);
+const meta = makeMeta(params, r.stats);
+
+test("standalone SVG carries sized root and metadata", () => {
+  const svg = standaloneSVG(toSVG(r, { cell:20, margin:10, startIcon:"🚀" }), meta);
+  expect(svg.startsWith("<?xml")).toBe(true);
+  expect(svg).toMatch(/<svg [^>]*width="200" height="200"><metadata id="infimaze">/);
+  expect(readSVGMeta(svg)).toEqual(meta);
+});
+
+test("PNG text chunks round-trip and keep the image intact", () => {
+  const png = pngWithMeta(PNG_1PX, meta, 300);
+  expect(JSON.parse(readPNGText(png).infimaze)).toEqual(meta);
+  expect(readPNGText(png).Software).toBe("Infimaze");
+  // original chunks still follow, ending with IEND
+  expect(Buffer.from(png.subarray(png.length - 12)).equals(Buffer.from(PNG_1PX.subarray(PNG_1PX.length - 12)))).toBe(true);
+});
+
+test("non-ASCII text is escaped, not mangled", () => {
+  const png = addPNGChunks(PNG_1PX, { k: JSON.stringify({ s: "τ" }).replace("τ", "\\u03c4") });
+  expect(JSON.parse(readPNGText(png).k)).toEqual({ s: "τ" });
+});
+
+test("readMazeFile sniffs PNG vs SVG", async () => {
+  const blob = (bytes: Uint8Array | string) => ({ arrayBuffer: async () => (typeof bytes === "string" ? Buffer.from(bytes) : Buffer.from(bytes)) } as any);
+  expect(await readMazeFile(blob(pngWithMeta(PNG_1PX, meta)))).toEqual(meta);
+  expect(await readMazeFile(blob(standaloneSVG(toSVG(r, { cell:20, margin:10 }), meta)))).toEqual(meta);
+  expect(await readMazeFile(blob(PNG_1PX))).toBeNull();
+  expect(await readMazeFile(blob("<svg></svg>"))).toBeNull();
+});
+
+test("file metadata can't ask for more than a link can", () => {
+  const text = (p: object) => JSON.stringify({ ...meta, params:{ ...params, ...p } });
+  expect(parseMeta(text({ width:1e6, height:40, seed:-1.5, g:3, b:0.9, tau:-1 }))?.params).toEqual({
+    ...params, width:501, height:41, seed:4294967295, g:1, b:0.5, tau:0,
+  });
+  expect(parseMeta(text({ width:"9" }))).toBeNull();
+});
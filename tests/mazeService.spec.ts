@@ -0,0 +1,106 @@
+// tests/mazeService.spec.ts
+import { createMaze } from "@src/app/maze";
+import { solveRoute } from "@src/app/waypoints";
+import { shapeMask } from "@src/app/mask";
+import { computeSolutionStats } from "@src/app/metrics";
+import { createMazeService, serveMazeJobs, type WorkerLike } from "@src/app/mazeService";
+
+const base = { width:15, height:15, seed:4, g:0.3, b:0.1, tau:0.4 };
+
+// a worker stand-in: the serving side sits on the other end of a real MessageChannel
+const ports: MessagePort[] = [];
+function channelWorker(): WorkerLike {
+  const { port1, port2 } = new MessageChannel();
+  ports.push(port1, port2);
+  serveMazeJobs(port2);
+  const w: WorkerLike = {
+    postMessage: (m, transfer) => port1.postMessage(m, transfer ?? []),
+    set onmessage(f: any) { port1.onmessage = f; },
+    get onmessage() { return port1.onmessage as any; },
+    onerror: null,
+    terminate: () => port1.close(),
+  };
+  return w;
+}
+afterAll(() => ports.forEach(p => p.close()));
+
+test("a MazeResult is plain data that survives structured cloning", () => {
+  for (const p of [base, { ...base, topology:"hex" as const }, { ...base, weave:0.4 }, { ...base, floors:2 },
+                   { ...base, waypoints:{ kind:"checkpoints" as const, count:2, spacing:3 } }]) {
+    const r = createMaze(p);
+    expect(structuredClone(r)).toEqual(r);
+  }
+});
+
+test("without a worker the jobs run in-process", async () => {
+  const svc = createMazeService();
+  const r = await svc.generate(base);
+  expect(r).toEqual(createMaze(base));
+  const path = solveRoute(r);
+  expect(await svc.solve(r)).toEqual({ path, stats: computeSolutionStats(r.maze, r.start, r.goal, path) });
+  const hit = await svc.sweep(base, { band:"hard" });
+  expect(hit.matched).toBe(true);
+});
+
+test("jobs round-trip through a worker", async () => {
+  const svc = createMazeService(channelWorker);
+  const r = await svc.generate({ ...base, weave:0.3 });
+  expect(r).toEqual(createMaze({ ...base, weave:0.3 }));
+  expect((await svc.solve(r)).path).toEqual(solveRoute(r));
+  const seen: number[] = [];
+  const hit = await svc.sweep(base, { band:"custom", min:50, max:60 }, { budget:24, onProgress: p => seen.push(p.tried) });
+  expect(hit.matched).toBe(false);
+  expect(seen[seen.length - 1]).toBe(24);
+  svc.dispose();
+});
+
+test("cancelled jobs reject with an AbortError", async () => {
+  const svc = createMazeService(channelWorker);
+  const ctl = new AbortController();
+  const run = svc.sweep(base, { band:"custom", min:50, max:60 }, { budget:5000, signal: ctl.signal, onProgress: () => ctl.abort() });
+  await expect(run).rejects.toMatchObject({ name:"AbortError" });
+  const local = createMazeService(), early = new AbortController();
+  early.abort();
+  await expect(local.generate(base, { signal: early.signal })).rejects.toMatchObject({ name:"AbortError" });
+  svc.dispose();
+});
+
+test("a worker that won't start or crashes falls back to in-process", async () => {
+  const none = createMazeService(() => { throw new Error("no workers here"); });
+  expect(await none.generate(base)).toEqual(createMaze(base));
+
+  const broken: WorkerLike = { postMessage: () => setTimeout(() => broken.onerror?.(new Event("error"))), onmessage: null, onerror: null, terminate: () => {} };
+  const svc = createMazeService(() => broken);
+  expect(await svc.generate(base)).toEqual(createMaze(base));
+  expect(await svc.generate({ ...base, seed:5 })).toEqual(createMaze({ ...base, seed:5 }));
+});
+
+test("square mazes cross from the worker packed", async () => {
+  const sent: any[] = [];
+  const scope = { postMessage: (m: any) => sent.push(m), onmessage: null as any };
+  serveMazeJobs(scope);
+  await scope.onmessage({ data: { id:1, job:{ kind:"generate", params: base } } });
+  await scope.onmessage({ data: { id:2, job:{ kind:"generate", params: { ...base, topology:"hex" } } } });
+  expect(sent[0].packed.bits).toHaveLength(15 * 15);
+  expect(sent[0].result.maze).toEqual([]);
+  expect(sent[1].packed).toBeUndefined();
+
+  const svc = createMazeService(channelWorker);
+  expect(await svc.generate({ ...base, mask: shapeMask("heart") })).toEqual(createMaze({ ...base, mask: shapeMask("heart") }));
+  svc.dispose();
+});
+
+test("solving sends the maze packed and brings back the route and its stats", async () => {
+  const r = createMaze({ ...base, b:0.3, waypoints:{ kind:"checkpoints", count:2, spacing:3 } });
+  const posted: any[] = [];
+  const w = channelWorker(), send = w.postMessage;
+  w.postMessage = (m, transfer) => { posted.push(m); send(m, transfer); };
+  const svc = createMazeService(() => w);
+  const { path, stats } = await svc.solve(r);
+  expect(posted[0].job.maze.maze).toEqual([]);
+  expect(posted[0].packed.bits.byteLength).toBe(0);          // handed over, not copied
+  expect(path).toEqual(solveRoute(r));
+  expect(stats).toEqual(computeSolutionStats(r.maze, r.start, r.goal, path));
+  expect(stats.R).toBeGreaterThan(1);
+  svc.dispose();
+});
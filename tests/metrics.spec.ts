@@ -0,0 +1,38 @@
+// tests/metrics.spec.ts
+import { createMaze } from "@src/app/maze";
+import { computeSolutionStats, countRoutes } from "@src/app/metrics";
+
+const params = { width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4 };
+
+test("solution stats are measured on the braided grid", () => {
+  const r = createMaze(params);
+  const s = computeSolutionStats(r.maze, r.start, r.goal);
+  expect(s.S).toBeGreaterThanOrEqual(19);
+  expect(s.ST).toBeLessThan(s.S);
+  expect(s.DP).toBeLessThan(s.S);
+  expect(s.OFF).toBeCloseTo((19*19 - s.S) / (19*19), 3);
+  expect(s.R).toBeGreaterThanOrEqual(1);
+  expect(s.Ds).toBeGreaterThan(0);
+});
+
+test("a perfect maze has exactly one route", () => {
+  const r = createMaze({ ...params, b:0 });
+  expect(countRoutes(r.maze, r.start, r.goal)).toBe(1);
+});
+
+test("braiding opens up extra routes", () => {
+  const r = createMaze({ ...params, b:0.5 });
+  expect(countRoutes(r.maze, r.start, r.goal)).toBeGreaterThan(1);
+});
+
+test("tree difficulty D is untouched", () => {
+  expect(createMaze(params).stats.D).toBeCloseTo(6.499, 3);
+});
+
+test("big braided grids still count at least the route the solver finds", () => {
+  for (const width of [101, 201]) {
+    const r = createMaze({ ...params, width, height:width, b:0.15 });
+    expect(countRoutes(r.maze, r.start, r.goal)).toBeGreaterThanOrEqual(1);
+    expect(computeSolutionStats(r.maze, r.start, r.goal).R).toBeGreaterThanOrEqual(1);
+  }
+});
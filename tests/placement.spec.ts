@@ -0,0 +1,82 @@
+// tests/placement.spec.ts
+import { createMaze } from "@src/app/maze";
+import { solveMaze } from "@src/app/solver";
+import { shapeMask } from "@src/app/mask";
+import { paramsKey, validateSavedMaze } from "@src/app/library";
+import { decodeShare, encodeShare } from "@src/app/share";
+import type { PlacementId } from "@src/app/placement";
+
+const base = { width:15, height:11, seed:7, g:0.3, b:0.1, tau:0.4 };
+
+test("default placement is unchanged: mid-row of the side edges", () => {
+  const r = createMaze(base);
+  expect(r.start).toEqual({ x:0, y:5 });
+  expect(r.goal).toEqual({ x:14, y:5 });
+  expect(createMaze({ ...base, placement:"edges" }).treeSteps).toEqual(r.treeSteps);
+});
+
+test("corners, and the DFS grows from the chosen start", () => {
+  const r = createMaze({ ...base, placement:"corners" });
+  expect(r.start).toEqual({ x:0, y:0 });
+  expect(r.goal).toEqual({ x:14, y:10 });
+  expect(r.treeSteps[0]).toMatchObject({ x:0, y:0 });
+});
+
+test("random edges are seeded and opposite", () => {
+  for (const seed of [1, 2, 3, 4, 5, 6]) {
+    const p = { ...base, seed, placement:"random-edges" as const };
+    const r = createMaze(p);
+    expect(createMaze(p)).toMatchObject({ start: r.start, goal: r.goal });
+    const across = r.start.x === 0 && r.goal.x === 14, down = r.start.y === 0 && r.goal.y === 10;
+    expect(across || down).toBe(true);
+  }
+});
+
+test("center out: start in the middle, goal on the border", () => {
+  const r = createMaze({ ...base, placement:"center" });
+  expect(r.start).toEqual({ x:7, y:5 });
+  const { x, y } = r.goal;
+  expect(x === 0 || y === 0 || x === 14 || y === 10).toBe(true);
+});
+
+test("farthest pair: nothing is further from start than the goal", () => {
+  const r = createMaze({ ...base, placement:"farthest" });
+  const far = solveMaze(r.maze, r.start, r.goal, "bfs").length;
+  for (const row of r.maze) for (const c of row) {
+    expect(solveMaze(r.maze, r.start, c, "bfs").length).toBeLessThanOrEqual(far);
+  }
+});
+
+test("manual ends are used as given, snapped onto the grid", () => {
+  const ends = { start:{ x:3, y:2 }, goal:{ x:12, y:9 } };
+  expect(createMaze({ ...base, placement:"manual", ends })).toMatchObject(ends);
+  // without cells it's the default layout
+  expect(createMaze({ ...base, placement:"manual" }).goal).toEqual({ x:14, y:5 });
+  // masked-out corners move to the nearest kept cell
+  const r = createMaze({ ...base, width:21, height:21, placement:"manual", mask:shapeMask("circle"), ends:{ start:{ x:0, y:0 }, goal:{ x:20, y:20 } } });
+  expect(r.maze[r.start.y][r.start.x].off).toBeUndefined();
+  expect(r.maze[r.goal.y][r.goal.x].off).toBeUndefined();
+  expect(solveMaze(r.maze, r.start, r.goal).length).toBeGreaterThan(1);
+});
+
+test.each(["hex", "triangle", "theta"] as const)("every placement works on %s grids", (topology) => {
+  for (const placement of ["corners", "random-edges", "center", "farthest"] as PlacementId[]) {
+    const r = createMaze({ ...base, topology, placement });
+    expect(r.maze[r.start.y][r.start.x]).toBeDefined();
+    expect(r.start).not.toEqual(r.goal);
+    expect(solveMaze(r.maze, r.start, r.goal).length).toBeGreaterThan(1);
+  }
+});
+
+test("placement is part of the identity and survives save / share", () => {
+  const ends = { start:{ x:1, y:1 }, goal:{ x:9, y:9 } };
+  const manual = { ...base, placement:"manual" as const, ends };
+  expect(paramsKey({ ...base, placement:"edges" })).toBe(paramsKey(base));
+  expect(paramsKey({ ...base, placement:"corners" })).not.toBe(paramsKey(base));
+  expect(paramsKey(manual)).not.toBe(paramsKey({ ...manual, ends:{ ...ends, goal:{ x:9, y:8 } } }));
+  expect(validateSavedMaze({ name:"m", params:manual })?.params).toMatchObject({ placement:"manual", ends });
+  expect(validateSavedMaze({ name:"m", params:{ ...base, placement:"nowhere" } })).toBeNull();
+  const s = decodeShare(encodeShare({ ...manual, algo:"dfs" }));
+  expect(s).toMatchObject({ placement:"manual", ends });
+  expect(decodeShare(encodeShare({ ...base, algo:"dfs", placement:"farthest" }))?.ends).toBeUndefined();
+});
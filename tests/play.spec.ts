@@ -0,0 +1,93 @@
+// tests/play.spec.ts
+import { createMaze } from "@src/app/maze";
+import { solveMaze, type Pt } from "@src/app/solver";
+import { solveRoute } from "@src/app/waypoints";
+import { bump, canMove, dirBetween, move, newPlay, slide, stopsLeft, timeUp, tokenOf, undo, type PlayState } from "@src/app/play";
+
+const r = createMaze({ width:11, height:11, seed:3, g:0.3, b:0.1, tau:0.4 });
+
+test("walls block the token", () => {
+  const c = r.maze[r.start.y][r.start.x];
+  const st = newPlay(r.start);
+  for (const d of ["n","s","e","w"] as const) {
+    const next = move(st, r.maze, r.goal, d, 0);
+    if (c[d]) expect(next).toBe(st);
+    else expect(next.moves).toBe(1);
+  }
+  // the west edge of the start cell is the outer wall
+  expect(canMove(r.maze, r.start, "w")).toBe(false);
+});
+
+test("following the solution reaches the goal", () => {
+  const path = solveMaze(r.maze, r.start, r.goal);
+  let st = newPlay(r.start);
+  for (let i=1;i<path.length;i++) st = move(st, r.maze, r.goal, dirBetween(path[i-1], path[i])!, 1000 + i);
+  expect(tokenOf(st)).toEqual(r.goal);
+  expect(st.moves).toBe(path.length - 1);
+  expect(st.finishedAt).toBe(1000 + path.length - 1);
+  expect(st.startedAt).toBe(1001);
+  // finished games ignore further input
+  expect(undo(st)).toBe(st);
+});
+
+test("undo and stepping back both retrace the trail", () => {
+  const path = solveMaze(r.maze, r.start, r.goal);
+  const d1 = dirBetween(path[0], path[1])!, d2 = dirBetween(path[1], path[2])!;
+  let st = move(move(newPlay(r.start), r.maze, r.goal, d1, 0), r.maze, r.goal, d2, 0);
+  expect(st.trail).toHaveLength(3);
+  expect(undo(st).trail).toEqual(path.slice(0, 2));
+  st = move(st, r.maze, r.goal, dirBetween(path[2], path[1])!, 0);
+  expect(st.trail).toEqual(path.slice(0, 2));
+  expect(st.moves).toBe(3);
+});
+
+test("slide runs to the end of a corridor", () => {
+  const path = solveMaze(r.maze, r.start, r.goal);
+  const st = slide(newPlay(r.start), r.maze, r.goal, dirBetween(path[0], path[1])!, 0);
+  expect(st.moves).toBeGreaterThanOrEqual(1);
+  const end = tokenOf(st);
+  const open = (["n","s","e","w"] as const).filter(d => canMove(r.maze, end, d)).length;
+  expect(open === 2 && !(end.x === r.goal.x && end.y === r.goal.y)).toBe(false);
+});
+
+test("bumps count and start the clock; time-ups end the game where it stands", () => {
+  let st = bump(newPlay(r.start), 500);
+  expect(st.bumps).toBe(1);
+  expect(st.startedAt).toBe(500);
+  expect(tokenOf(st)).toEqual(r.start);
+  const path = solveMaze(r.maze, r.start, r.goal);
+  st = move(st, r.maze, r.goal, dirBetween(path[0], path[1])!, 600);
+  expect(st.bumps).toBe(1);
+  st = timeUp(st, 900);
+  expect(st).toMatchObject({ finishedAt: 900, timedOut: true, moves: 1 });
+  expect(move(st, r.maze, r.goal, dirBetween(path[1], path[2])!, 950)).toBe(st);
+  expect(bump(st, 950)).toBe(st);
+});
+
+test("the goal only counts once every waypoint is in, checkpoints in order", () => {
+  const walk = (st: PlayState, path: Pt[], m: typeof w) =>
+    path.slice(1).reduce((s, p, i) => move(s, m.maze, m.goal, dirBetween(path[i], p)!, 1000 + i, m.waypoints), st);
+  const w = createMaze({ width:11, height:11, seed:3, g:0.3, b:0, tau:0.4, waypoints:{ kind:"checkpoints", count:3, spacing:4 } });
+  const stops = w.waypoints!;
+
+  // straight for the goal: the stops off the way are missed, so it isn't a finish
+  const direct = walk(newPlay(w.start), solveMaze(w.maze, w.start, w.goal), w);
+  expect(tokenOf(direct)).toEqual(w.goal);
+  expect(stopsLeft(direct, stops)).toBeGreaterThan(0);
+  expect(direct.finishedAt).toBeNull();
+
+  // checkpoints out of order don't count: numbered backwards, the tour only picks up the first
+  const backwards = walk(newPlay(w.start), solveRoute(w), { ...w, waypoints: { ...stops, cells: [...stops.cells].reverse() } });
+  expect(backwards.got).toEqual([0]);
+  expect(backwards.finishedAt).toBeNull();
+
+  const tour = walk(newPlay(w.start), solveRoute(w), w);
+  expect(tour.got).toEqual(stops.cells.map((_, i) => i));
+  expect(tour.finishedAt).not.toBeNull();
+
+  // treasures go in any order
+  const t = createMaze({ width:11, height:11, seed:3, g:0.3, b:0, tau:0.4, waypoints:{ kind:"treasures", count:3, spacing:4 } });
+  const loot = walk(newPlay(t.start), solveRoute(t), t);
+  expect([...loot.got].sort()).toEqual([0, 1, 2]);
+  expect(loot.finishedAt).not.toBeNull();
+});
@@ -0,0 +1,60 @@
+// tests/replay.spec.ts
+import { createMaze } from "@src/app/maze";
+import { buildTimeline, frameAt } from "@src/app/replay";
+import { exploreMaze, solveMaze } from "@src/app/solver";
+
+const base = { width:11, height:11, seed:3, g:0.3, b:0.3, tau:0.4 };
+
+test("a DFS carve replays with its backtracking stack", () => {
+  const r = createMaze(base);
+  const t = buildTimeline(r);
+  expect(t.stack).toBe(true);
+  expect(t.events.filter(e => e.kind === "carve")).toHaveLength(r.treeSteps.length);
+  // every cell goes on the stack once and comes off once
+  expect(t.events.filter(e => e.kind === "backtrack")).toHaveLength(r.stats.L);
+
+  for (let i=0;i<=t.events.length;i+=7) {
+    const f = frameAt(t, i);
+    // live edges lead to exactly the cells on the stack (bar the bottom one)
+    expect(f.live.map(s => `${s.nx},${s.ny}`).sort()).toEqual(f.stack.slice(1).map(p => `${p.x},${p.y}`).sort());
+  }
+  const end = frameAt(t, t.events.length);
+  expect(end.stack).toEqual([]);
+  expect(end.live).toEqual([]);
+  expect(end.popped).toHaveLength(r.treeSteps.length);
+});
+
+test("generators that don't backtrack replay as plain carves", () => {
+  const t = buildTimeline(createMaze({ ...base, algo:"kruskal" }));
+  expect(t.stack).toBe(false);
+  expect(t.events.every(e => e.kind === "carve")).toBe(true);
+  expect(frameAt(t, 5).live).toHaveLength(5);
+});
+
+test("braids and the solver's search follow the carve", () => {
+  const r = createMaze(base);
+  const t = buildTimeline(r, { braids:true, solver:true });
+  const kinds = t.events.map(e => e.kind);
+  expect(kinds.filter(k => k === "braid")).toHaveLength(r.braidEdits.length);
+  expect(kinds.indexOf("braid")).toBeGreaterThan(kinds.lastIndexOf("backtrack"));
+  expect(kinds[kinds.length - 1]).toBe("route");
+
+  const explored = exploreMaze(r.maze, r.start, r.goal);
+  expect(explored[0].cell).toEqual(r.start);
+  expect(explored[explored.length - 1].cell).toEqual(r.goal);
+
+  const firstExplore = kinds.indexOf("explore");
+  const mid = frameAt(t, firstExplore + 5);
+  expect(mid.visited).toHaveLength(5);
+  expect(mid.braids).toHaveLength(r.braidEdits.length);
+  const seen = new Set(mid.visited.map(p => `${p.x},${p.y}`));
+  expect(mid.frontier.some(p => seen.has(`${p.x},${p.y}`))).toBe(false);
+  expect(frameAt(t, t.events.length).route).toEqual(solveMaze(r.maze, r.start, r.goal, "bfs"));
+});
+
+test("frames clamp to the timeline", () => {
+  const t = buildTimeline(createMaze(base));
+  expect(frameAt(t, -3)).toEqual(frameAt(t, 0));
+  expect(frameAt(t, 1e9)).toEqual(frameAt(t, t.events.length));
+  expect(frameAt(t, 0).last).toBeUndefined();
+});
@@ -0,0 +1,39 @@
+// tests/share.spec.ts
+import { decodeShare, encodeShare, shareURL, type ShareState } from "@src/app/share";
+
+const state: ShareState = {
+  width:21, height:15, seed:1234, g:0.25, b:0.1, tau:0.6, algo:"wilson",
+  startIcon:"🐢", goalIcon:"🍓", animateDFS:false, dfsSegMs:40, lingerMs:1500, hideWallsDuringAnim:true,
+};
+
+test("round-trips the full configuration", () => {
+  expect(decodeShare("#" + encodeShare(state))).toEqual(state);
+});
+
+test("data-URL markers are left out of links", () => {
+  const hash = encodeShare({ ...state, startIcon: "data:image/png;base64,AAAA" });
+  expect(hash).not.toContain("data");
+  expect(decodeShare(hash)?.startIcon).toBeUndefined();
+});
+
+test("incomplete or junk hashes are ignored", () => {
+  expect(decodeShare("")).toBeNull();
+  expect(decodeShare("#w=19&h=19&s=42")).toBeNull();
+  expect(decodeShare("#w=x&h=19&s=42&g=0&b=0&t=0")).toBeNull();
+});
+
+test("values are clamped into slider ranges", () => {
+  const s = decodeShare("#w=1000&h=4&s=-1&g=3&b=9&t=-2&a=nope")!;
+  expect(s).toMatchObject({ width:501, height:7, g:1, b:0.5, tau:0, algo:"dfs" });
+  expect(s.seed).toBe(4294967295);
+});
+
+test("builds an absolute link", () => {
+  expect(shareURL(state, { origin:"https://example.org", pathname:"/maze/" })).toMatch(/^https:\/\/example\.org\/maze\/#w=21&/);
+});
+
+test("grid shape rides along only when it isn't square", () => {
+  expect(encodeShare(state)).not.toContain("tp=");
+  expect(decodeShare("#" + encodeShare({ ...state, topology:"theta" }))?.topology).toBe("theta");
+  expect(decodeShare("#w=19&h=19&s=42&g=0&b=0&t=0&tp=cube")?.topology).toBeUndefined();
+});
@@ -0,0 +1,36 @@
+// tests/snap.spec.ts
+import { createMaze } from "@src/app/maze";
+import { solveMaze } from "@src/app/solver";
+import { canMove, dirBetween } from "@src/app/play";
+import { isSolved, snapTo } from "@src/app/snap";
+
+const r = createMaze({ width:11, height:11, seed:9, g:0.3, b:0, tau:0.4 });
+const legal = (path: { x:number;y:number }[]) =>
+  path.every((p, i) => i === 0 || canMove(r.maze, path[i-1], dirBetween(path[i-1], p)!));
+
+test("pointer jumps become legal moves and stop at walls", () => {
+  const path = snapTo(r.maze, [r.start], { x: r.start.x + 5, y: r.start.y });
+  expect(path[0]).toEqual(r.start);
+  expect(legal(path)).toBe(true);
+});
+
+test("tracing the solution cell by cell solves the maze", () => {
+  const sol = solveMaze(r.maze, r.start, r.goal);
+  let path = [r.start];
+  for (const p of sol.slice(1)) path = snapTo(r.maze, path, p);
+  expect(path).toEqual(sol);
+  expect(isSolved(r.maze, path, r.start, r.goal)).toBe(true);
+  expect(isSolved(r.maze, path.slice(0, -1), r.start, r.goal)).toBe(false);
+});
+
+test("moving back retraces but not past the floor", () => {
+  const sol = solveMaze(r.maze, r.start, r.goal);
+  const drawn = sol.slice(0, 4);
+  expect(snapTo(r.maze, drawn, sol[1])).toEqual(sol.slice(0, 2));
+  expect(snapTo(r.maze, drawn, sol[1], 3)).toEqual(sol.slice(0, 3));
+});
+
+test("paths through walls are never solved", () => {
+  const straight = Array.from({ length: r.goal.x + 1 }, (_, x) => ({ x, y: r.start.y }));
+  expect(isSolved(r.maze, straight, r.start, r.goal)).toBe(legal(straight));
+});
@@ -0,0 +1,55 @@
+// tests/solver.spec.ts
+import { createMaze, toSVG, type Cell } from "@src/app/maze";
+import { openNeighbors, solveMaze } from "@src/app/solver";
+
+// open grid with every wall in place
+function walled(W:number, H:number): Cell[][] {
+  return Array.from({ length: H }, (_, y) =>
+    Array.from({ length: W }, (_, x) => ({ x, y, n:1 as 1|0, s:1 as 1|0, e:1 as 1|0, w:1 as 1|0 })));
+}
+function link(m: Cell[][], x:number, y:number, nx:number, ny:number) {
+  if (nx === x+1) { m[y][x].e = 0; m[ny][nx].w = 0; }
+  if (nx === x-1) { m[y][x].w = 0; m[ny][nx].e = 0; }
+  if (ny === y+1) { m[y][x].s = 0; m[ny][nx].n = 0; }
+  if (ny === y-1) { m[y][x].n = 0; m[ny][nx].s = 0; }
+}
+
+test("path is a legal start→goal walk", () => {
+  const r = createMaze({ width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4 });
+  const path = solveMaze(r.maze, r.start, r.goal);
+  expect(path[0]).toEqual(r.start);
+  expect(path[path.length-1]).toEqual(r.goal);
+  for (let i=1;i<path.length;i++) {
+    expect(openNeighbors(r.maze, path[i-1].x, path[i-1].y)).toContainEqual(path[i]);
+  }
+});
+
+test("picks the shorter of two routes in a braided loop", () => {
+  // 3×2 ring: start (0,0) → goal (2,0); top row is direct, bottom row is the detour
+  const m = walled(3, 2);
+  link(m, 0,0, 1,0); link(m, 1,0, 2,0);
+  link(m, 0,0, 0,1); link(m, 0,1, 1,1); link(m, 1,1, 2,1); link(m, 2,1, 2,0);
+  for (const method of ["bfs", "astar"] as const) {
+    expect(solveMaze(m, { x:0, y:0 }, { x:2, y:0 }, method)).toEqual([{ x:0, y:0 }, { x:1, y:0 }, { x:2, y:0 }]);
+  }
+});
+
+test("BFS and A* agree on length for heavily braided mazes", () => {
+  for (const seed of [1, 2, 3]) {
+    const r = createMaze({ width:41, height:41, seed, g:0.2, b:0.5, tau:0.2 });
+    const a = solveMaze(r.maze, r.start, r.goal, "bfs");
+    const b = solveMaze(r.maze, r.start, r.goal, "astar");
+    expect(b.length).toBe(a.length);
+  }
+});
+
+test("unreachable goal yields an empty path", () => {
+  expect(solveMaze(walled(3, 3), { x:0, y:0 }, { x:2, y:2 })).toEqual([]);
+});
+
+test("toSVG embeds the answer key when asked", () => {
+  const r = createMaze({ width:9, height:9, seed:5, g:0.3, b:0.1, tau:0.4 });
+  const solution = solveMaze(r.maze, r.start, r.goal);
+  expect(toSVG(r, { cell:20, margin:10 })).not.toContain(`class="solution"`);
+  expect(toSVG(r, { cell:20, margin:10, solution })).toContain(`class="solution"`);
+});
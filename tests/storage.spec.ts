@@ -0,0 +1,88 @@
+// tests/storage.spec.ts
+import {
+  createMemoryBackend, createStorage, StorageError, LEGACY_MAZES_KEY, LEGACY_SETTINGS_KEY, type StorageBackend,
+} from "@src/app/storage";
+import type { SavedMaze } from "@src/app/library";
+
+const maze = (id: string, createdAt: number): SavedMaze =>
+  ({ id, name: id, params: { width:9, height:9, seed:createdAt, g:0.3, b:0.1, tau:0.4 }, createdAt });
+
+// localStorage stand-in
+const fakeLocalStorage = (items: Record<string, string>) => ({ getItem: (k: string) => items[k] ?? null });
+
+test("settings, mazes, markers and paths round-trip", async () => {
+  const st = createStorage(createMemoryBackend());
+  await st.saveSettings({ seed: 7, width: 21 });
+  expect(await st.loadSettings()).toEqual({ seed: 7, width: 21 });
+
+  await st.putMaze(maze("b", 2)); await st.putMaze(maze("a", 1));
+  expect((await st.loadMazes()).map(m => m.id)).toEqual(["a", "b"]);
+  await st.deleteMaze("a");
+  expect((await st.loadMazes()).map(m => m.id)).toEqual(["b"]);
+  await st.replaceMazes([maze("c", 3)]);
+  expect((await st.loadMazes()).map(m => m.id)).toEqual(["c"]);
+
+  await st.saveMarker("start", "data:image/png;base64,AAAA");
+  expect(await st.loadMarker("start")).toBe("data:image/png;base64,AAAA");
+  await st.saveMarker("start", "🚀");
+  expect(await st.loadMarker("start")).toBeUndefined();
+
+  await st.savePath("k", [[{ x:1, y:2 }]]);
+  expect(await st.loadPath("k")).toEqual([[{ x:1, y:2 }]]);
+  await st.savePath("k", []);
+  expect(await st.loadPath("k")).toBeUndefined();
+});
+
+test("players and leaderboards round-trip", async () => {
+  const st = createStorage(createMemoryBackend());
+  await st.putPlayer({ id:"2", name:"Zed", avatar:"🦊" }); await st.putPlayer({ id:"1", name:"Ada", avatar:"🐢" });
+  expect((await st.loadPlayers()).map(p => p.name)).toEqual(["Ada", "Zed"]);
+  await st.deletePlayer("2");
+  expect(await st.loadPlayers()).toHaveLength(1);
+
+  expect(await st.loadScores("k")).toEqual([]);
+  const score = { id:"s", playerId:"1", name:"Ada", avatar:"🐢", moves:20, shortest:18, bumps:1, ms:9000, totalMs:11000, stars:3 as const, clock:"stopwatch" as const, at:1 };
+  await st.saveScores("k", [score]);
+  expect(await st.loadScores("k")).toEqual([score]);
+  await st.saveScores("k", []);
+  expect(await st.loadScores("k")).toEqual([]);
+});
+
+test("migrates the old localStorage keys exactly once", async () => {
+  const st = createStorage(createMemoryBackend());
+  const ls = fakeLocalStorage({
+    [LEGACY_SETTINGS_KEY]: JSON.stringify({ seed: 99, width: 15 }),
+    [LEGACY_MAZES_KEY]: JSON.stringify([maze("old", 1)]),
+  });
+  expect(await st.migrate(ls)).toBe(true);
+  expect(await st.loadSettings()).toEqual({ seed: 99, width: 15 });
+  expect(await st.loadMazes()).toEqual([maze("old", 1)]);
+
+  // later edits are not clobbered by a second run
+  await st.saveSettings({ seed: 100 });
+  expect(await st.migrate(ls)).toBe(false);
+  expect(await st.loadSettings()).toEqual({ seed: 100 });
+});
+
+test("corrupt legacy data doesn't block migration", async () => {
+  const st = createStorage(createMemoryBackend());
+  expect(await st.migrate(fakeLocalStorage({ [LEGACY_SETTINGS_KEY]: "{oops" }))).toBe(true);
+  expect(await st.loadSettings()).toBeNull();
+});
+
+test("quota failures become StorageError with quota set", async () => {
+  const full: StorageBackend = {
+    ...createMemoryBackend(),
+    put: async () => { throw new DOMException("full", "QuotaExceededError"); },
+  };
+  const st = createStorage(full);
+  const err = await st.saveMarker("goal", "data:image/png;base64,BBBB").catch(e => e);
+  expect(err).toBeInstanceOf(StorageError);
+  expect(err.quota).toBe(true);
+  expect(err.message).toMatch(/storage space/);
+
+  const other = await createStorage({ ...createMemoryBackend(), put: async () => { throw new Error("boom"); } })
+    .saveSettings({}).catch(e => e);
+  expect(other.quota).toBe(false);
+  expect(other.cause).toEqual(new Error("boom"));
+});
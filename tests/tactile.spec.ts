@@ -0,0 +1,78 @@
+// tests/tactile.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { solveRoute } from "@src/app/waypoints";
+import { PAPER } from "@src/app/worksheet";
+import { BRF_LINE, BRF_PAGE, DEFAULT_TACTILE, brailleFile, brailleGrid, normalizeTactile, tactileHTML, tactileLayout, tactilePage } from "@src/app/tactile";
+
+const base = { width:9, height:9, seed:3, g:0.3, b:0.15, tau:0.4 };
+const count = (s: string, re: RegExp) => s.match(re)?.length ?? 0;
+
+test("the page is the paper's exact size, in millimetres", () => {
+  const r = createMaze(base);
+  for (const paper of ["a4", "letter"] as const) {
+    const svg = tactilePage(r, { ...DEFAULT_TACTILE, paper });
+    const { w, h } = PAPER[paper];
+    expect(svg).toMatch(new RegExp(`^<svg [^>]*width="${w}mm" height="${h}mm" viewBox="0 0 ${w} ${h}"`));
+  }
+  const html = tactileHTML(r, { ...DEFAULT_TACTILE, paper:"letter" });
+  expect(html).toContain("@page{size:215.9mm 279.4mm;margin:0}");
+});
+
+test("cells grow to fill the page but never drop below the minimum", () => {
+  const small = tactileLayout(createMaze(base), DEFAULT_TACTILE);
+  expect(small.fits).toBe(true);
+  expect(small.cellMm).toBeGreaterThanOrEqual(DEFAULT_TACTILE.minCellMm);
+  expect(small.cellMm * 2 % 1).toBe(0);
+  const big = tactileLayout(createMaze({ ...base, width:41, height:41 }), DEFAULT_TACTILE);
+  expect(big.fits).toBe(false);
+  expect(big.cellMm).toBe(DEFAULT_TACTILE.minCellMm);
+  expect(big.maxCols).toBeLessThan(41);
+  expect(tactileLayout(createMaze({ ...base, width:big.maxCols, height:big.maxRows }), DEFAULT_TACTILE).fits).toBe(true);
+});
+
+test("thick walls and solid glyphs instead of emoji", () => {
+  const r = createMaze(base);
+  const svg = tactilePage(r, { ...DEFAULT_TACTILE, wallMm:3 });
+  expect(svg).toContain('stroke="#000" stroke-width="3"');
+  expect(svg).not.toContain("limegreen");
+  // start ● S, goal ■ G, in the maze and once more in the legend
+  expect(count(svg, />S<\/text>/g)).toBe(1);
+  expect(count(svg, />G<\/text>/g)).toBe(1);
+  const plain = toSVG(r, { cell:10, margin:5, startIcon:"🐭", goalIcon:"🧀", glyphs:true });
+  expect(plain).not.toContain("🐭");
+  expect(plain).toMatch(/<rect x="[\d.]+" y="[\d.]+" width="6" height="6" fill="#111"\/>/);
+  const key = tactilePage(r, { ...DEFAULT_TACTILE, solution: solveRoute(r) });
+  expect(key).toContain('class="solution"');
+  expect(key).toContain("answer key");
+});
+
+test("the Braille grid is the maze in ASCII Braille", () => {
+  const r = createMaze({ ...base, width:5, height:4 });
+  const rows = brailleGrid(r)!;
+  expect(rows).toHaveLength(9);
+  for (const row of rows) expect(row).toMatch(/^[= SG]{11}$/);
+  expect(rows[0]).toBe("=".repeat(11));
+  // a perfect maze on 20 cells has 19 passages, each a gap in the grid
+  const gaps = rows.flatMap((row, y) => [...row].filter((c, x) => c === " " && (x % 2 === 0) !== (y % 2 === 0))).length;
+  expect(gaps).toBe(19 + r.braidEdits.length);
+  expect(rows[r.start.y * 2 + 1][r.start.x * 2 + 1]).toBe("S");
+  expect(brailleGrid(createMaze({ ...base, topology:"hex" }))).toBeNull();
+});
+
+test("the .brf keeps to embosser lines and pages", () => {
+  const r = createMaze({ ...base, width:19, height:19, waypoints:{ kind:"checkpoints", count:3, spacing:2 } });
+  const brf = brailleFile(r, "Maze 19 by 19, seed 3")!;
+  const pages = brf.split("\f");
+  expect(pages.length).toBe(Math.ceil((4 + 1 + 39) / BRF_PAGE));
+  for (const page of pages) expect(page.split("\r\n").filter(Boolean).length).toBeLessThanOrEqual(BRF_PAGE);
+  for (const line of brf.split(/\r\n|\f/)) expect(line.length).toBeLessThanOrEqual(BRF_LINE);
+  expect(brf.startsWith("MAZE #AI BY #AI SEED #C\r\n")).toBe(true);
+  expect(brf).toContain("1 TO 9 CHECKPOINTS IN ORDER");
+  expect(brf).not.toMatch(/[a-z]/);
+});
+
+test("stored profiles come back in range", () => {
+  expect(normalizeTactile({ minCellMm: 2, wallMm: 99, paper: "legal" as never })).toEqual({ ...DEFAULT_TACTILE, minCellMm: 8, wallMm: 5 });
+  expect(normalizeTactile(null)).toEqual(DEFAULT_TACTILE);
+  expect(normalizeTactile({ braille: true, paper: "letter" })).toMatchObject({ braille: true, paper: "letter" });
+});
@@ -0,0 +1,83 @@
+// tests/theme.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { THEMES, THEME_IDS, isThemeChoice, resolveTheme, sketchSegment } from "@src/app/theme";
+import { drawMaze, type Pen } from "@src/app/canvas";
+import { decodeShare, encodeShare } from "@src/app/share";
+
+const base = { width:7, height:7, seed:1, g:0.3, b:0.15, tau:0.4 };
+const opts = { cell:10, margin:5 };
+
+test("classic draws what toSVG always drew", () => {
+  const r = createMaze(base);
+  const svg = toSVG(r, { ...opts, theme: THEMES.classic });
+  expect(svg).toBe(toSVG(r, opts));
+  expect(svg).not.toContain('class="floor"');
+  expect(svg).toContain('stroke="#111" stroke-width="2" stroke-linecap="square"');
+  expect(svg).toContain('fill="limegreen"');
+});
+
+test("presets set colours, weight, joins and the floor", () => {
+  const r = createMaze(base);
+  const hc = toSVG(r, { ...opts, theme: THEMES["high-contrast"] });
+  expect(hc).toContain('stroke="#000" stroke-width="3.6"');
+  expect(hc).toContain('<rect class="floor" width="80" height="80" fill="#fff"/>');
+  const bp = toSVG(r, { ...opts, theme: THEMES.blueprint });
+  expect(bp).toContain('stroke-linecap="round" stroke-linejoin="round"');
+  expect(bp).toContain('fill="#1e3a8a"');
+  // the same walls, only styled differently
+  const runs = (svg: string) => svg.match(/<g class="walls"><path d="([^"]+)"/)![1];
+  expect(runs(bp)).toBe(runs(toSVG(r, opts)));
+  expect(toSVG(r, { ...opts, theme: THEMES.print, solution: [r.start, r.goal] })).toContain(THEMES.print.solution);
+});
+
+test("sketchy walls wobble, the same way every time", () => {
+  const r = createMaze(base);
+  const a = toSVG(r, { ...opts, theme: THEMES.sketch }), b = toSVG(r, { ...opts, theme: THEMES.sketch });
+  expect(a).toBe(b);
+  expect(a).toMatch(/Q\d/);
+  expect(a).not.toMatch(/\dH\d/);
+  expect(sketchSegment(0, 0, 10, 0, 1)).toBe(sketchSegment(0, 0, 10, 0, 1));
+  expect(sketchSegment(0, 0, 10, 0, 1)).not.toBe(sketchSegment(0, 10, 10, 10, 1));
+  // round topologies keep their arcs, sketchy or not
+  expect(toSVG(createMaze({ ...base, topology:"theta" }), { ...opts, theme: THEMES.sketch })).toMatch(/\dA\d/);
+});
+
+test("corridor style paints passages instead of walls", () => {
+  const r = createMaze(base);
+  const svg = toSVG(r, { ...opts, theme: THEMES.garden });
+  expect(svg).toContain(`fill="${THEMES.garden.floor}"`);
+  expect(svg).toContain(`stroke="${THEMES.garden.corridor}"`);
+  expect(svg).not.toContain(`stroke="${THEMES.garden.wall}"`);
+  // one band per open passage: a perfect maze on 49 cells has 48, braids add more
+  const bands = svg.match(/L/g)!.length;
+  expect(bands).toBeGreaterThanOrEqual(48);
+});
+
+test("auto follows the OS, presets don't", () => {
+  expect(resolveTheme("auto", false)).toBe(THEMES.classic);
+  expect(resolveTheme("auto", true)).toBe(THEMES.dark);
+  expect(resolveTheme("print", true)).toBe(THEMES.print);
+  for (const id of THEME_IDS) expect(isThemeChoice(id)).toBe(true);
+  expect(isThemeChoice("auto")).toBe(true);
+  expect(isThemeChoice("neon")).toBe(false);
+  expect(isThemeChoice(null)).toBe(false);
+});
+
+test("shared links carry the theme", () => {
+  const s = { width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4, algo:"dfs" as const };
+  expect(decodeShare(encodeShare({ ...s, theme:"blueprint" }))?.theme).toBe("blueprint");
+  expect(encodeShare({ ...s, theme:"auto" })).not.toContain("th=");
+  expect(decodeShare(encodeShare(s) + "&th=neon")?.theme).toBeUndefined();
+});
+
+test("the canvas view fills the floor and uses the theme's colours", () => {
+  const styles: string[] = [], fills: string[] = [];
+  const pen: Record<string, unknown> = {
+    beginPath() {}, moveTo() {}, lineTo() {}, arc() {}, fill() {}, fillText() {}, drawImage() {}, clearRect() {},
+    fillRect() { fills.push(pen.fillStyle as string); },
+    stroke() { styles.push(pen.strokeStyle as string); },
+  };
+  drawMaze(pen as unknown as Pen, createMaze(base), { cell:10, margin:5, stroke:2, theme: THEMES.dark });
+  expect(fills).toEqual([THEMES.dark.floor]);
+  expect(styles).toEqual([THEMES.dark.wall]);
+});
@@ -0,0 +1,85 @@
+// tests/topology.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { GENERATORS, GENERATOR_IDS } from "@src/app/generators";
+import { createGrid, gridDims, thetaRingCounts, type TopologyId } from "@src/app/topology";
+import { openNeighbors, solveMaze } from "@src/app/solver";
+import { computeSolutionStats } from "@src/app/metrics";
+
+const SHAPES: TopologyId[] = ["square", "hex", "triangle", "theta"];
+
+describe.each(SHAPES)("%s grid", (topology) => {
+  const { cols, rows } = gridDims(topology, 9, 11);
+  const grid = createGrid(topology, cols, rows);
+
+  test("neighbors are symmetric", () => {
+    for (let y=0;y<grid.rows;y++) for (let x=0;x<grid.rowLength(y);x++) {
+      for (const { nb } of grid.sides(x, y)) {
+        if (!nb) continue;
+        expect(nb.x).toBeLessThan(grid.rowLength(nb.y));
+        expect(grid.sides(nb.x, nb.y).some(s => s.nb?.x === x && s.nb?.y === y)).toBe(true);
+      }
+    }
+  });
+
+  test("cell centres sit inside the bounding box", () => {
+    for (let y=0;y<grid.rows;y++) for (let x=0;x<grid.rowLength(y);x++) {
+      const [cx, cy] = grid.center(x, y);
+      expect(cx).toBeGreaterThan(0); expect(cx).toBeLessThan(grid.size.w);
+      expect(cy).toBeGreaterThan(0); expect(cy).toBeLessThan(grid.size.h);
+    }
+  });
+});
+
+test("theta rings split as they grow", () => {
+  expect(thetaRingCounts(6)).toEqual([1, 6, 12, 24, 24, 24]);
+});
+
+const graphAlgos = GENERATOR_IDS.filter(id => GENERATORS[id].graph);
+
+describe.each((["hex", "triangle", "theta"] as TopologyId[]).flatMap(t => graphAlgos.map(a => [t, a] as const)))(
+  "%s maze via %s", (topology, algo) => {
+    const params = { width:9, height:11, seed:5, g:0.3, b:0, tau:0.4, algo, topology };
+
+    test("carves a spanning tree over every cell", () => {
+      const { maze, treeSteps } = createMaze(params);
+      const cells = maze.reduce((n, row) => n + row.length, 0);
+      expect(treeSteps).toHaveLength(cells - 1);
+      const links = maze.flat().reduce((n, c) => n + c.links!.length, 0);
+      expect(links).toBe(2 * (cells - 1));
+    });
+
+    test("solves start → goal along open links", () => {
+      const r = createMaze(params);
+      const path = solveMaze(r.maze, r.start, r.goal);
+      expect(path[0]).toEqual(r.start);
+      expect(path[path.length - 1]).toEqual(r.goal);
+      for (let i=1;i<path.length;i++) {
+        expect(openNeighbors(r.maze, path[i-1].x, path[i-1].y).some(n => n.x === path[i].x && n.y === path[i].y)).toBe(true);
+      }
+      expect(computeSolutionStats(r.maze, r.start, r.goal, path).R).toBe(1);
+    });
+  });
+
+test("braiding adds loops on a hex grid", () => {
+  const r = createMaze({ width:11, height:11, seed:3, g:0.3, b:0.5, tau:0.4, topology:"hex" });
+  expect(r.braidEdits.length).toBeGreaterThan(0);
+  expect(computeSolutionStats(r.maze, r.start, r.goal).R).toBeGreaterThanOrEqual(1);
+});
+
+test("theta walks from the rim to the centre", () => {
+  const r = createMaze({ width:9, height:13, seed:1, g:0.3, b:0, tau:0.4, topology:"theta" });
+  expect(r.maze).toHaveLength(7);
+  expect(r.goal).toEqual({ x:0, y:0 });
+  expect(r.start.y).toBe(6);
+});
+
+test("non-square SVG uses the grid's footprint and arc walls for theta", () => {
+  const svg = toSVG(createMaze({ width:9, height:13, seed:1, g:0.3, b:0, tau:0.4, topology:"theta" }), { cell:20, margin:10 });
+  expect(svg).toContain(`viewBox="0 0 300 300"`);
+  expect(svg).toMatch(/<g class="walls"><path d="M[^"]*A/);
+});
+
+test("non-square generators fall back to DFS when they need rows", () => {
+  const base = { width:9, height:9, seed:8, g:0.3, b:0, tau:0.4, topology:"hex" as const };
+  expect(createMaze({ ...base, algo:"sidewinder" }).treeSteps).toEqual(createMaze({ ...base, algo:"dfs" }).treeSteps);
+});
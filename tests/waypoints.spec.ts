@@ -0,0 +1,93 @@
+// tests/waypoints.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { distancesFrom, openNeighbors, solveMaze, solveTour, type Pt } from "@src/app/solver";
+import { solveRoute } from "@src/app/waypoints";
+import { computeSolutionStats } from "@src/app/metrics";
+import { paramsKey, validateSavedMaze } from "@src/app/library";
+import { decodeShare, encodeShare } from "@src/app/share";
+
+const base = { width:19, height:19, seed:11, g:0.3, b:0.1, tau:0.4 };
+const dist = (m: ReturnType<typeof createMaze>["maze"], a: Pt, b: Pt) => distancesFrom(m, a)[b.y*m[0].length + b.x];
+
+test("waypoints don't change the maze itself", () => {
+  const plain = createMaze(base);
+  const r = createMaze({ ...base, waypoints:{ kind:"treasures", count:4, spacing:5 } });
+  expect(r.treeSteps).toEqual(plain.treeSteps);
+  expect(r.braidEdits).toEqual(plain.braidEdits);
+  expect(plain.waypoints).toBeUndefined();
+});
+
+test("stops are distinct, reachable, spaced and seeded", () => {
+  const p = { ...base, waypoints:{ kind:"treasures" as const, count:5, spacing:6 } };
+  const r = createMaze(p);
+  expect(createMaze(p).waypoints).toEqual(r.waypoints);
+  const marked = [r.start, r.goal, ...r.waypoints!.cells];
+  expect(r.waypoints!.cells).toHaveLength(5);
+  for (let i=0;i<marked.length;i++) for (let j=i+1;j<marked.length;j++) {
+    expect(dist(r.maze, marked[i], marked[j])).toBeGreaterThanOrEqual(6);
+  }
+});
+
+test("spacing too big for the maze still places every stop, as far apart as it can", () => {
+  const r = createMaze({ ...base, width:7, height:7, waypoints:{ kind:"treasures", count:6, spacing:500 } });
+  const cells = r.waypoints!.cells;
+  expect(cells).toHaveLength(6);
+  expect(new Set(cells.map(c => `${c.x},${c.y}`)).size).toBe(6);
+  expect(cells.every(c => dist(r.maze, r.start, c) > 0 && dist(r.maze, r.goal, c) > 0)).toBe(true);
+});
+
+test("checkpoints are numbered outward and the tour visits them in order", () => {
+  const r = createMaze({ ...base, waypoints:{ kind:"checkpoints", count:3, spacing:4 } });
+  const cps = r.waypoints!.cells;
+  const d = cps.map(c => dist(r.maze, r.start, c));
+  expect(d).toEqual([...d].sort((a, b) => a - b));
+
+  const tour = solveRoute(r);
+  expect(tour[0]).toEqual(r.start);
+  expect(tour[tour.length - 1]).toEqual(r.goal);
+  for (let i=1;i<tour.length;i++) {
+    expect(openNeighbors(r.maze, tour[i-1].x, tour[i-1].y).some(n => n.x === tour[i].x && n.y === tour[i].y)).toBe(true);
+  }
+  const at = (c: Pt) => tour.findIndex(p => p.x === c.x && p.y === c.y);
+  expect(at(cps[0])).toBeLessThan(at(cps[1]));
+  expect(at(cps[1])).toBeLessThan(at(cps[2]));
+  expect(tour.length).toBeGreaterThanOrEqual(solveMaze(r.maze, r.start, r.goal).length);
+});
+
+test("treasures take the shortest order", () => {
+  const r = createMaze({ ...base, waypoints:{ kind:"treasures", count:3, spacing:4 } });
+  const [a, b, c] = r.waypoints!.cells;
+  const best = solveTour(r.maze, r.start, r.goal, [a, b, c], false).length;
+  for (const order of [[a,b,c],[a,c,b],[b,a,c],[b,c,a],[c,a,b],[c,b,a]]) {
+    expect(best).toBeLessThanOrEqual(solveTour(r.maze, r.start, r.goal, order, true).length);
+  }
+});
+
+test("stats report the full tour", () => {
+  const r = createMaze({ ...base, waypoints:{ kind:"checkpoints", count:4, spacing:4 } });
+  const tour = solveRoute(r);
+  const s = computeSolutionStats(r.maze, r.start, r.goal, tour);
+  expect(s.S).toBe(tour.length);
+  expect(s.OFF).toBeGreaterThanOrEqual(0);
+  expect(s.OFF).toBeLessThan(1);
+});
+
+test("SVG draws stops with the marker rules", () => {
+  const r = createMaze({ ...base, waypoints:{ kind:"checkpoints", count:3, spacing:4 } });
+  const svg = toSVG(r, { cell:20, margin:10, waypointIcon:"⭐" });
+  expect(svg.split("⭐").length - 1).toBe(3);
+  expect(svg).toMatch(/font-weight="700"[^>]*>3<\/text>/);
+  const img = toSVG(r, { cell:20, margin:10, startIcon:"🚀", goalIcon:"🏁", waypointIcon:"data:image/png;base64,AAAA" });
+  expect(img.match(/<image /g)).toHaveLength(3);
+  const dots = toSVG(createMaze({ ...base, waypoints:{ kind:"treasures", count:2, spacing:4 } }), { cell:20, margin:10 });
+  expect(dots.match(/fill="#f59e0b"/g)).toHaveLength(2);
+});
+
+test("waypoint settings survive save / share", () => {
+  const waypoints = { kind:"treasures" as const, count:4, spacing:7 };
+  expect(paramsKey({ ...base, waypoints })).not.toBe(paramsKey(base));
+  expect(validateSavedMaze({ name:"w", params:{ ...base, waypoints } })?.params.waypoints).toEqual(waypoints);
+  expect(validateSavedMaze({ name:"w", params:{ ...base, waypoints:{ ...waypoints, count:99 } } })).toBeNull();
+  const s = decodeShare(encodeShare({ ...base, algo:"dfs", waypoints, waypointIcon:"💎" }));
+  expect(s).toMatchObject({ waypoints, waypointIcon:"💎" });
+});
@@ -0,0 +1,91 @@
+// tests/weave.spec.ts
+import { createMaze, toSVG, type Cell } from "@src/app/maze";
+import { distancesFrom, openNeighbors, solveMaze } from "@src/app/solver";
+import { move, newPlay, tokenOf } from "@src/app/play";
+import { isSolved } from "@src/app/snap";
+import { paramsKey, validateSavedMaze } from "@src/app/library";
+import { decodeShare, encodeShare } from "@src/app/share";
+
+const base = { width:21, height:21, seed:3, g:0.3, b:0, tau:0.4 };
+const bridges = (m: Cell[][]) => m.flat().filter(c => c.bridge);
+
+test("no weave, no crossings (and the maze is unchanged)", () => {
+  const r = createMaze(base);
+  expect(bridges(r.maze)).toHaveLength(0);
+  expect(createMaze({ ...base, weave:0 }).treeSteps).toEqual(r.treeSteps);
+});
+
+test("crossings keep the maze a perfect, seeded tree", () => {
+  const p = { ...base, weave:0.5 };
+  const r = createMaze(p);
+  expect(bridges(r.maze).length).toBeGreaterThan(0);
+  expect(createMaze(p).maze).toEqual(r.maze);
+  // every cell reachable over cells - 1 edges
+  const N = 21 * 21;
+  expect(r.treeSteps).toHaveLength(N - 1);
+  expect(Array.from(distancesFrom(r.maze, r.start)).every(d => d >= 0)).toBe(true);
+  const edges = r.maze.flat().reduce((n, c) => n + openNeighbors(r.maze, c.x, c.y).length, 0) / 2;
+  expect(edges).toBe(N - 1);
+});
+
+test("a bridge carries its corridor and a tunnel runs underneath", () => {
+  const r = createMaze({ ...base, weave:0.5 });
+  for (const c of bridges(r.maze)) {
+    const ns = c.bridge === "ns";
+    expect(ns ? [c.n, c.s, c.e, c.w] : [c.e, c.w, c.n, c.s]).toEqual([0, 0, 1, 1]);
+    const a = ns ? r.maze[c.y][c.x-1] : r.maze[c.y-1][c.x], b = ns ? r.maze[c.y][c.x+1] : r.maze[c.y+1][c.x];
+    expect(a.tunnels).toContainEqual({ x:b.x, y:b.y });
+    expect(b.tunnels).toContainEqual({ x:a.x, y:a.y });
+  }
+});
+
+test("solver, play and drawn paths all use the tunnels", () => {
+  const r = createMaze({ ...base, weave:0.5 });
+  const c = bridges(r.maze)[0], ns = c.bridge === "ns";
+  const a = ns ? { x:c.x-1, y:c.y } : { x:c.x, y:c.y-1 }, b = ns ? { x:c.x+1, y:c.y } : { x:c.x, y:c.y+1 };
+  expect(solveMaze(r.maze, a, b)).toEqual([a, b]);
+  const st = move(newPlay(a), r.maze, r.goal, ns ? "e" : "s", 0);
+  expect(tokenOf(st)).toEqual(b);
+  const path = solveMaze(r.maze, r.start, r.goal);
+  expect(isSolved(r.maze, path, r.start, r.goal)).toBe(true);
+  // big woven grids stay on BFS: A* must not return a longer route
+  expect(solveMaze(r.maze, r.start, r.goal, "astar").length).toBe(path.length);
+});
+
+test("braiding never breaks into a bridge", () => {
+  const r = createMaze({ ...base, weave:0.5, b:0.5 });
+  for (const c of bridges(r.maze)) expect(c.bridge === "ns" ? [c.e, c.w] : [c.n, c.s]).toEqual([1, 1]);
+});
+
+test("SVG draws the deck rails with gaps for the tunnel", () => {
+  const r = createMaze({ ...base, weave:0.5 });
+  const c = bridges(r.maze)[0], cell = 20, margin = 10;
+  const svg = toSVG(r, { cell, margin });
+  const x = margin + c.x*cell, y = margin + c.y*cell;
+  const rail = c.bridge === "ns"
+    ? `x1="${x + 4}" y1="${y}" x2="${x + 4}" y2="${y + cell}"`
+    : `x1="${x}" y1="${y + 4}" x2="${x + cell}" y2="${y + 4}"`;
+  expect(svg).toContain(rail);
+  // the deck's own side walls are left out
+  const side = c.bridge === "ns"
+    ? `x1="${x}" y1="${y}" x2="${x}" y2="${y + cell}"`
+    : `x1="${x}" y1="${y}" x2="${x + cell}" y2="${y}"`;
+  expect(svg).not.toContain(side);
+});
+
+test("weave survives save / share", () => {
+  expect(paramsKey({ ...base, weave:0.3 })).not.toBe(paramsKey(base));
+  expect(validateSavedMaze({ name:"v", params:{ ...base, weave:0.3 } })?.params.weave).toBe(0.3);
+  expect(validateSavedMaze({ name:"v", params:{ ...base, weave:2 } })).toBeNull();
+  expect(decodeShare(encodeShare({ ...base, algo:"dfs", weave:0.25 }))?.weave).toBe(0.25);
+  expect(decodeShare(encodeShare({ ...base, algo:"dfs" }))?.weave).toBeUndefined();
+});
+
+// loose budget: it's here to catch a return of a whole-grid search per crossing
+test("benchmark: weaving a 301×301 grid stays quick and perfect", () => {
+  const t = performance.now();
+  const r = createMaze({ ...base, width:301, height:301, weave:0.5 });
+  expect(performance.now() - t).toBeLessThan(10_000);
+  expect(bridges(r.maze).length).toBeGreaterThan(1000);
+  expect(r.treeSteps).toHaveLength(301 * 301 - 1);
+}, 30_000);
@@ -0,0 +1,60 @@
+// tests/worksheet.spec.ts
+import { buildWorksheetMazes, buildWorksheetPages, planWorksheet, worksheetHTML, RAMP_EASY, type WorksheetOpts } from "@src/app/worksheet";
+import { createMazeService } from "@src/app/mazeService";
+
+const opts: WorksheetOpts = {
+  title: "Week <3>", perPage: 4, pages: 2, seedMode: "sequential", baseSeed: 100,
+  difficulty: "fixed", params: { width:15, height:15, g:0.2, b:0.1, tau:0.3 },
+  answerKey: true, paper: "a4",
+};
+
+test("sequential seeds count up from the base seed", () => {
+  expect(planWorksheet(opts).map(i => i.params.seed)).toEqual([100, 101, 102, 103, 104, 105, 106, 107]);
+});
+
+test("random seeds are reproducible", () => {
+  const a = planWorksheet({ ...opts, seedMode: "random" });
+  expect(a.map(i => i.params.seed)).toEqual(planWorksheet({ ...opts, seedMode: "random" }).map(i => i.params.seed));
+  expect(new Set(a.map(i => i.params.seed)).size).toBe(8);
+});
+
+test("ramp goes from easy to the current settings", () => {
+  const items = planWorksheet({ ...opts, difficulty: "ramp" });
+  expect(items[0].params).toMatchObject({ width: RAMP_EASY.width, g: RAMP_EASY.g });
+  expect(items[items.length - 1].params).toMatchObject({ width: 15, height: 15, g: 0.2, b: 0.1, tau: 0.3 });
+  expect(items.every(i => i.params.width % 2 === 1)).toBe(true);
+});
+
+test("pages at paper size, with answer keys after the mazes", () => {
+  const pages = buildWorksheetPages(opts);
+  expect(pages).toHaveLength(4);
+  expect(pages[0]).toContain(`width="210mm" height="297mm"`);
+  expect(pages[0]).toContain("Week &lt;3&gt; #1");
+  expect(pages[0]).toContain("seed 100");
+  expect(pages[0]).not.toContain(`class="solution"`);
+  expect(pages[2]).toContain(`class="solution"`);
+  expect(pages[2]).toContain("Answer key");
+});
+
+test("html wraps one sheet per page", () => {
+  const html = worksheetHTML(buildWorksheetPages({ ...opts, answerKey: false, paper: "letter" }), "letter");
+  expect(html.match(/class="sheet"/g)).toHaveLength(2);
+  expect(html).toContain("@page{size:215.9mm 279.4mm");
+});
+
+test("mazes built through the service report progress and print the same sheet", async () => {
+  const seen: number[] = [];
+  const built = await buildWorksheetMazes(opts, createMazeService(), { onProgress: done => seen.push(done) });
+  expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+  expect(buildWorksheetPages(opts, built)).toEqual(buildWorksheetPages(opts));
+});
+
+test("a cancelled build stops between slots", async () => {
+  const ctl = new AbortController();
+  const seen: number[] = [];
+  const run = buildWorksheetMazes(opts, createMazeService(), {
+    signal: ctl.signal, onProgress: done => { seen.push(done); if (done === 2) ctl.abort(); },
+  });
+  await expect(run).rejects.toMatchObject({ name: "AbortError" });
+  expect(seen).toEqual([0, 1, 2]);
+});
@@ -0,0 +1,77 @@
+// tests/worlds.spec.ts
+import { createMaze, toSVG } from "@src/app/maze";
+import { packMaze, wallRuns } from "@src/app/packed";
+import { ARM_E, ARM_N, ARM_S, ARM_W, WORLDS, WORLD_IDS, isWorldId, junctionFor, tileWalls } from "@src/app/worlds";
+import { decodeShare, encodeShare } from "@src/app/share";
+
+const base = { width:9, height:9, seed:7, g:0.3, b:0.15, tau:0.4 };
+const opts = { cell:20, margin:10 };
+const count = (s: string, re: RegExp) => s.match(re)?.length ?? 0;
+
+test("every arm combination gets a junction tile, turned to fit", () => {
+  expect(junctionFor(0)).toBeNull();
+  expect(junctionFor(ARM_E)).toEqual({ shape:"end", deg:0 });
+  expect(junctionFor(ARM_N)).toEqual({ shape:"end", deg:270 });
+  expect(junctionFor(ARM_N | ARM_S)).toEqual({ shape:"straight", deg:90 });
+  expect(junctionFor(ARM_S | ARM_W)).toEqual({ shape:"corner", deg:90 });
+  expect(junctionFor(ARM_N | ARM_E | ARM_S)).toEqual({ shape:"tee", deg:270 });
+  expect(junctionFor(15)).toEqual({ shape:"cross", deg:0 });
+  const shapes = Array.from({ length:15 }, (_, i) => junctionFor(i + 1)!.shape);
+  expect(shapes.filter(s => s === "end")).toHaveLength(4);
+  expect(shapes.filter(s => s === "straight")).toHaveLength(2);
+  expect(shapes.filter(s => s === "corner")).toHaveLength(4);
+  expect(shapes.filter(s => s === "tee")).toHaveLength(4);
+});
+
+test("a world tiles every wall and every corner where walls meet", () => {
+  const r = createMaze(base), p = packMaze(r.maze);
+  let units = 0;
+  const corners = new Set<string>();
+  wallRuns(p, (x1, y1, x2, y2) => {
+    units += x2 - x1 + y2 - y1;
+    for (let x=x1;x<=x2;x++) for (let y=y1;y<=y2;y++) corners.add(`${x},${y}`);
+  });
+  const tiles = tileWalls(p, 20, 10, "castle");
+  expect(count(tiles, /href="#w-castle-seg"/g)).toBe(units);
+  expect(count(tiles, /<use /g)).toBe(units + corners.size);
+  // the outer corners of a full grid are corners
+  expect(tiles).toContain('href="#w-castle-corner" x="5.5" y="5.5"');
+});
+
+test("toSVG draws the world's floor and tiles", () => {
+  const r = createMaze(base);
+  for (const id of WORLD_IDS) {
+    const svg = toSVG(r, { ...opts, world: id });
+    expect(svg).toContain(`<pattern id="w-${id}-floor"`);
+    expect(svg).toContain(`fill="url(#w-${id}-floor)"`);
+    for (const shape of ["end", "straight", "corner", "tee", "cross"]) expect(svg).toContain(`<symbol id="w-${id}-${shape}"`);
+    expect(svg).not.toContain("stroke-linecap");
+    expect(svg).toContain(`fill="${WORLDS[id].theme.start}"`);
+  }
+});
+
+test("other shapes and poster grids keep line walls in the world's colours", () => {
+  const hex = toSVG(createMaze({ ...base, topology:"hex" }), { ...opts, world:"forest" });
+  expect(hex).not.toContain("<use");
+  expect(hex).toContain(`stroke="${WORLDS.forest.theme.wall}"`);
+  const big = toSVG(createMaze({ ...base, width:101, height:101 }), { cell:4, margin:2, world:"space" });
+  expect(big).not.toContain("<use");
+  expect(big).toContain(`fill="${WORLDS.space.theme.floor}"`);
+});
+
+test("weave decks still draw over tiled walls", () => {
+  const r = createMaze({ ...base, weave:0.6 });
+  expect(r.maze.some(row => row.some(c => c.bridge))).toBe(true);
+  const svg = toSVG(r, { ...opts, world:"forest" });
+  expect(svg).toContain("<use");
+  expect(svg).toMatch(/<line [^>]+stroke="#2e7d32"/);
+});
+
+test("worlds ride in share links", () => {
+  const s = { width:19, height:19, seed:42, g:0.3, b:0.15, tau:0.4, algo:"dfs" as const };
+  expect(decodeShare(encodeShare({ ...s, world:"space" }))?.world).toBe("space");
+  expect(encodeShare({ ...s, world:null })).not.toContain("wo=");
+  expect(decodeShare(encodeShare(s) + "&wo=moon")?.world).toBeUndefined();
+  expect(isWorldId("castle")).toBe(true);
+  expect(isWorldId("moon")).toBe(false);
+});